@@ -1,185 +1,819 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { AppMode, Paper, ProcessingLog, ChatMessage, TrainingMetric } from './types';
-import { generateArxivPapers, chatWithKnowledgeBase } from './services/gemini';
-import { VoiceAgent } from './components/VoiceAgent';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AppMode, Paper, ProcessingLog, ChatMessage, Citation, Collection, ChatThread, PipelineRun, JobStatus, TrainingRun, DatasetExample } from './types';
+import { chatWithKnowledgeBase } from './services/assistant';
+import { resolveTask, WebSource } from './services/providers';
+import { loadSettings, saveSettings, LLMSettings } from './services/settings';
+import { arxivClient } from './services/arxiv';
+import { urlIngestor, classifyUrl, describeUrlSource, UrlSource } from './services/urlIngest';
+import { parseTrainingLog, createTrainingRun, pickLogFile, watchLogFile } from './services/training';
+import { runVoiceTool } from './services/voiceTools';
+import { ComparisonRow } from './services/comparison';
+import { buildCitationGraph } from './services/references';
+import { searchPapers, applyFacets, sortPapers, tokenize, PaperHit, FacetSelection, EMPTY_FACETS, PaperSort } from './services/search';
+import { DroppedItem } from './services/structured';
+import { extractPdf, PdfExtractionError } from './services/pdf';
+import { transcribeMedia, isMediaFile, MEDIA_ACCEPT } from './services/media';
+import { parseBibliography, isBibliographyFile, BibliographyParseError, BIBLIOGRAPHY_FORMATS } from './services/bibliography';
+import { createEmbeddingProvider, EmbeddingProvider } from './services/embeddings';
+import { VectorStore } from './services/vectorStore';
+import { indexPapers, addToStore, retrieve, formatContext, DEFAULT_RAG_CONFIG } from './services/rag';
+import { buildCitations, locateCitation, ReaderFocus } from './services/citations';
+import { PipelineJob, PipelineStep } from './services/pipeline';
+import { createThread, getBranch, getSiblings, appendMessage, updateMessage, selectBranch } from './services/threads';
+import { getModelProfile, getContextBudget, fitRetrieved, planHistory, summarizeConversation, toChatTurns, estimateUsage, packPaperCatalogue } from './services/context';
+import { createIngestSteps, createIngestState, IngestState } from './services/ingestion';
+import { Citations } from './components/Citations';
+import { Markdown } from './components/Markdown';
+import { ThreadList } from './components/ThreadList';
+import { ContextMeter } from './components/ContextMeter';
+import { MediaPlayer } from './components/MediaPlayer';
+import { TrainingRuns } from './components/TrainingRuns';
+import { DatasetBuilder } from './components/DatasetBuilder';
+import { ComparisonTable } from './components/ComparisonTable';
+import { SurveyWriter } from './components/SurveyWriter';
+import { CitationGraph } from './components/CitationGraph';
+import { CollectionSwitcher } from './components/CollectionSwitcher';
+import { PipelineLog, JOB_BADGES } from './components/PipelineLog';
+import { AddPapersPanel } from './components/AddPapersPanel';
+import { BibliographyExport } from './components/BibliographyExport';
+import { PaperSearch, PaperTags, Highlighted } from './components/PaperSearch';
+import { PaperDetail } from './components/PaperDetail';
+import {
+  listCollections, createCollection, deleteCollection, loadCollection, replaceCorpus, deletePaper, savePaper,
+  saveThread, deleteThread, savePipelineRun, saveTrainingRun, deleteTrainingRun, saveDatasetExamples, deleteDatasetExamples,
+  getActiveCollectionId, setActiveCollectionId
+} from './services/storage';
+import { VoiceAgent, VoiceTurn } from './components/VoiceAgent';
 import { Button, Input, Card, Badge } from './components/UI';
 import { 
   Upload, Link as LinkIcon, Search, FileText, Cpu, 
-  MessageSquare, Mic, Activity, CheckCircle2, ArrowRight,
-  BrainCircuit, Send, Loader2
+  MessageSquare, Mic, Activity, ArrowRight,
+  BrainCircuit, Send, Loader2, Settings, XCircle, RotateCcw, History, X, Plus, Trash2,
+  Pencil, RefreshCw, Square, ChevronLeft, ChevronRight, PlayCircle, Database, Table2, Network, BookOpen
 } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { GenerateContentResponse } from '@google/genai';
-
-// Mock Training Data Generator
-const generateTrainingData = (points: number) => {
-  const data: TrainingMetric[] = [];
-  let loss = 2.5;
-  let accuracy = 0.1;
-  for (let i = 0; i < points; i++) {
-    loss = Math.max(0.1, loss * 0.95 + (Math.random() * 0.1 - 0.05));
-    accuracy = Math.min(0.99, accuracy * 1.05 + (Math.random() * 0.02));
-    data.push({ epoch: i + 1, loss, accuracy });
-  }
-  return data;
-};
+import { SettingsPanel } from './components/SettingsPanel';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.INGEST);
   const [topic, setTopic] = useState('LLM Optimizations');
   const [paperCount, setPaperCount] = useState(3);
+  const [showArxivFilters, setShowArxivFilters] = useState(false);
+  const [arxivCategories, setArxivCategories] = useState('');
+  const [arxivAuthor, setArxivAuthor] = useState('');
+  const [arxivDateFrom, setArxivDateFrom] = useState('');
+  const [arxivDateTo, setArxivDateTo] = useState('');
   const [papers, setPapers] = useState<Paper[]>([]);
   const [logs, setLogs] = useState<ProcessingLog[]>([]);
-  const [trainingData, setTrainingData] = useState<TrainingMetric[]>([]);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [droppedItems, setDroppedItems] = useState<DroppedItem[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
   const [isVoiceOpen, setIsVoiceOpen] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<string | null>(null);
+  const [ingestLink, setIngestLink] = useState('');
+  const [ingestLinkError, setIngestLinkError] = useState<string | null>(null);
+  const [highlightedPaperId, setHighlightedPaperId] = useState<string | null>(null);
+  // Recording opened from a timestamped citation or a transcript card
+  const [playback, setPlayback] = useState<{ paperId: string; time: number } | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [activeCollectionId, setActiveCollection] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [pipelineRuns, setPipelineRuns] = useState<PipelineRun[]>([]);
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [viewedRun, setViewedRun] = useState<PipelineRun | null>(null);
+  const [backgroundJob, setBackgroundJob] = useState<string | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [selectedPaperIds, setSelectedPaperIds] = useState<Set<string>>(new Set());
+  const [trainingRuns, setTrainingRuns] = useState<TrainingRun[]>([]);
+  const [watchedRunIds, setWatchedRunIds] = useState<string[]>([]);
+  const [isTrainingOpen, setIsTrainingOpen] = useState(false);
+  const [datasetExamples, setDatasetExamples] = useState<DatasetExample[]>([]);
+  const [isDatasetOpen, setIsDatasetOpen] = useState(false);
+  const [comparisonRows, setComparisonRows] = useState<ComparisonRow[]>([]);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+  const [isSurveyOpen, setIsSurveyOpen] = useState(false);
+  const [isGraphOpen, setIsGraphOpen] = useState(false);
+  const [paperQuery, setPaperQuery] = useState('');
+  // null while there is no query; the sidebar then lists the whole collection
+  const [paperHits, setPaperHits] = useState<PaperHit[] | null>(null);
+  const [isSearchingPapers, setIsSearchingPapers] = useState(false);
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(EMPTY_FACETS);
+  const [paperSort, setPaperSort] = useState<PaperSort>('relevance');
+  // Paper open in the detail view, with the cited passage to jump to
+  const [detail, setDetail] = useState<{ paperId: string; focus: ReaderFocus | null } | null>(null);
+  // Paper the next chat question is limited to
+  const [chatScope, setChatScope] = useState<string | null>(null);
   
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const chatInputRef = useRef<HTMLInputElement>(null);
+  const paperCardRefs = useRef(new Map<string, HTMLDivElement>());
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const jobRef = useRef<{ job: PipelineJob<IngestState>; runId: string; title: string; collectionId: string; startedAt: number } | null>(null);
+  // Stop functions of the log files being watched, by training run id
+  const logWatchersRef = useRef(new Map<string, () => void>());
+
+  const [settings, setSettings] = useState<LLMSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // Retrieval index, embedded with whatever model the settings assign to the embed task
+  const embedderRef = useRef<EmbeddingProvider>(createEmbeddingProvider(resolveTask(settings, 'embed')));
+  const vectorStoreRef = useRef(new VectorStore(embedderRef.current.id));
+
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? null;
+  const chatHistory = activeThread ? getBranch(activeThread) : [];
+
+  // What the next chat request will send, shown under the input
+  const contextUsage = estimateUsage(resolveTask(settings, 'chat'), chatHistory, activeThread?.summaries ?? {}, chatInput, papers.length > 0);
+
+  // Parsed from the papers' own reference lists, so it is rebuilt whenever papers change
+  const citationGraph = useMemo(() => buildCitationGraph(papers), [papers]);
+
+  // Search hits narrowed by the facets, in the chosen order
+  const visiblePapers = useMemo(() => {
+    const matching = paperHits ? papers.filter(p => paperHits.some(h => h.paperId === p.id)) : papers;
+    return sortPapers(applyFacets(matching, facetSelection), paperSort, paperHits);
+  }, [papers, paperHits, facetSelection, paperSort]);
+  const queryTerms = useMemo(() => tokenize(paperQuery), [paperQuery]);
+
+  // The live session looks passages up through function calls; its prompt only lists the papers
+  const voiceContext = useMemo(() => {
+    const profile = getModelProfile(resolveTask(settings, 'live'));
+    return packPaperCatalogue(papers, getContextBudget(profile).context, profile);
+  }, [papers, settings]);
 
   // Scroll to bottom of chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatHistory, isChatLoading]);
+  }, [activeThread?.messages, activeThread?.activeLeafId, isChatLoading]);
 
-  // --- LOGIC: Ingestion & Processing ---
+  // Search the collection as the user types; papers changing (ingestion, re-indexing) re-runs the query
+  useEffect(() => {
+    const query = paperQuery.trim();
+    if (!query) {
+      setPaperHits(null);
+      setIsSearchingPapers(false);
+      return;
+    }
+    let stale = false;
+    setIsSearchingPapers(true);
+    const timer = setTimeout(async () => {
+      const store = vectorStoreRef.current;
+      try {
+        let hits: PaperHit[];
+        try {
+          hits = await searchPapers(query, papers, store, embedderRef.current);
+        } catch {
+          // Keyword matches still work when the query can't be embedded (offline, no API key)
+          hits = await searchPapers(query, papers, store, null);
+        }
+        if (!stale) setPaperHits(hits);
+      } catch (error) {
+        console.error("Paper search failed", error);
+        if (!stale) setPaperHits([]);
+      } finally {
+        if (!stale) setIsSearchingPapers(false);
+      }
+    }, 250);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [paperQuery, papers]);
 
-  const handleArxivScrape = async () => {
-    try {
-      setMode(AppMode.PROCESSING);
-      addLog("Connecting to arXiv API...", "active");
-      
-      // Fetch papers via Gemini (simulated scraping)
-      const fetchedPapers = await generateArxivPapers(topic, paperCount);
-      
-      if (fetchedPapers.length === 0) {
-          addLog("No papers found or parsing error.", "pending");
-          // Don't crash, just allow retry
-          setTimeout(() => setMode(AppMode.INGEST), 2000);
-          return;
+  // Restore the last opened collection on startup
+  useEffect(() => {
+    const init = async () => {
+      let stored = await listCollections();
+      if (stored.length === 0) stored = [await createCollection('My Research')];
+      setCollections(stored);
+
+      const lastId = getActiveCollectionId();
+      await openCollection(stored.find(c => c.id === lastId)?.id ?? stored[0].id);
+    };
+    init().catch(error => console.error("Failed to load knowledge base", error));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // --- LOGIC: Collections ---
+
+  const openCollection = async (collectionId: string) => {
+    jobRef.current?.job.cancel();
+    chatAbortRef.current?.abort();
+    const data = await loadCollection(collectionId);
+    setActiveCollectionId(collectionId);
+    setActiveCollection(collectionId);
+    setPapers(data.papers);
+    setSelectedPaperIds(new Set());
+    setPipelineRuns(data.pipelineRuns);
+    stopWatchingAll();
+    setTrainingRuns(data.trainingRuns);
+    setDatasetExamples(data.datasetExamples);
+    setComparisonRows([]);
+    setPaperQuery('');
+    setFacetSelection(EMPTY_FACETS);
+    setDetail(null);
+    setChatScope(null);
+
+    const stored = data.threads.length > 0 ? data.threads : [createThread(collectionId)];
+    setThreads(stored);
+    setActiveThreadId(stored[0].id);
+    setEditingMessageId(null);
+
+    setLogs([]);
+    setBackgroundJob(null);
+    setMode(data.papers.length > 0 ? AppMode.DASHBOARD : AppMode.INGEST);
+
+    // Rebuild the in-memory index from stored vectors of the current embedder
+    const store = vectorStoreRef.current;
+    store.clear();
+    const usable = data.chunks.filter(c => c.embedderId === store.embedderId);
+    store.add(usable.map(({ collectionId: _c, embedderId: _e, vector: _v, ...chunk }) => chunk), usable.map(c => c.vector));
+    if (data.papers.length > 0 && usable.length === 0) {
+      try {
+        const indexed = await indexPapers(data.papers, embedderRef.current, DEFAULT_RAG_CONFIG);
+        await replaceCorpus(collectionId, data.papers, indexed.chunks, indexed.vectors, store.embedderId);
+        // Another collection may have been opened while this one was being re-indexed
+        if (getActiveCollectionId() === collectionId && vectorStoreRef.current === store) {
+          addToStore(store, embedderRef.current.id, data.papers, indexed);
+        }
+      } catch (error) {
+        // The papers stay usable; chat just finds no passages until they are re-processed
+        console.error("Failed to re-index collection", error);
       }
+    }
+  };
+
+  const handleCreateCollection = async (name: string) => {
+    const collection = await createCollection(name);
+    setCollections(prev => [...prev, collection]);
+    setTopic(name);
+    await openCollection(collection.id);
+  };
+
+  const handleSaveSettings = async (next: LLMSettings) => {
+    saveSettings(next);
+    setSettings(next);
+    setIsSettingsOpen(false);
+
+    const embedder = createEmbeddingProvider(resolveTask(next, 'embed'));
+    if (embedder.id !== embedderRef.current.id) {
+      embedderRef.current = embedder;
+      vectorStoreRef.current = new VectorStore(embedder.id);
+      // Reopening rebuilds the index with the new embedder
+      if (activeCollectionId) await openCollection(activeCollectionId);
+    }
+  };
 
-      setPapers(fetchedPapers);
-      
-      addLog(`Successfully retrieved ${fetchedPapers.length} papers.`, "completed");
-      
-      // Start simulated pipeline
-      await runPipeline(fetchedPapers);
-      
+  const handleDeleteCollection = async (collectionId: string) => {
+    try {
+      await deleteCollection(collectionId);
     } catch (error) {
-      console.error(error);
-      addLog("Failed to fetch papers.", "pending");
-      setTimeout(() => setMode(AppMode.INGEST), 2000);
+      // The list still matches storage, so it is left as it is
+      console.error("Failed to delete collection", error);
+      return;
     }
+    const remaining = collections.filter(c => c.id !== collectionId);
+    setCollections(remaining);
+    if (remaining.length > 0) await openCollection(remaining[0].id).catch(error => console.error("Failed to open collection", error));
+  };
+
+  // --- LOGIC: Ingestion & Processing ---
+
+  // Background jobs (started from the dashboard) stay on the dashboard
+  const startJob = async (title: string, fetchStep: PipelineStep<IngestState>, background = false) => {
+    if (!activeCollectionId || jobStatus === 'running') return;
+    setDroppedItems([]);
+
+    const steps = createIngestSteps(fetchStep, {
+      collectionId: activeCollectionId,
+      summarizer: resolveTask(settings, 'summarize'),
+      embedder: embedderRef.current,
+      store: vectorStoreRef.current,
+      existing: papers,
+      onDropped: (items) => { if (items.length > 0) setDroppedItems(prev => [...prev, ...items]); },
+      onPapers: (merged) => setPapers(prev => [
+        ...prev.map(p => merged.find(m => m.id === p.id) ?? p),
+        ...merged.filter(m => !prev.some(p => p.id === m.id)),
+      ]),
+    });
+    const job = new PipelineJob(steps, createIngestState(), (entries, status) => {
+      setLogs(entries);
+      setJobStatus(status);
+    });
+    jobRef.current = { job, runId: crypto.randomUUID(), title, collectionId: activeCollectionId, startedAt: Date.now() };
+    setBackgroundJob(background ? title : null);
+    if (!background) setMode(AppMode.PROCESSING);
+    await runJob(() => job.run());
+  };
+
+  // Runs (or retries) the current job and records the outcome in the pipeline history
+  const runJob = async (start: () => Promise<JobStatus>) => {
+    const current = jobRef.current;
+    if (!current) return;
+    const status = await start();
+    if (status === 'running') return;
+
+    const run: PipelineRun = {
+      id: current.runId,
+      collectionId: current.collectionId,
+      title: current.title,
+      startedAt: current.startedAt,
+      finishedAt: Date.now(),
+      status,
+      logs: current.job.logs,
+    };
+    recordPipelineRun(run);
+  };
+
+  const recordPipelineRun = (run: PipelineRun) => {
+    setPipelineRuns(prev => [run, ...prev.filter(r => r.id !== run.id)]);
+    savePipelineRun(run).catch(error => console.error("Failed to save pipeline run", error));
+  };
+
+  const handleCancelJob = () => jobRef.current?.job.cancel();
+
+  const handleRetryJob = () => {
+    const job = jobRef.current?.job;
+    if (job) runJob(() => job.retry());
   };
 
+  // --- Fetch steps, one per source ---
+
+  const arxivSearchStep = (keywords: string): PipelineStep<IngestState> => {
+    const query = {
+      keywords,
+      categories: arxivCategories.split(',').map(c => c.trim()).filter(Boolean),
+      author: arxivAuthor,
+      dateFrom: arxivDateFrom || undefined,
+      dateTo: arxivDateTo || undefined,
+    };
+    return {
+      id: 'fetch',
+      label: 'Querying arXiv API',
+      run: async (state, ctx) => {
+        const { papers: found, totalResults } = await arxivClient.search(query, { maxResults: paperCount, signal: ctx.signal });
+        if (found.length === 0) throw new Error('No papers matched this query on arXiv.');
+        state.papers = found;
+        return `Retrieved ${found.length} of ${totalResults.toLocaleString()} matching papers`;
+      },
+    };
+  };
+
+  const urlStep = (source: UrlSource): PipelineStep<IngestState> => ({
+    id: 'fetch',
+    label: `Fetching ${describeUrlSource(source)}`,
+    run: async (state, ctx) => {
+      const paper = await urlIngestor.fetchPaper(source, { transcriber: resolveTask(settings, 'transcribe'), signal: ctx.signal });
+      state.papers = [paper];
+      return `Retrieved "${paper.title}"`;
+    },
+  });
+
+  const pdfUploadStep = (file: File): PipelineStep<IngestState> => ({
+    id: 'fetch',
+    label: `Parsing ${file.name}`,
+    run: async (state) => {
+      if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new PdfExtractionError(`"${file.name}" is not a PDF, a recording or a bibliography file.`, file.name);
+      }
+      const paper = await extractPdf(file);
+      state.papers = [paper];
+      return `Extracted ${paper.pages?.length ?? 0} pages from "${paper.title}"`;
+    },
+  });
+
+  const bibliographyStep = (file: File): PipelineStep<IngestState> => ({
+    id: 'fetch',
+    label: `Reading ${file.name}`,
+    run: async (state) => {
+      const { format, papers: entries, skipped } = parseBibliography(await file.text(), file.name);
+      if (skipped.length > 0) setDroppedItems(prev => [...prev, ...skipped]);
+      if (entries.length === 0) throw new BibliographyParseError(`No readable entries in "${file.name}".`, format);
+      state.papers = entries;
+      return `Read ${entries.length} ${BIBLIOGRAPHY_FORMATS[format].label} entries`;
+    },
+  });
+
+  const mediaStep = (file: File): PipelineStep<IngestState> => ({
+    id: 'fetch',
+    label: `Transcribing ${file.name}`,
+    run: async (state, ctx) => {
+      const paper = await transcribeMedia(file, resolveTask(settings, 'transcribe'), {
+        signal: ctx.signal,
+        onProgress: (done, total) => ctx.progress((done / total) * 100, `${done}/${total} segments transcribed`),
+      });
+      state.papers = [paper];
+      state.media = { [paper.id]: file };
+      return `Transcribed ${paper.transcript!.segments.length} passages from "${file.name}"`;
+    },
+  });
+
+  const fileStep = (file: File) =>
+    isBibliographyFile(file.name) ? bibliographyStep(file) : isMediaFile(file) ? mediaStep(file) : pdfUploadStep(file);
+
+  const handleArxivScrape = () => startJob(`arXiv: ${topic}`, arxivSearchStep(topic));
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setUploadedFile(file.name);
-      // For demo, we just simulate this triggering the pipeline with a "Generic Paper"
-      setMode(AppMode.PROCESSING);
-      const mockPaper: Paper = {
-        title: file.name,
-        authors: ["User Upload"],
-        year: new Date().getFullYear().toString(),
-        summary: "Content extracted from user uploaded file. The file contains detailed research on neural network architectures.",
-        highlights: ["User provided content", "Analysis extracted successfully", "Ready for query"],
-        link: "#"
-      };
-      setPapers([mockPaper]);
-      runPipeline([mockPaper]);
+    e.target.value = '';
+    if (!file) return;
+
+    setUploadedFile(file.name);
+    return startJob(`Upload: ${file.name}`, fileStep(file));
+  };
+
+  // --- Incremental changes from the dashboard ---
+
+  // Returns why the link cannot be ingested, or null once the job is started
+  const handleAddLink = (link: string, background = true): string | null => {
+    let source: UrlSource;
+    try {
+      source = classifyUrl(link);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    startJob(`${background ? 'Add' : 'Link'}: ${describeUrlSource(source)}`, urlStep(source), background);
+    return null;
+  };
+
+  const submitIngestLink = () => {
+    if (!ingestLink.trim()) return;
+    const error = handleAddLink(ingestLink, false);
+    setIngestLinkError(error);
+    if (!error) setIngestLink('');
+  };
+
+  // Keeps the paper id so chunks, citations and the card are replaced in place
+  const handleReprocessPaper = (paper: Paper) => startJob(`Re-process: ${paper.title.slice(0, 60)}`, {
+    id: 'fetch',
+    label: `Loading "${paper.title.slice(0, 60)}"`,
+    run: async (state) => {
+      // arXiv papers get a fresh digest; uploads keep what was extracted from the PDF
+      state.papers = [paper.arxivId ? { ...paper, highlights: [] } : paper];
+    },
+  }, true);
+
+  const handleDeletePaper = async (paper: Paper) => {
+    if (!activeCollectionId || !window.confirm(`Remove "${paper.title}" and its embeddings from this collection?`)) return;
+    try {
+      await deletePaper(activeCollectionId, paper.id);
+    } catch (error) {
+      // Nothing has been removed from the UI yet, so it still matches storage
+      console.error("Failed to remove paper", error);
+      return;
+    }
+    vectorStoreRef.current.removePaper(paper.id);
+    setPapers(prev => prev.filter(p => p.id !== paper.id));
+    setDatasetExamples(prev => prev.filter(e => e.paperId !== paper.id));
+    setComparisonRows(prev => prev.filter(r => r.paperId !== paper.id));
+    setDetail(current => current?.paperId === paper.id ? null : current);
+    setChatScope(current => current === paper.id ? null : current);
+    setSelectedPaperIds(prev => {
+      const next = new Set(prev);
+      next.delete(paper.id);
+      return next;
+    });
+  };
+
+  const handleSetTags = (paper: Paper, tags: string[]) => {
+    if (!activeCollectionId) return;
+    const updated = { ...paper, tags };
+    setPapers(prev => prev.map(p => p.id === paper.id ? updated : p));
+    savePaper(activeCollectionId, updated).catch(error => console.error("Failed to save tags", error));
+  };
+
+  const togglePaperSelection = (paperId: string) => {
+    setSelectedPaperIds(prev => {
+      const next = new Set(prev);
+      if (next.has(paperId)) next.delete(paperId); else next.add(paperId);
+      return next;
+    });
+  };
+
+  // --- LOGIC: Training runs ---
+
+  const storeTrainingRun = (run: TrainingRun) => {
+    setTrainingRuns(prev => [run, ...prev.filter(r => r.id !== run.id)].sort((a, b) => b.importedAt - a.importedAt));
+    saveTrainingRun(run).catch(error => console.error("Failed to save training run", error));
+  };
+
+  const handleImportTrainingLog = async (file: File, adapter: string): Promise<string | null> => {
+    if (!activeCollectionId) return null;
+    try {
+      storeTrainingRun(createTrainingRun(activeCollectionId, file.name, parseTrainingLog(await file.text(), file.name), adapter));
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  };
+
+  // The run appears with the first readable metrics and is updated whenever the file changes
+  const handleWatchTrainingLog = async (adapter: string): Promise<string | null> => {
+    if (!activeCollectionId) return null;
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await pickLogFile();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null; // picker dismissed
+      return error instanceof Error ? error.message : String(error);
     }
+
+    const collectionId = activeCollectionId;
+    const id = crypto.randomUUID();
+    let run: TrainingRun | null = null;
+    const stop = watchLogFile(handle, (parsed) => {
+      run = run
+        ? { ...run, source: parsed.source, metrics: parsed.metrics, updatedAt: Date.now() }
+        : { ...createTrainingRun(collectionId, handle.name, parsed, adapter), id };
+      storeTrainingRun(run);
+    }, (error) => {
+      console.error(`Failed to watch ${handle.name}`, error);
+      handleStopWatching(id);
+    });
+    logWatchersRef.current.set(id, stop);
+    setWatchedRunIds(prev => [...prev, id]);
+    return null;
+  };
+
+  const handleStopWatching = (runId: string) => {
+    logWatchersRef.current.get(runId)?.();
+    logWatchersRef.current.delete(runId);
+    setWatchedRunIds(prev => prev.filter(id => id !== runId));
   };
 
-  const addLog = (step: string, status: 'active' | 'completed' | 'pending') => {
-    setLogs(prev => [...prev, { step, status }]);
+  const stopWatchingAll = () => {
+    logWatchersRef.current.forEach(stop => stop());
+    logWatchersRef.current.clear();
+    setWatchedRunIds([]);
+  };
+
+  const handleDeleteTrainingRun = async (runId: string) => {
+    const run = trainingRuns.find(r => r.id === runId);
+    handleStopWatching(runId);
+    setTrainingRuns(prev => prev.filter(r => r.id !== runId));
+    try {
+      await deleteTrainingRun(runId);
+    } catch (error) {
+      // Put the run back so the list keeps matching what is stored
+      console.error("Failed to delete training run", error);
+      if (run) setTrainingRuns(prev => [run, ...prev].sort((a, b) => b.importedAt - a.importedAt));
+    }
   };
 
-  const runPipeline = async (currentPapers: Paper[]) => {
-    // 1. PDF Parsing / Extraction
-    await wait(1500);
-    addLog("Converting PDF/Audio to Text...", "completed");
+  // --- LOGIC: Fine-tuning dataset ---
 
-    // 2. RAG Pipeline
-    await wait(1000);
-    addLog("Chunking text and generating embeddings...", "active");
-    await wait(2000);
-    addLog("Indexing vectors into vector database...", "completed");
+  const handleDatasetChange = (changed: DatasetExample[]) => {
+    setDatasetExamples(prev => [
+      ...prev.map(e => changed.find(c => c.id === e.id) ?? e),
+      ...changed.filter(c => !prev.some(e => e.id === c.id)),
+    ]);
+    saveDatasetExamples(changed).catch(error => console.error("Failed to save dataset examples", error));
+  };
 
-    // 3. LoRA Training Simulation
-    addLog("Initializing LoRA/SFT Model Training...", "active");
-    
-    // Animate chart
-    for (let i = 0; i < 10; i++) {
-      await wait(500);
-      setTrainingData(generateTrainingData(i + 1));
+  const handleDeleteExamples = async (ids: string[]) => {
+    const removed = datasetExamples.filter(e => ids.includes(e.id));
+    setDatasetExamples(prev => prev.filter(e => !ids.includes(e.id)));
+    try {
+      await deleteDatasetExamples(ids);
+    } catch (error) {
+      console.error("Failed to delete dataset examples", error);
+      setDatasetExamples(prev => [...prev, ...removed.filter(r => !prev.some(e => e.id === r.id))]);
     }
-    
-    addLog("Fine-tuning completed. Loss: 0.14", "completed");
-    addLog("System ready for query.", "completed");
-    
-    await wait(1000);
-    setMode(AppMode.DASHBOARD);
   };
 
-  const wait = (ms: number) => new Promise(res => setTimeout(res, ms));
+  const handleOpenExampleSource = (example: DatasetExample) => {
+    setIsDatasetOpen(false);
+    showSource(example.paperId, example.time);
+  };
+
+  // --- LOGIC: Comparison ---
+
+  const handleOpenComparisonSource = (citation: Citation) => {
+    setIsComparisonOpen(false);
+    handleCitationClick(citation);
+  };
+
+  // --- LOGIC: Citation graph ---
+
+  const handleOpenGraphPaper = (paperId: string) => {
+    setIsGraphOpen(false);
+    setDetail({ paperId, focus: null });
+  };
 
   // --- LOGIC: Chat ---
 
-  const handleSendMessage = async () => {
-    if (!chatInput.trim()) return;
-    
-    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: chatInput };
-    setChatHistory(prev => [...prev, userMsg]);
-    setChatInput('');
+  // Streaming updates stay in memory; the thread is written to storage once a reply is finished
+  const putThread = (thread: ChatThread, persist = true) => {
+    setThreads(prev => prev.some(t => t.id === thread.id) ? prev.map(t => t.id === thread.id ? thread : t) : [thread, ...prev]);
+    if (persist && thread.messages.length > 0) {
+      saveThread(thread).catch(error => console.error("Failed to save chat", error));
+    }
+  };
+
+  const generateReply = async (base: ChatThread, question: ChatMessage) => {
+    const reply: ChatMessage = { id: crypto.randomUUID(), role: 'model', text: '', parentId: question.id, createdAt: Date.now(), isThinking: true };
+    let thread = appendMessage(base, reply);
+    const update = (patch: Partial<ChatMessage>) => {
+      thread = updateMessage(thread, reply.id, patch);
+      putThread(thread, false);
+    };
+    putThread(thread, false);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
     setIsChatLoading(true);
 
     try {
-      // Construct context from papers
-      const context = papers.map(p => 
-        `Title: ${p.title}\nSummary: ${p.summary}\nHighlights: ${p.highlights.join('; ')}`
-      ).join('\n\n');
-
-      // Prepare history for API
-      const apiHistory = chatHistory.map(msg => ({
-        role: msg.role,
-        parts: [{ text: msg.text }]
-      }));
-
-      const streamResult = await chatWithKnowledgeBase(apiHistory, userMsg.text, context);
-      
-      let fullResponse = "";
-      const botMsgId = (Date.now() + 1).toString();
-      
-      // Optimistic update for streaming
-      setChatHistory(prev => [...prev, { id: botMsgId, role: 'model', text: '', isThinking: true }]);
+      const target = resolveTask(settings, 'chat');
+      const profile = getModelProfile(target);
+      const budget = getContextBudget(profile);
+
+      // Construct context from the chunks most similar to the question, as many as the budget allows
+      const scope = question.scope;
+      const retrieved = fitRetrieved(
+        await retrieve(question.text, vectorStoreRef.current, embedderRef.current, DEFAULT_RAG_CONFIG.topK, scope ? chunk => chunk.paperId === scope : undefined),
+        papers, budget.context, profile
+      );
+      const context = formatContext(retrieved, papers);
 
+      // Only the branch leading to this question is sent; turns that no longer fit are folded into a running summary
+      const plan = planHistory(getBranch(thread, question.parentId), thread.summaries ?? {}, budget.history, profile);
+      let summary = plan.summary;
+      if (plan.pending) {
+        try {
+          summary = await summarizeConversation(plan.pending.previous, plan.pending.messages, resolveTask(settings, 'summarize'), controller.signal);
+          thread = { ...thread, summaries: { ...thread.summaries, [plan.pending.coversId]: summary } };
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+          // The older turns are dropped for this request and summarised again on the next one
+          console.warn("Failed to summarise earlier turns", error);
+        }
+      }
+
+      const streamResult = chatWithKnowledgeBase(toChatTurns(plan.turns), question.text, context, target, { signal: controller.signal, summary });
+
+      let fullResponse = "";
+      const webSources: WebSource[] = [];
       for await (const chunk of streamResult) {
-        const content = (chunk as GenerateContentResponse).text || "";
-        fullResponse += content;
-        
-        setChatHistory(prev => prev.map(msg => 
-            msg.id === botMsgId 
-            ? { ...msg, text: fullResponse, isThinking: false } 
-            : msg
-        ));
+        if (controller.signal.aborted) break;
+        fullResponse += chunk.text;
+        webSources.push(...(chunk.webSources || []));
+        update({ text: fullResponse, isThinking: false });
       }
 
+      update({
+        isThinking: false,
+        ...(controller.signal.aborted ? { stopped: true } : {}),
+        citations: buildCitations(fullResponse, retrieved, papers, webSources),
+      });
     } catch (error) {
-      console.error("Chat Error", error);
-      setChatHistory(prev => [...prev, { id: Date.now().toString(), role: 'model', text: "Sorry, I encountered an error." }]);
+      if (controller.signal.aborted) {
+        update({ isThinking: false, stopped: true });
+      } else {
+        console.error("Chat Error", error);
+        update({ isThinking: false, error: true, text: "Sorry, I encountered an error." });
+      }
     } finally {
+      chatAbortRef.current = null;
       setIsChatLoading(false);
+      putThread(thread);
+    }
+  };
+
+  const handleSendMessage = async () => {
+    if (!chatInput.trim() || !activeThread) return;
+
+    const question: ChatMessage = {
+      id: crypto.randomUUID(), role: 'user', text: chatInput.trim(), parentId: activeThread.activeLeafId, createdAt: Date.now(),
+      ...(chatScope ? { scope: chatScope } : {}),
+    };
+    setChatInput('');
+    setChatScope(null);
+    await generateReply(appendMessage(activeThread, question), question);
+  };
+
+  const handleStopGeneration = () => chatAbortRef.current?.abort();
+
+  // Each finished voice exchange continues the active branch of the open thread
+  const handleVoiceTurn = ({ question, answer, interrupted }: VoiceTurn) => {
+    if (!activeThread) return;
+    const now = Date.now();
+    let thread = activeThread;
+    if (question) {
+      thread = appendMessage(thread, { id: crypto.randomUUID(), role: 'user', text: question, parentId: thread.activeLeafId, createdAt: now, via: 'voice' });
     }
+    if (answer) {
+      thread = appendMessage(thread, {
+        id: crypto.randomUUID(), role: 'model', text: answer, parentId: thread.activeLeafId, createdAt: now, via: 'voice',
+        ...(interrupted ? { stopped: true } : {}),
+      });
+    }
+    putThread(thread);
+  };
+
+  // An edited question becomes a sibling of the original, so the old branch is kept
+  const handleEditSubmit = async (original: ChatMessage) => {
+    const text = editDraft.trim();
+    setEditingMessageId(null);
+    if (!text || !activeThread || text === original.text) return;
+
+    // An edit asks about the same paper as the original
+    const question: ChatMessage = {
+      id: crypto.randomUUID(), role: 'user', text, parentId: original.parentId, createdAt: Date.now(),
+      ...(original.scope ? { scope: original.scope } : {}),
+    };
+    await generateReply(appendMessage(activeThread, question), question);
+  };
+
+  const handleRegenerate = async (reply: ChatMessage) => {
+    const question = activeThread?.messages.find(m => m.id === reply.parentId);
+    if (activeThread && question) await generateReply(activeThread, question);
+  };
+
+  const handleSwitchBranch = (messageId: string) => {
+    if (activeThread) putThread(selectBranch(activeThread, messageId));
+  };
+
+  const handleNewThread = () => {
+    if (!activeCollectionId) return;
+    // Reuse an untouched thread instead of piling up empty ones
+    const empty = threads.find(t => t.messages.length === 0);
+    const thread = empty ?? createThread(activeCollectionId);
+    if (!empty) putThread(thread, false);
+    setActiveThreadId(thread.id);
+  };
+
+  const handleRenameThread = (threadId: string, title: string) => {
+    const thread = threads.find(t => t.id === threadId);
+    if (thread) putThread({ ...thread, title, updatedAt: Date.now() });
+  };
+
+  const handleDeleteThread = async (threadId: string) => {
+    try {
+      await deleteThread(threadId);
+    } catch (error) {
+      console.error("Failed to delete chat", error);
+      return;
+    }
+    const remaining = threads.filter(t => t.id !== threadId);
+    if (remaining.length === 0 && activeCollectionId) remaining.push(createThread(activeCollectionId));
+    setThreads(remaining);
+    if (threadId === activeThreadId) setActiveThreadId(remaining[0].id);
+  };
+
+  // Plays recordings from the given moment; papers are scrolled to and highlighted in the sidebar
+  const showSource = (paperId: string, time?: number) => {
+    if (time !== undefined) {
+      setPlayback({ paperId, time });
+      return;
+    }
+    // A card hidden by the sidebar search is brought back before scrolling to it
+    const hidden = !visiblePapers.some(p => p.id === paperId);
+    if (hidden) {
+      setPaperQuery('');
+      setFacetSelection(EMPTY_FACETS);
+    }
+    setTimeout(() => paperCardRefs.current.get(paperId)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), hidden ? 50 : 0);
+    setHighlightedPaperId(paperId);
+    setTimeout(() => setHighlightedPaperId(current => current === paperId ? null : current), 2500);
+  };
+
+  // Recordings play from the cited moment; papers open in the reader at the cited passage
+  const handleCitationClick = (citation: Citation) => {
+    const paper = papers.find(p => p.id === citation.paperId);
+    if (!paper) return;
+    if (citation.time !== undefined) return showSource(paper.id, citation.time);
+    const chunk = citation.chunkId ? vectorStoreRef.current.get(citation.chunkId) : undefined;
+    setDetail({ paperId: paper.id, focus: locateCitation(paper, citation, chunk) });
+  };
+
+  const handleAskAboutPaper = (paper: Paper) => {
+    setChatScope(paper.id);
+    setDetail(null);
+    chatInputRef.current?.focus();
   };
 
   // --- RENDER HELPERS ---
 
   const renderIngest = () => (
     <div className="max-w-4xl mx-auto pt-12 px-4">
+      <div className="flex items-center justify-end gap-3 mb-8">
+        <span className="text-xs text-zinc-500 uppercase tracking-wider font-mono">Collection</span>
+        <div className="w-80">
+          <CollectionSwitcher
+            collections={collections}
+            activeId={activeCollectionId}
+            onSelect={(id) => openCollection(id).catch(error => console.error("Failed to open collection", error))}
+            onCreate={handleCreateCollection}
+            onDelete={handleDeleteCollection}
+          />
+        </div>
+        <Button variant="secondary" className="!px-3" onClick={() => setIsSettingsOpen(true)} title="Model providers">
+          <Settings size={18} />
+        </Button>
+      </div>
       <div className="text-center mb-16">
         <h1 className="text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 to-purple-400 mb-6">
           NeurPaper AI
@@ -198,17 +832,23 @@ const App: React.FC = () => {
             <h2 className="text-xl font-semibold text-white">Direct Upload</h2>
           </div>
           <div className="flex-1 border-2 border-dashed border-zinc-800 rounded-xl bg-zinc-950/30 flex flex-col items-center justify-center p-8 group hover:border-indigo-500/50 transition-all cursor-pointer relative">
-            <input type="file" className="absolute inset-0 opacity-0 cursor-pointer" onChange={handleFileUpload} accept=".pdf,.mp4,.mp3" />
+            <input type="file" className="absolute inset-0 opacity-0 cursor-pointer" onChange={handleFileUpload} accept={`.pdf,${MEDIA_ACCEPT},.bib,.bibtex,.ris,.json`} />
             <div className="w-16 h-16 bg-zinc-900 rounded-full flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
               <FileText className="text-zinc-500 group-hover:text-indigo-400" />
             </div>
-            <p className="text-zinc-400 font-medium">Drop PDF or MP4 here</p>
+            <p className="text-zinc-400 font-medium">Drop a PDF, a recording (MP3, MP4, WAV, ...) or a .bib / .ris / CSL-JSON library here</p>
             <p className="text-zinc-600 text-sm mt-2">or click to browse</p>
           </div>
           <div className="flex gap-2">
-            <Input placeholder="Paste YouTube URL..." />
-            <Button variant="secondary"><LinkIcon size={18} /></Button>
+            <Input
+              value={ingestLink}
+              onChange={(e) => { setIngestLink(e.target.value); setIngestLinkError(null); }}
+              onKeyDown={(e) => e.key === 'Enter' && submitIngestLink()}
+              placeholder="Paste an arXiv, DOI, PDF or YouTube link..."
+            />
+            <Button variant="secondary" onClick={submitIngestLink} title="Ingest link"><LinkIcon size={18} /></Button>
           </div>
+          {ingestLinkError && <p className="text-xs text-red-400 -mt-4">{ingestLinkError}</p>}
         </Card>
 
         {/* Right: Scraper */}
@@ -244,9 +884,33 @@ const App: React.FC = () => {
                 ))}
               </div>
             </div>
+            <button
+              onClick={() => setShowArxivFilters(!showArxivFilters)}
+              className="text-xs text-zinc-500 hover:text-purple-300 transition-colors"
+            >
+              {showArxivFilters ? 'Hide filters' : 'Categories, author & date filters'}
+            </button>
+            {showArxivFilters && (
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  value={arxivCategories}
+                  onChange={(e) => setArxivCategories(e.target.value)}
+                  placeholder="Categories, e.g. cs.CL, cs.LG"
+                  className="col-span-2"
+                />
+                <Input
+                  value={arxivAuthor}
+                  onChange={(e) => setArxivAuthor(e.target.value)}
+                  placeholder="Author, e.g. Hinton"
+                  className="col-span-2"
+                />
+                <Input type="date" value={arxivDateFrom} onChange={(e) => setArxivDateFrom(e.target.value)} title="Submitted from" />
+                <Input type="date" value={arxivDateTo} onChange={(e) => setArxivDateTo(e.target.value)} title="Submitted until" />
+              </div>
+            )}
           </div>
           <Button onClick={handleArxivScrape} className="w-full py-4 text-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 border-0">
-             Start Ingestion & Training
+             Start Ingestion
              <ArrowRight size={20} />
           </Button>
         </Card>
@@ -259,45 +923,52 @@ const App: React.FC = () => {
       <Card>
         <div className="flex items-center justify-between mb-8 border-b border-white/5 pb-6">
           <h2 className="text-2xl font-bold flex items-center gap-3">
-            <Cpu className="text-indigo-400 animate-pulse" />
+            <Cpu className={`text-indigo-400 ${jobStatus === 'running' ? 'animate-pulse' : ''}`} />
             System Pipeline
           </h2>
-          <Badge color="bg-indigo-500/20 text-indigo-400">Running</Badge>
+          {jobStatus && <Badge color={JOB_BADGES[jobStatus].color}>{JOB_BADGES[jobStatus].label}</Badge>}
         </div>
 
-        <div className="space-y-6 mb-8">
-          {logs.map((log, i) => (
-            <div key={i} className="flex items-center gap-4 animate-in fade-in slide-in-from-left-2 duration-500">
-              {log.status === 'completed' ? (
-                <CheckCircle2 className="text-green-400 w-5 h-5 shrink-0" />
-              ) : log.status === 'pending' ? (
-                <div className="w-5 h-5 rounded-full border-2 border-red-500 flex items-center justify-center text-[10px] text-red-500 font-bold">!</div>
-              ) : (
-                <Loader2 className="text-indigo-400 w-5 h-5 shrink-0 animate-spin" />
+        <div className="mb-8">
+          <PipelineLog logs={logs} />
+        </div>
+
+        <div className="flex justify-end gap-3 mb-8">
+          {jobStatus === 'running' ? (
+            <Button variant="danger" onClick={handleCancelJob}>
+              <XCircle size={18} /> Cancel
+            </Button>
+          ) : (
+            <>
+              <Button variant="secondary" onClick={() => setMode(AppMode.INGEST)}>Back to ingest</Button>
+              {jobStatus !== 'completed' && (
+                <Button variant="secondary" onClick={handleRetryJob}>
+                  <RotateCcw size={18} /> Retry failed steps
+                </Button>
               )}
-              <span className={`${log.status === 'completed' ? 'text-zinc-300' : 'text-indigo-200'} font-mono text-sm`}>
-                {log.step}
-              </span>
-            </div>
-          ))}
+              {papers.length > 0 && (
+                <Button onClick={() => setMode(AppMode.DASHBOARD)}>
+                  Open dashboard <ArrowRight size={18} />
+                </Button>
+              )}
+            </>
+          )}
         </div>
 
-        {trainingData.length > 0 && (
-          <div className="h-64 w-full mt-8 bg-zinc-900/30 rounded-xl border border-zinc-800 p-4">
-             <p className="text-xs text-zinc-500 mb-4 font-mono uppercase">Training Loss (LoRA Adapter)</p>
-             <ResponsiveContainer width="100%" height="100%">
-               <LineChart data={trainingData}>
-                 <Line type="monotone" dataKey="loss" stroke="#818cf8" strokeWidth={2} dot={false} />
-                 <XAxis hide />
-                 <YAxis hide domain={['auto', 'auto']} />
-                 <Tooltip 
-                   contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a' }}
-                   itemStyle={{ color: '#818cf8' }}
-                 />
-               </LineChart>
-             </ResponsiveContainer>
+        {droppedItems.length > 0 && (
+          <div className="mb-8 bg-amber-500/5 border border-amber-500/20 rounded-xl p-4">
+            <p className="text-xs text-amber-400 mb-3 font-mono uppercase">Dropped during validation</p>
+            <ul className="space-y-2">
+              {droppedItems.map((item, i) => (
+                <li key={i} className="text-sm">
+                  <span className="text-zinc-300">{item.label}</span>
+                  <span className="text-zinc-500"> — {item.reasons.join('; ')}</span>
+                </li>
+              ))}
+            </ul>
           </div>
         )}
+
       </Card>
     </div>
   );
@@ -312,21 +983,178 @@ const App: React.FC = () => {
             Knowledge Base
           </h2>
           <p className="text-xs text-zinc-500 mt-1">{papers.length} papers indexed</p>
+          <div className="mt-4">
+            <CollectionSwitcher
+              collections={collections}
+              activeId={activeCollectionId}
+              onSelect={(id) => openCollection(id).catch(error => console.error("Failed to open collection", error))}
+              onCreate={handleCreateCollection}
+              onDelete={handleDeleteCollection}
+            />
+          </div>
+          {papers.length > 0 && (
+            <div className="mt-4">
+              <PaperSearch
+                papers={papers}
+                query={paperQuery}
+                onQueryChange={setPaperQuery}
+                isSearching={isSearchingPapers}
+                shown={visiblePapers.length}
+                sort={paperSort}
+                onSortChange={setPaperSort}
+                facets={facetSelection}
+                onFacetsChange={setFacetSelection}
+              />
+            </div>
+          )}
+          <div className="mt-4 flex items-center justify-between gap-2">
+            <button
+              onClick={() => setIsAddOpen(!isAddOpen)}
+              className="text-xs text-zinc-500 hover:text-indigo-300 transition-colors flex items-center gap-1"
+            >
+              <Plus size={14} /> {isAddOpen ? 'Hide' : 'Add papers'}
+            </button>
+            <BibliographyExport
+              papers={papers}
+              selectedIds={selectedPaperIds}
+              filename={collections.find(c => c.id === activeCollectionId)?.name ?? 'bibliography'}
+              onClearSelection={() => setSelectedPaperIds(new Set())}
+            />
+          </div>
+          {isAddOpen && (
+            <div className="mt-3">
+              <AddPapersPanel
+                disabled={jobStatus === 'running'}
+                onSearch={(query) => startJob(`Add: ${query}`, arxivSearchStep(query), true)}
+                onUpload={(file) => startJob(`Add: ${file.name}`, fileStep(file), true)}
+                onAddLink={handleAddLink}
+              />
+            </div>
+          )}
+          {backgroundJob && jobStatus && (
+            <div className="mt-4 bg-zinc-950/50 border border-zinc-800 rounded-lg p-3">
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <span className="text-xs text-zinc-300 truncate">{backgroundJob}</span>
+                <Badge color={JOB_BADGES[jobStatus].color}>{JOB_BADGES[jobStatus].label}</Badge>
+              </div>
+              <PipelineLog logs={logs} />
+              {droppedItems.length > 0 && (
+                <p className="text-xs text-amber-400 mt-3" title={droppedItems.map(d => `${d.label}: ${d.reasons.join('; ')}`).join('\n')}>
+                  {droppedItems.length} item(s) dropped: {droppedItems.map(d => d.reasons[0]).join('; ')}
+                </p>
+              )}
+              <div className="flex justify-end gap-2 mt-3">
+                {jobStatus === 'running' ? (
+                  <Button variant="danger" className="!py-1 text-xs" onClick={handleCancelJob}>Cancel</Button>
+                ) : (
+                  <>
+                    {jobStatus !== 'completed' && (
+                      <Button variant="secondary" className="!py-1 text-xs" onClick={handleRetryJob}>Retry</Button>
+                    )}
+                    <Button variant="secondary" className="!py-1 text-xs" onClick={() => setBackgroundJob(null)}>Dismiss</Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
         </div>
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {papers.map((paper, idx) => (
-            <div key={idx} className="bg-zinc-950/50 border border-zinc-800 rounded-lg p-4 hover:border-indigo-500/30 transition-all group">
-              <h3 className="font-medium text-zinc-200 leading-tight mb-2 group-hover:text-indigo-300 transition-colors">
-                {paper.title}
-              </h3>
+          {papers.length > 0 && visiblePapers.length === 0 && !isSearchingPapers && (
+            <p className="text-sm text-zinc-500 text-center py-8">No papers match the search and filters.</p>
+          )}
+          {visiblePapers.map((paper) => (
+            <div
+              key={paper.id}
+              ref={el => { if (el) paperCardRefs.current.set(paper.id, el); else paperCardRefs.current.delete(paper.id); }}
+              className={`bg-zinc-950/50 border rounded-lg p-4 hover:border-indigo-500/30 transition-all group ${
+                highlightedPaperId === paper.id ? 'border-indigo-500 ring-2 ring-indigo-500/40' : 'border-zinc-800'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <input
+                  type="checkbox"
+                  checked={selectedPaperIds.has(paper.id)}
+                  onChange={() => togglePaperSelection(paper.id)}
+                  className="mt-1 accent-indigo-500 shrink-0"
+                  title="Select for export and comparison"
+                />
+                <h3 className="flex-1 font-medium text-zinc-200 leading-tight group-hover:text-indigo-300 transition-colors">
+                  <button onClick={() => setDetail({ paperId: paper.id, focus: null })} className="text-left" title="Open paper">
+                    <Highlighted text={paper.title} terms={queryTerms} />
+                  </button>
+                </h3>
+                <div className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleAskAboutPaper(paper)}
+                    className="p-1 text-zinc-500 hover:text-indigo-300"
+                    title="Ask about this paper"
+                  >
+                    <MessageSquare size={14} />
+                  </button>
+                  {paper.transcript && (
+                    <button
+                      onClick={() => setPlayback({ paperId: paper.id, time: 0 })}
+                      className="p-1 text-zinc-500 hover:text-indigo-300"
+                      title="Play recording"
+                    >
+                      <PlayCircle size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleReprocessPaper(paper)}
+                    disabled={jobStatus === 'running'}
+                    className="p-1 text-zinc-500 hover:text-indigo-300 disabled:opacity-40"
+                    title="Re-process"
+                  >
+                    <RotateCcw size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleDeletePaper(paper)}
+                    disabled={jobStatus === 'running'}
+                    className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-40"
+                    title="Remove from collection"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
               <div className="flex gap-2 text-xs text-zinc-500 mb-3">
                 <span>{paper.year}</span>
                 <span>•</span>
                 <span>{paper.authors[0]} et al.</span>
               </div>
               <p className="text-sm text-zinc-400 line-clamp-3 mb-3 leading-relaxed">
-                {paper.summary}
+                <Highlighted text={paper.summary} terms={queryTerms} />
               </p>
+              {paperHits?.find(h => h.paperId === paper.id)?.snippet && (
+                <p className="text-xs text-zinc-500 italic border-l-2 border-indigo-500/40 pl-2 mb-3 leading-relaxed">
+                  <Highlighted text={paperHits.find(h => h.paperId === paper.id)!.snippet!} terms={queryTerms} />
+                </p>
+              )}
+              {(citationGraph.cites.has(paper.id) || citationGraph.citedBy.has(paper.id)) && (
+                <details className="text-xs text-zinc-500 mb-3">
+                  <summary className="cursor-pointer hover:text-zinc-300">
+                    Cites {citationGraph.cites.get(paper.id)?.length ?? 0} · Cited by {citationGraph.citedBy.get(paper.id)?.length ?? 0} in this collection
+                  </summary>
+                  {([['Cites', citationGraph.cites.get(paper.id)], ['Cited by', citationGraph.citedBy.get(paper.id)]] as const).map(([label, ids]) => ids && (
+                    <div key={label} className="mt-2">
+                      <span className="text-zinc-600">{label}</span>
+                      <ul className="mt-1 space-y-1">
+                        {ids.map(id => (
+                          <li key={id}>
+                            <button onClick={() => showSource(id)} className="text-left text-indigo-300 hover:text-indigo-200">
+                              {papers.find(p => p.id === id)?.title}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </details>
+              )}
+              <div className="mb-3">
+                <PaperTags tags={paper.tags ?? []} onChange={(tags) => handleSetTags(paper, tags)} />
+              </div>
               <div className="flex flex-wrap gap-2">
                  {paper.highlights.slice(0,2).map((h, i) => (
                    <span key={i} className="text-[10px] bg-zinc-900 text-zinc-500 px-2 py-1 rounded border border-zinc-800">
@@ -337,24 +1165,78 @@ const App: React.FC = () => {
             </div>
           ))}
         </div>
+        {pipelineRuns.length > 0 && (
+          <div className="border-t border-zinc-800 p-4 max-h-48 overflow-y-auto">
+            <p className="text-xs text-zinc-500 mb-2 font-mono uppercase flex items-center gap-2">
+              <History size={12} /> Pipeline history
+            </p>
+            <ul className="space-y-1">
+              {pipelineRuns.map(run => (
+                <li key={run.id}>
+                  <button
+                    onClick={() => setViewedRun(run)}
+                    className="w-full flex items-center justify-between gap-2 text-left text-xs px-2 py-1.5 rounded hover:bg-zinc-800 transition-colors"
+                  >
+                    <span className="text-zinc-300 truncate">{run.title}</span>
+                    <span className={`shrink-0 ${run.status === 'completed' ? 'text-green-500' : run.status === 'failed' ? 'text-red-400' : 'text-zinc-500'}`}>
+                      {new Date(run.startedAt).toLocaleDateString()} · {run.status}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
+      <ThreadList
+        threads={threads}
+        activeId={activeThreadId}
+        disabled={isChatLoading}
+        onSelect={(id) => { setActiveThreadId(id); setEditingMessageId(null); }}
+        onCreate={handleNewThread}
+        onRename={handleRenameThread}
+        onDelete={handleDeleteThread}
+      />
+
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col bg-zinc-950 relative">
         {/* Header */}
         <div className="h-16 border-b border-zinc-800 flex items-center justify-between px-6 bg-zinc-900/50 backdrop-blur-sm">
+           <button
+              onClick={() => setIsTrainingOpen(true)}
+              className="flex items-center gap-3 text-sm font-mono text-zinc-400 hover:text-zinc-200 transition-colors"
+              title="Training runs"
+           >
+              <Activity className={`w-4 h-4 text-green-500 ${watchedRunIds.length > 0 ? 'animate-pulse' : ''}`} />
+              Model: {resolveTask(settings, 'chat').model}
+              {trainingRuns.length > 0 ? ` · adapter ${trainingRuns[0].adapter}` : ' · no adapter imported'}
+           </button>
            <div className="flex items-center gap-3">
-              <Activity className="text-green-500 w-4 h-4" />
-              <span className="text-sm font-mono text-zinc-400">Model: NeurPaper-LoRA-7B (Simulated)</span>
+             <Button variant="secondary" className="rounded-full !px-3" onClick={() => setIsGraphOpen(true)} title="Citation graph">
+               <Network size={18} />
+             </Button>
+             <Button variant="secondary" className="rounded-full !px-3" onClick={() => setIsSurveyOpen(true)} title="Write a survey">
+               <FileText size={18} />
+             </Button>
+             <Button variant="secondary" className="rounded-full !px-3" onClick={() => setIsComparisonOpen(true)} title="Compare papers">
+               <Table2 size={18} />
+             </Button>
+             <Button variant="secondary" className="rounded-full !px-3" onClick={() => setIsDatasetOpen(true)} title="Fine-tuning dataset">
+               <Database size={18} />
+             </Button>
+             <Button variant="secondary" className="rounded-full !px-3" onClick={() => setIsSettingsOpen(true)} title="Model providers">
+               <Settings size={18} />
+             </Button>
+             <Button 
+               variant="primary" 
+               className="rounded-full px-6 bg-gradient-to-r from-rose-500 to-orange-500 hover:from-rose-600 hover:to-orange-600 border-0"
+               onClick={() => setIsVoiceOpen(true)}
+             >
+               <Mic size={18} />
+               Start Voice Agent
+             </Button>
            </div>
-           <Button 
-             variant="primary" 
-             className="rounded-full px-6 bg-gradient-to-r from-rose-500 to-orange-500 hover:from-rose-600 hover:to-orange-600 border-0"
-             onClick={() => setIsVoiceOpen(true)}
-           >
-             <Mic size={18} />
-             Start Voice Agent
-           </Button>
         </div>
 
         {/* Messages */}
@@ -365,35 +1247,134 @@ const App: React.FC = () => {
               <p>Ask me anything about the ingested papers.</p>
             </div>
           )}
-          {chatHistory.map((msg) => (
-            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-              <div className={`max-w-[80%] rounded-2xl p-5 ${
-                msg.role === 'user' 
-                ? 'bg-indigo-600 text-white' 
-                : 'bg-zinc-900 border border-zinc-800 text-zinc-200'
-              }`}>
-                <div className="prose prose-invert prose-sm">
-                  {msg.isThinking ? (
-                    <span className="flex items-center gap-2 text-zinc-400">
-                      <Loader2 className="animate-spin w-4 h-4" /> Thinking...
+          {chatHistory.map((msg, position) => {
+            const siblings = getSiblings(activeThread!, msg);
+            const siblingIndex = siblings.findIndex(m => m.id === msg.id);
+            const isLast = position === chatHistory.length - 1;
+            return (
+              <div key={msg.id} className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                {editingMessageId === msg.id ? (
+                  <div className="w-[80%] bg-zinc-900 border border-indigo-500/50 rounded-2xl p-4">
+                    <textarea
+                      autoFocus
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleEditSubmit(msg); }
+                        if (e.key === 'Escape') setEditingMessageId(null);
+                      }}
+                      rows={3}
+                      className="w-full bg-transparent text-sm text-zinc-200 resize-none focus:outline-none"
+                    />
+                    <div className="flex justify-end gap-2 mt-2">
+                      <Button variant="secondary" className="!py-1 text-xs" onClick={() => setEditingMessageId(null)}>Cancel</Button>
+                      <Button className="!py-1 text-xs" onClick={() => handleEditSubmit(msg)}>Send as new branch</Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className={`max-w-[80%] rounded-2xl p-5 ${
+                    msg.role === 'user'
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-zinc-900 border border-zinc-800 text-zinc-200'
+                  }`}>
+                    {msg.isThinking ? (
+                      <span className="flex items-center gap-2 text-sm text-zinc-400">
+                        <Loader2 className="animate-spin w-4 h-4" /> Thinking...
+                      </span>
+                    ) : msg.role === 'user' ? (
+                      <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+                    ) : (
+                      <Markdown
+                        text={msg.text}
+                        streaming={isChatLoading && isLast}
+                        maxCitation={Math.max(0, ...(msg.citations ?? []).map(c => c.index))}
+                        onCitation={(index) => {
+                          const citation = msg.citations?.find(c => c.index === index);
+                          if (citation?.url) window.open(citation.url, '_blank', 'noopener');
+                          else if (citation) handleCitationClick(citation);
+                        }}
+                      />
+                    )}
+                    {msg.stopped && <p className="text-xs text-zinc-500 italic mt-2">Stopped</p>}
+                    {msg.citations && <Citations citations={msg.citations} onSelectPaper={handleCitationClick} />}
+                  </div>
+                )}
+                <div className="flex items-center gap-1 mt-1 px-2 text-xs text-zinc-500 min-h-[20px]">
+                  {msg.via === 'voice' && (
+                    <span className="flex items-center gap-1 mr-1" title="Transcribed from a voice session">
+                      <Mic size={12} /> Voice
+                    </span>
+                  )}
+                  {msg.scope && (
+                    <button
+                      onClick={() => setDetail({ paperId: msg.scope!, focus: null })}
+                      className="flex items-center gap-1 mr-1 max-w-[240px] hover:text-zinc-300"
+                      title="Answered from this paper only"
+                    >
+                      <BookOpen size={12} className="shrink-0" />
+                      <span className="truncate">{papers.find(p => p.id === msg.scope)?.title ?? 'Removed paper'}</span>
+                    </button>
+                  )}
+                  {siblings.length > 1 && (
+                    <span className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleSwitchBranch(siblings[siblingIndex - 1].id)}
+                        disabled={isChatLoading || siblingIndex === 0}
+                        className="hover:text-zinc-300 disabled:opacity-30"
+                        title="Previous branch"
+                      >
+                        <ChevronLeft size={14} />
+                      </button>
+                      <span className="font-mono">{siblingIndex + 1}/{siblings.length}</span>
+                      <button
+                        onClick={() => handleSwitchBranch(siblings[siblingIndex + 1].id)}
+                        disabled={isChatLoading || siblingIndex === siblings.length - 1}
+                        className="hover:text-zinc-300 disabled:opacity-30"
+                        title="Next branch"
+                      >
+                        <ChevronRight size={14} />
+                      </button>
+                    </span>
+                  )}
+                  {!isChatLoading && editingMessageId !== msg.id && (
+                    <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {msg.role === 'user' ? (
+                        <button
+                          onClick={() => { setEditDraft(msg.text); setEditingMessageId(msg.id); }}
+                          className="p-1 hover:text-indigo-300"
+                          title="Edit and re-run from here"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                      ) : isLast && (
+                        <button onClick={() => handleRegenerate(msg)} className="p-1 hover:text-indigo-300" title="Regenerate answer">
+                          <RefreshCw size={14} />
+                        </button>
+                      )}
                     </span>
-                  ) : (
-                    msg.text.split('\n').map((line, i) => (
-                      <p key={i} className="mb-2 last:mb-0">{line}</p>
-                    ))
                   )}
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
           <div ref={chatEndRef} />
         </div>
 
         {/* Input */}
         <div className="p-6 bg-zinc-900 border-t border-zinc-800">
+          {chatScope && (
+            <div className="max-w-4xl mx-auto mb-2 flex items-center gap-2 text-xs text-indigo-300">
+              <BookOpen size={14} className="shrink-0" />
+              <span className="truncate">Asking about "{papers.find(p => p.id === chatScope)?.title}"</span>
+              <button onClick={() => setChatScope(null)} className="text-zinc-500 hover:text-zinc-300" title="Ask the whole collection">
+                <X size={14} />
+              </button>
+            </div>
+          )}
           <div className="flex gap-4 max-w-4xl mx-auto">
             <div className="flex-1 relative">
               <input
+                ref={chatInputRef}
                 value={chatInput}
                 onChange={(e) => setChatInput(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
@@ -401,15 +1382,25 @@ const App: React.FC = () => {
                 className="w-full bg-zinc-950 border border-zinc-800 rounded-xl pl-4 pr-12 py-4 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all text-zinc-200 placeholder-zinc-600"
                 disabled={isChatLoading}
               />
-              <Button 
-                className="absolute right-2 top-2 bottom-2 aspect-square !p-0 rounded-lg bg-zinc-800 hover:bg-indigo-600 text-zinc-400 hover:text-white"
-                onClick={handleSendMessage}
-                disabled={isChatLoading}
-              >
-                {isChatLoading ? <Loader2 className="animate-spin" size={20} /> : <Send size={20} />}
-              </Button>
+              {isChatLoading ? (
+                <Button
+                  className="absolute right-2 top-2 bottom-2 aspect-square !p-0 rounded-lg bg-zinc-800 hover:bg-red-600 text-zinc-300 hover:text-white"
+                  onClick={handleStopGeneration}
+                  title="Stop generating"
+                >
+                  <Square size={16} />
+                </Button>
+              ) : (
+                <Button
+                  className="absolute right-2 top-2 bottom-2 aspect-square !p-0 rounded-lg bg-zinc-800 hover:bg-indigo-600 text-zinc-400 hover:text-white"
+                  onClick={handleSendMessage}
+                >
+                  <Send size={20} />
+                </Button>
+              )}
             </div>
           </div>
+          <ContextMeter usage={contextUsage} />
         </div>
       </div>
 
@@ -417,7 +1408,10 @@ const App: React.FC = () => {
       <VoiceAgent 
         isOpen={isVoiceOpen} 
         onClose={() => setIsVoiceOpen(false)} 
-        contextSummary={papers.map(p => `Title: ${p.title}. Summary: ${p.summary}. Key Points: ${p.highlights.join(', ')}`).join('\n\n')}
+        live={resolveTask(settings, 'live')}
+        contextSummary={voiceContext}
+        onTurn={handleVoiceTurn}
+        onToolCall={(call) => runVoiceTool(call, { papers, store: vectorStoreRef.current, embedder: embedderRef.current })}
       />
     </div>
   );
@@ -427,6 +1421,103 @@ const App: React.FC = () => {
       {mode === AppMode.INGEST && renderIngest()}
       {mode === AppMode.PROCESSING && renderProcessing()}
       {mode === AppMode.DASHBOARD && renderDashboard()}
+      {detail && papers.some(p => p.id === detail.paperId) && (
+        <PaperDetail
+          paper={papers.find(p => p.id === detail.paperId)!}
+          focus={detail.focus}
+          onClose={() => setDetail(null)}
+          onAsk={handleAskAboutPaper}
+          onPlay={papers.find(p => p.id === detail.paperId)!.transcript ? () => setPlayback({ paperId: detail.paperId, time: 0 }) : undefined}
+        />
+      )}
+      {playback && papers.some(p => p.id === playback.paperId && p.transcript) && (
+        <MediaPlayer paper={papers.find(p => p.id === playback.paperId)!} time={playback.time} onClose={() => setPlayback(null)} />
+      )}
+      {viewedRun && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={() => setViewedRun(null)}>
+          <div className="glass-panel w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl p-8 relative" onClick={(e) => e.stopPropagation()}>
+            <button onClick={() => setViewedRun(null)} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+              <X size={24} />
+            </button>
+            <div className="flex items-center gap-3 mb-1">
+              <h2 className="text-xl font-semibold">{viewedRun.title}</h2>
+              <Badge color={JOB_BADGES[viewedRun.status].color}>{JOB_BADGES[viewedRun.status].label}</Badge>
+            </div>
+            <p className="text-xs text-zinc-500 mb-6">
+              {new Date(viewedRun.startedAt).toLocaleString()} · {((viewedRun.finishedAt - viewedRun.startedAt) / 1000).toFixed(1)}s
+            </p>
+            <PipelineLog logs={viewedRun.logs} />
+          </div>
+        </div>
+      )}
+      <TrainingRuns
+        isOpen={isTrainingOpen}
+        collectionName={collections.find(c => c.id === activeCollectionId)?.name ?? 'this collection'}
+        runs={trainingRuns}
+        watchedIds={watchedRunIds}
+        onImport={handleImportTrainingLog}
+        onWatch={handleWatchTrainingLog}
+        onStopWatching={handleStopWatching}
+        onDelete={handleDeleteTrainingRun}
+        onClose={() => setIsTrainingOpen(false)}
+      />
+      {activeCollectionId && (
+        <DatasetBuilder
+          isOpen={isDatasetOpen}
+          collectionId={activeCollectionId}
+          collectionName={collections.find(c => c.id === activeCollectionId)?.name ?? 'dataset'}
+          papers={selectedPaperIds.size > 0 ? papers.filter(p => selectedPaperIds.has(p.id)) : papers}
+          allPapers={papers}
+          examples={datasetExamples}
+          generator={resolveTask(settings, 'summarize')}
+          onChange={handleDatasetChange}
+          onDelete={handleDeleteExamples}
+          onOpenSource={handleOpenExampleSource}
+          onClose={() => setIsDatasetOpen(false)}
+        />
+      )}
+      <ComparisonTable
+        isOpen={isComparisonOpen}
+        collectionName={collections.find(c => c.id === activeCollectionId)?.name ?? 'papers'}
+        papers={selectedPaperIds.size > 0 ? papers.filter(p => selectedPaperIds.has(p.id)) : papers}
+        allPapers={papers}
+        rows={comparisonRows}
+        extractor={resolveTask(settings, 'summarize')}
+        store={vectorStoreRef.current}
+        embedder={embedderRef.current}
+        onChange={setComparisonRows}
+        onOpenSource={handleOpenComparisonSource}
+        onClose={() => setIsComparisonOpen(false)}
+      />
+      <CitationGraph
+        isOpen={isGraphOpen}
+        papers={papers}
+        graph={citationGraph}
+        onOpenPaper={handleOpenGraphPaper}
+        onAddWork={(link) => handleAddLink(link)}
+        onClose={() => setIsGraphOpen(false)}
+      />
+      {activeCollectionId && (
+        <SurveyWriter
+          key={activeCollectionId}
+          isOpen={isSurveyOpen}
+          collectionId={activeCollectionId}
+          collectionName={collections.find(c => c.id === activeCollectionId)?.name ?? 'survey'}
+          papers={selectedPaperIds.size > 0 ? papers.filter(p => selectedPaperIds.has(p.id)) : papers}
+          allPapers={papers}
+          writer={resolveTask(settings, 'chat')}
+          store={vectorStoreRef.current}
+          embedder={embedderRef.current}
+          onRunFinished={recordPipelineRun}
+          onClose={() => setIsSurveyOpen(false)}
+        />
+      )}
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        settings={settings}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={handleSaveSettings}
+      />
     </div>
   );
 };
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button, Input } from './UI';
+import { MEDIA_ACCEPT } from '../services/media';
+import { Search, Upload, Link as LinkIcon } from 'lucide-react';
+
+interface AddPapersPanelProps {
+  disabled: boolean;
+  onSearch: (query: string) => void;
+  onUpload: (file: File) => void;
+  // Returns an error message when the link cannot be ingested
+  onAddLink: (link: string) => string | null;
+}
+
+export const AddPapersPanel: React.FC<AddPapersPanelProps> = ({ disabled, onSearch, onUpload, onAddLink }) => {
+  const [query, setQuery] = useState('');
+  const [link, setLink] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const submitSearch = () => {
+    if (!query.trim()) return;
+    onSearch(query.trim());
+    setQuery('');
+  };
+
+  const submitLink = () => {
+    if (!link.trim()) return;
+    const error = onAddLink(link.trim());
+    setLinkError(error);
+    if (!error) setLink('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submitSearch()}
+          placeholder="Search arXiv by topic"
+          className="!py-2 text-sm"
+          disabled={disabled}
+        />
+        <Button variant="secondary" className="!px-3" onClick={submitSearch} disabled={disabled} title="Search arXiv">
+          <Search size={16} />
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={link}
+          onChange={(e) => { setLink(e.target.value); setLinkError(null); }}
+          onKeyDown={(e) => e.key === 'Enter' && submitLink()}
+          placeholder="arXiv, DOI, PDF or YouTube link"
+          className="!py-2 text-sm"
+          disabled={disabled}
+        />
+        <Button variant="secondary" className="!px-3" onClick={submitLink} disabled={disabled} title="Add by link">
+          <LinkIcon size={16} />
+        </Button>
+      </div>
+      {linkError && <p className="text-xs text-red-400">{linkError}</p>}
+      <label className={`flex items-center justify-center gap-2 text-sm border border-dashed border-zinc-700 rounded-lg py-2 text-zinc-400 transition-colors ${
+        disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-500/50 hover:text-indigo-300'
+      }`}>
+        <Upload size={16} /> Upload PDF, recording or .bib / .ris / CSL-JSON
+        <input
+          type="file"
+          accept={`.pdf,${MEDIA_ACCEPT},.bib,.bibtex,.ris,.json`}
+          className="hidden"
+          disabled={disabled}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onUpload(file);
+          }}
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Paper } from '../types';
+import { BIBLIOGRAPHY_FORMATS, BibliographyFormat, formatBibliography } from '../services/bibliography';
+import { downloadFile } from '../services/download';
+import { Button } from './UI';
+import { Download } from 'lucide-react';
+
+interface BibliographyExportProps {
+  papers: Paper[];       // the whole collection
+  selectedIds: Set<string>;
+  filename: string;      // without extension
+  onClearSelection: () => void;
+}
+
+export const BibliographyExport: React.FC<BibliographyExportProps> = ({ papers, selectedIds, filename, onClearSelection }) => {
+  const [format, setFormat] = useState<BibliographyFormat>('bibtex');
+  const selected = papers.filter(p => selectedIds.has(p.id));
+  const target = selected.length > 0 ? selected : papers;
+
+  const handleExport = () => {
+    const { extension, mimeType } = BIBLIOGRAPHY_FORMATS[format];
+    const safeName = filename.replace(/[^\w.-]+/g, '_') || 'bibliography';
+    downloadFile(`${safeName}.${extension}`, formatBibliography(target, format), mimeType);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as BibliographyFormat)}
+        className="bg-zinc-900/50 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500"
+      >
+        {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map(f => (
+          <option key={f} value={f}>{BIBLIOGRAPHY_FORMATS[f].label}</option>
+        ))}
+      </select>
+      <Button variant="secondary" className="!px-3 !py-1.5 text-xs" onClick={handleExport} disabled={target.length === 0}>
+        <Download size={14} />
+        Export {selected.length > 0 ? `${selected.length} selected` : 'all'}
+      </Button>
+      {selected.length > 0 && (
+        <button onClick={onClearSelection} className="text-xs text-zinc-500 hover:text-zinc-300">Clear</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Paper } from '../types';
+import { CitationGraph as Graph, ExternalWork, externalWorkLink, suggestMissingWorks } from '../services/references';
+import { Button } from './UI';
+import { ArrowRight, Network, Plus, X } from 'lucide-react';
+
+interface CitationGraphProps {
+  isOpen: boolean;
+  papers: Paper[];
+  graph: Graph;
+  onOpenPaper: (paperId: string) => void;
+  onAddWork: (link: string) => string | null; // error message, or null once the work is queued for ingestion
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const WIDTH = 720;
+const HEIGHT = 520;
+const MARGIN = 24;
+
+// Fruchterman-Reingold: nodes repel each other, citations pull them together, gravity keeps components on screen
+const layoutGraph = (ids: string[], edges: Graph['edges'], iterations = 300): Map<string, Point> => {
+  const positions = new Map(ids.map((id, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(ids.length, 1);
+    return [id, { x: WIDTH / 2 + (WIDTH / 3) * Math.cos(angle), y: HEIGHT / 2 + (HEIGHT / 3) * Math.sin(angle) }];
+  }));
+  const k = Math.sqrt((WIDTH * HEIGHT) / Math.max(ids.length, 1)) * 0.6;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const temperature = (WIDTH / 10) * (1 - iter / iterations);
+    const shift = new Map(ids.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i])!;
+        const b = positions.get(ids[j])!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.hypot(dx, dy);
+        const force = (k * k) / distance;
+        shift.get(ids[i])!.x += (dx / distance) * force;
+        shift.get(ids[i])!.y += (dy / distance) * force;
+        shift.get(ids[j])!.x -= (dx / distance) * force;
+        shift.get(ids[j])!.y -= (dy / distance) * force;
+      }
+    }
+    for (const { from, to } of edges) {
+      const a = positions.get(from)!;
+      const b = positions.get(to)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.hypot(dx, dy) || 0.01;
+      const force = (distance * distance) / k;
+      shift.get(from)!.x -= (dx / distance) * force;
+      shift.get(from)!.y -= (dy / distance) * force;
+      shift.get(to)!.x += (dx / distance) * force;
+      shift.get(to)!.y += (dy / distance) * force;
+    }
+
+    for (const id of ids) {
+      const p = positions.get(id)!;
+      const d = shift.get(id)!;
+      d.x += (WIDTH / 2 - p.x) * 0.05 * k / 10;
+      d.y += (HEIGHT / 2 - p.y) * 0.05 * k / 10;
+      const length = Math.hypot(d.x, d.y) || 1;
+      p.x = Math.min(WIDTH - MARGIN, Math.max(MARGIN, p.x + (d.x / length) * Math.min(length, temperature)));
+      p.y = Math.min(HEIGHT - MARGIN, Math.max(MARGIN, p.y + (d.y / length) * Math.min(length, temperature)));
+    }
+  }
+  return positions;
+};
+
+const shortTitle = (title: string) => title.length > 36 ? `${title.slice(0, 34)}…` : title;
+
+/** Citations between the papers of the collection, found in their reference lists. */
+export const CitationGraph: React.FC<CitationGraphProps> = ({ isOpen, papers, graph, onOpenPaper, onAddWork, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [showUnconnected, setShowUnconnected] = useState(false);
+  const [positions, setPositions] = useState<Map<string, Point>>(new Map());
+  const [added, setAdded] = useState<Record<string, string | null>>({}); // work key -> error, or null once added
+  const dragRef = useRef<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const connected = useMemo(() => new Set(graph.edges.flatMap(e => [e.from, e.to])), [graph]);
+  const nodes = useMemo(() => papers.filter(p => showUnconnected || connected.has(p.id)), [papers, connected, showUnconnected]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const ids = new Set(nodes.map(n => n.id));
+    setPositions(layoutGraph(nodes.map(n => n.id), graph.edges.filter(e => ids.has(e.from) && ids.has(e.to))));
+  }, [isOpen, nodes, graph]);
+
+  if (!isOpen) return null;
+
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const suggestions = suggestMissingWorks(graph);
+  const parsedPapers = papers.filter(p => (graph.referenceCounts.get(p.id) ?? 0) > 0).length;
+  const focus = hoveredId ?? selectedId;
+  const neighbours = new Set(focus ? [focus, ...(graph.cites.get(focus) ?? []), ...(graph.citedBy.get(focus) ?? [])] : []);
+  const selected = selectedId ? byId.get(selectedId) : undefined;
+  const radius = (id: string) => 6 + 2 * Math.sqrt(graph.citedBy.get(id)?.length ?? 0);
+
+  // Pointer position in SVG coordinates
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * WIDTH, y: ((e.clientY - rect.top) / rect.height) * HEIGHT };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const id = dragRef.current;
+    if (!id) return;
+    const point = toPoint(e);
+    setPositions(prev => new Map(prev).set(id, point));
+  };
+
+  const handleAdd = (work: ExternalWork) => {
+    const link = externalWorkLink(work);
+    if (link) setAdded(prev => ({ ...prev, [work.key]: onAddWork(link) }));
+  };
+
+  const PaperList: React.FC<{ label: string; ids: string[] }> = ({ label, ids }) => (
+    <div>
+      <p className="text-xs text-zinc-500 font-mono uppercase mb-1">{label} ({ids.length})</p>
+      {ids.length === 0 ? <p className="text-xs text-zinc-600">None in the collection.</p> : (
+        <ul className="space-y-1">
+          {ids.map(id => (
+            <li key={id}>
+              <button onClick={() => setSelectedId(id)} className="text-left text-xs text-indigo-300 hover:text-indigo-200">
+                {byId.get(id)?.title}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-6xl max-h-[90vh] flex flex-col rounded-2xl p-8 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 mb-1">
+          <Network className="text-indigo-400" size={20} />
+          Citation Graph
+        </h2>
+        <p className="text-xs text-zinc-500 mb-4">
+          {graph.edges.length} citations between {connected.size} papers · reference lists found in {parsedPapers} of {papers.length} papers
+        </p>
+
+        <div className="flex-1 min-h-0 flex gap-6">
+          <div className="flex-1 min-w-0 flex flex-col gap-2">
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              <input type="checkbox" checked={showUnconnected} onChange={(e) => setShowUnconnected(e.target.checked)} className="accent-indigo-500" />
+              Show papers without citations in the collection
+            </label>
+            {nodes.length === 0 ? (
+              <p className="text-sm text-zinc-500 py-12 text-center border border-zinc-800 rounded-xl">
+                No paper of the collection cites another one yet. Papers need their full text (PDF or arXiv) for their references to be read.
+              </p>
+            ) : (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full bg-zinc-950/60 border border-zinc-800 rounded-xl select-none touch-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => { dragRef.current = null; }}
+                onPointerLeave={() => { dragRef.current = null; }}
+                onClick={() => setSelectedId(null)}
+              >
+                <defs>
+                  <marker id="cite-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="#71717a" />
+                  </marker>
+                </defs>
+                {graph.edges.map(({ from, to }) => {
+                  const a = positions.get(from);
+                  const b = positions.get(to);
+                  if (!a || !b) return null;
+                  // Stop the arrow at the edge of the cited node
+                  const distance = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+                  const r = radius(to) + 2;
+                  const active = focus !== null && (from === focus || to === focus);
+                  return (
+                    <line
+                      key={`${from}-${to}`}
+                      x1={a.x} y1={a.y}
+                      x2={b.x - ((b.x - a.x) / distance) * r} y2={b.y - ((b.y - a.y) / distance) * r}
+                      markerEnd="url(#cite-arrow)"
+                      className={active ? 'text-indigo-400' : focus ? 'text-zinc-800' : 'text-zinc-600'}
+                      stroke="currentColor"
+                      strokeWidth={active ? 1.5 : 1}
+                    />
+                  );
+                })}
+                {nodes.map(paper => {
+                  const p = positions.get(paper.id);
+                  if (!p) return null;
+                  const dimmed = focus !== null && !neighbours.has(paper.id);
+                  return (
+                    <g
+                      key={paper.id}
+                      transform={`translate(${p.x},${p.y})`}
+                      className={`cursor-pointer transition-opacity ${dimmed ? 'opacity-25' : ''}`}
+                      onPointerDown={(e) => { e.stopPropagation(); dragRef.current = paper.id; }}
+                      onPointerEnter={() => setHoveredId(paper.id)}
+                      onPointerLeave={() => setHoveredId(null)}
+                      onClick={(e) => { e.stopPropagation(); setSelectedId(paper.id); }}
+                    >
+                      <title>{paper.title}</title>
+                      <circle
+                        r={radius(paper.id)}
+                        className={paper.id === selectedId ? 'fill-indigo-400 stroke-white' : connected.has(paper.id) ? 'fill-indigo-600 stroke-indigo-300' : 'fill-zinc-700 stroke-zinc-500'}
+                        strokeWidth={1.5}
+                      />
+                      {(neighbours.has(paper.id) || nodes.length <= 15) && (
+                        <text y={radius(paper.id) + 12} textAnchor="middle" className="fill-zinc-300 text-[10px] pointer-events-none">
+                          {shortTitle(paper.title)}
+                        </text>
+                      )}
+                    </g>
+                  );
+                })}
+              </svg>
+            )}
+          </div>
+
+          <div className="w-80 shrink-0 overflow-y-auto space-y-6 pr-1">
+            {selected ? (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-sm font-medium text-zinc-200 leading-tight">{selected.title}</h3>
+                  <p className="text-xs text-zinc-500 mt-1">
+                    {selected.year} · {graph.referenceCounts.get(selected.id) ?? 0} references parsed
+                  </p>
+                </div>
+                <PaperList label="Cites" ids={graph.cites.get(selected.id) ?? []} />
+                <PaperList label="Cited by" ids={graph.citedBy.get(selected.id) ?? []} />
+                <Button variant="secondary" className="!px-3 !py-1.5 text-xs" onClick={() => onOpenPaper(selected.id)}>
+                  Open paper <ArrowRight size={14} />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-zinc-500">Select a paper to see what it cites and what cites it. Drag papers to rearrange the graph.</p>
+            )}
+
+            <div>
+              <p className="text-xs text-zinc-500 font-mono uppercase mb-2">Frequently cited, not in the collection</p>
+              {suggestions.length === 0 ? (
+                <p className="text-xs text-zinc-600">No work is cited by two or more papers of the collection.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {suggestions.map(work => {
+                    const link = externalWorkLink(work);
+                    const state = added[work.key];
+                    return (
+                      <li key={work.key} className="text-xs space-y-1">
+                        <p className="text-zinc-300" title={work.raw}>{work.title ?? work.raw.slice(0, 120)}</p>
+                        <div className="flex items-center gap-2 text-zinc-500">
+                          <span title={work.citedBy.map(id => byId.get(id)?.title).join('\n')}>
+                            cited by {work.citedBy.length}{work.year ? ` · ${work.year}` : ''}
+                          </span>
+                          {link && state === undefined && (
+                            <button onClick={() => handleAdd(work)} className="ml-auto flex items-center gap-1 text-indigo-300 hover:text-indigo-200">
+                              <Plus size={12} /> Add
+                            </button>
+                          )}
+                          {state === null && <span className="ml-auto text-green-400">Adding…</span>}
+                        </div>
+                        {state && <p className="text-red-400">{state}</p>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Citation } from '../types';
+import { formatTimestamp } from '../services/media';
+import { FileText, Globe, PlayCircle } from 'lucide-react';
+
+interface CitationsProps {
+  citations: Citation[];
+  onSelectPaper: (citation: Citation) => void;
+}
+
+export const Citations: React.FC<CitationsProps> = ({ citations, onSelectPaper }) => {
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="mt-4 pt-3 border-t border-zinc-800 space-y-1">
+      <p className="text-[10px] uppercase tracking-wider text-zinc-500 font-mono mb-2">Sources</p>
+      {citations.map(c => (
+        <button
+          key={`${c.kind}-${c.index}`}
+          onClick={() => c.kind === 'web' ? window.open(c.url, '_blank', 'noopener,noreferrer') : onSelectPaper(c)}
+          title={c.snippet || c.url}
+          className="w-full flex items-start gap-2 text-left text-xs text-zinc-400 hover:text-indigo-300 transition-colors"
+        >
+          <span className="font-mono text-indigo-400 shrink-0">[{c.index}]</span>
+          {c.kind === 'web' ? <Globe size={12} className="mt-0.5 shrink-0" />
+            : c.time !== undefined ? <PlayCircle size={12} className="mt-0.5 shrink-0" />
+            : <FileText size={12} className="mt-0.5 shrink-0" />}
+          <span className="line-clamp-1">
+            {c.title}
+            {c.page !== undefined && <span className="text-zinc-600"> · p. {c.page}</span>}
+            {c.time !== undefined && <span className="text-zinc-600"> · {formatTimestamp(c.time)}</span>}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Collection } from '../types';
+import { FolderOpen, Plus, Trash2, Check, X } from 'lucide-react';
+
+interface CollectionSwitcherProps {
+  collections: Collection[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const CollectionSwitcher: React.FC<CollectionSwitcherProps> = ({ collections, activeId, onSelect, onCreate, onDelete }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const submit = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+    setIsCreating(false);
+  };
+
+  const active = collections.find(c => c.id === activeId);
+
+  if (isCreating) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          autoFocus
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submit();
+            if (e.key === 'Escape') setIsCreating(false);
+          }}
+          placeholder="Collection name, e.g. Diffusion Models"
+          className="flex-1 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500"
+        />
+        <button onClick={submit} className="p-2 text-green-400 hover:text-green-300" title="Create collection"><Check size={16} /></button>
+        <button onClick={() => setIsCreating(false)} className="p-2 text-zinc-500 hover:text-zinc-300" title="Cancel"><X size={16} /></button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <FolderOpen size={16} className="text-zinc-500 shrink-0" />
+      <select
+        value={activeId ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500"
+      >
+        {collections.map(c => (
+          <option key={c.id} value={c.id}>{c.name}</option>
+        ))}
+      </select>
+      <button onClick={() => setIsCreating(true)} className="p-2 text-zinc-400 hover:text-indigo-300" title="New collection">
+        <Plus size={16} />
+      </button>
+      {active && collections.length > 1 && (
+        <button
+          onClick={() => window.confirm(`Delete "${active.name}" and all of its papers and chats?`) && onDelete(active.id)}
+          className="p-2 text-zinc-500 hover:text-red-400"
+          title="Delete collection"
+        >
+          <Trash2 size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useRef, useState } from 'react';
+import { Citation, Paper } from '../types';
+import {
+  COLUMN_KEYS, COMPARISON_COLUMNS, ComparisonResult, ComparisonRow, ComparisonSortKey,
+  comparePapers, formatComparisonCsv, formatComparisonMarkdown, sortRows,
+} from '../services/comparison';
+import { downloadFile } from '../services/download';
+import { EmbeddingProvider } from '../services/embeddings';
+import { formatTimestamp } from '../services/media';
+import type { TaskTarget } from '../services/providers';
+import { VectorStore } from '../services/vectorStore';
+import { Button } from './UI';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, Loader2, Square, Table2, X } from 'lucide-react';
+
+interface ComparisonTableProps {
+  isOpen: boolean;
+  collectionName: string;
+  papers: Paper[];       // the papers a new table compares
+  allPapers: Paper[];    // resolves the rows of an existing table
+  rows: ComparisonRow[];
+  extractor: TaskTarget;
+  store: VectorStore;
+  embedder: EmbeddingProvider;
+  onChange: (rows: ComparisonRow[]) => void;
+  onOpenSource: (citation: Citation) => void;
+  onClose: () => void;
+}
+
+const describeSource = (source: Citation) =>
+  `${source.page !== undefined ? `p. ${source.page}: ` : source.time !== undefined ? `at ${formatTimestamp(source.time)}: ` : ''}${source.snippet ?? ''}`;
+
+/** Side-by-side comparison of papers, extracted column by column from their passages. */
+export const ComparisonTable: React.FC<ComparisonTableProps> = ({
+  isOpen, collectionName, papers, allPapers, rows, extractor, store, embedder, onChange, onOpenSource, onClose,
+}) => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [sort, setSort] = useState<{ key: ComparisonSortKey; descending: boolean } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!isOpen) return null;
+
+  const byId = new Map(allPapers.map(p => [p.id, p]));
+  const shown = sort ? sortRows(rows, allPapers, sort.key, sort.descending) : rows;
+
+  const handleCompare = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setProgress({ done: 0, total: papers.length });
+    try {
+      const compared = await comparePapers(papers, extractor, {
+        store,
+        embedder,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      if (compared.rows.length > 0) onChange(compared.rows);
+      setResult(compared);
+    } catch (error) {
+      console.error("Failed to compare papers", error);
+      setResult({ rows: [], dropped: [], error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  // Ascending, then descending, then back to the extraction order
+  const toggleSort = (key: ComparisonSortKey) => setSort(current =>
+    current?.key !== key ? { key, descending: false } : !current.descending ? { key, descending: true } : null);
+
+  const handleExport = (format: 'csv' | 'markdown') => {
+    const safeName = `${collectionName.replace(/[^\w.-]+/g, '_') || 'comparison'}-comparison`;
+    if (format === 'csv') downloadFile(`${safeName}.csv`, formatComparisonCsv(shown, allPapers), 'text/csv');
+    else downloadFile(`${safeName}.md`, formatComparisonMarkdown(shown, allPapers), 'text/markdown');
+  };
+
+  const SortHeader: React.FC<{ sortKey: ComparisonSortKey; label: string; className?: string }> = ({ sortKey, label, className = '' }) => (
+    <th className={`text-left font-medium px-3 py-2 align-bottom ${className}`}>
+      <button onClick={() => toggleSort(sortKey)} className="flex items-center gap-1 hover:text-zinc-200 transition-colors">
+        {label}
+        {sort?.key !== sortKey ? <ArrowUpDown size={12} className="opacity-40" /> : sort.descending ? <ArrowDown size={12} /> : <ArrowUp size={12} />}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-[95vw] max-h-[90vh] flex flex-col rounded-2xl p-8 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 mb-1">
+          <Table2 className="text-indigo-400" size={20} />
+          Paper Comparison
+        </h2>
+        <p className="text-xs text-zinc-500 mb-6">
+          {collectionName} · select papers in the Knowledge Base to compare them, or compare the whole collection
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          {progress ? (
+            <Button variant="danger" onClick={() => abortRef.current?.abort()}>
+              <Square size={16} /> Stop
+            </Button>
+          ) : (
+            <Button onClick={handleCompare} disabled={papers.length === 0}>
+              Compare {papers.length} {papers.length === 1 ? 'paper' : 'papers'}
+            </Button>
+          )}
+          {progress && (
+            <span className="flex items-center gap-2 text-xs text-zinc-400">
+              <Loader2 size={14} className="animate-spin" /> {progress.done} / {progress.total} papers
+            </span>
+          )}
+          {result && !progress && (
+            <span className="text-xs text-zinc-400">
+              {result.rows.length} {result.rows.length === 1 ? 'row' : 'rows'} extracted, {result.dropped.length} dropped
+            </span>
+          )}
+          {rows.length > 0 && (
+            <div className="ml-auto flex gap-2">
+              <Button variant="secondary" className="!px-3 !py-1.5 text-xs" onClick={() => handleExport('csv')}>
+                <Download size={14} /> CSV
+              </Button>
+              <Button variant="secondary" className="!px-3 !py-1.5 text-xs" onClick={() => handleExport('markdown')}>
+                <Download size={14} /> Markdown
+              </Button>
+            </div>
+          )}
+        </div>
+        {result?.error && <p className="text-xs text-red-400 mb-4">{result.error}</p>}
+        {result && result.dropped.length > 0 && (
+          <details className="text-xs text-zinc-500 mb-4">
+            <summary className="cursor-pointer hover:text-zinc-300">Dropped cells</summary>
+            <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+              {result.dropped.map((item, i) => (
+                <li key={i}><span className="text-zinc-400">{item.label}</span> — {item.reasons.join('; ')}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <div className="flex-1 overflow-auto border border-zinc-800 rounded-xl">
+          {rows.length === 0 ? (
+            <p className="text-sm text-zinc-500 p-6">No comparison yet.</p>
+          ) : (
+            <table className="w-full text-xs border-collapse">
+              <thead className="sticky top-0 bg-zinc-900 text-zinc-400 z-10">
+                <tr>
+                  <SortHeader sortKey="title" label="Paper" className="min-w-[14rem] sticky left-0 bg-zinc-900" />
+                  <SortHeader sortKey="year" label="Year" />
+                  {COLUMN_KEYS.map(key => <SortHeader key={key} sortKey={key} label={COMPARISON_COLUMNS[key].label} className="min-w-[12rem]" />)}
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(row => {
+                  const paper = byId.get(row.paperId);
+                  return (
+                    <tr key={row.paperId} className="border-t border-zinc-800 align-top">
+                      <td className="px-3 py-3 font-medium text-zinc-200 sticky left-0 bg-zinc-950">{paper?.title ?? 'Deleted paper'}</td>
+                      <td className="px-3 py-3 text-zinc-400">{paper?.year}</td>
+                      {COLUMN_KEYS.map(key => {
+                        const cell = row.cells[key];
+                        return (
+                          <td key={key} className="px-3 py-3 text-zinc-300 leading-relaxed">
+                            {cell?.value ? (
+                              <>
+                                {cell.value}
+                                {cell.sources.map(source => (
+                                  <button
+                                    key={source.index}
+                                    onClick={() => onOpenSource(source)}
+                                    className="ml-1 align-super text-[10px] text-indigo-300 hover:text-indigo-200"
+                                    title={describeSource(source)}
+                                  >
+                                    [{source.index}]
+                                  </button>
+                                ))}
+                              </>
+                            ) : (
+                              <span className="text-zinc-600">{cell ? 'Not reported' : '—'}</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
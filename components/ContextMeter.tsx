@@ -0,0 +1,41 @@
+import React from 'react';
+import { ContextUsage } from '../services/context';
+
+const SEGMENTS: { key: 'system' | 'summary' | 'history' | 'context' | 'question'; label: string; color: string }[] = [
+  { key: 'system', label: 'Instructions', color: 'bg-zinc-500' },
+  { key: 'summary', label: 'Summary', color: 'bg-amber-500' },
+  { key: 'history', label: 'History', color: 'bg-indigo-500' },
+  { key: 'context', label: 'Excerpts', color: 'bg-emerald-500' },
+  { key: 'question', label: 'Question', color: 'bg-sky-400' },
+];
+
+const formatTokens = (n: number) => (n >= 10_000 ? `${Math.round(n / 1000)}k` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`);
+
+/** How much of the request budget the next message is expected to use, split by part. */
+export const ContextMeter: React.FC<{ usage: ContextUsage }> = ({ usage }) => {
+  const { budget, total } = usage;
+  const share = (n: number) => `${Math.min(100, (n / budget.input) * 100)}%`;
+
+  return (
+    <div className="max-w-4xl mx-auto mt-3 group">
+      <div className="flex h-1.5 rounded-full overflow-hidden bg-zinc-800">
+        {SEGMENTS.map(s => usage[s.key] > 0 && (
+          <div key={s.key} className={s.color} style={{ width: share(usage[s.key]) }} title={`${s.label}: ~${formatTokens(usage[s.key])} tokens`} />
+        ))}
+      </div>
+      <div className="flex items-center justify-between mt-1.5 text-[11px] text-zinc-500">
+        <span className="flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+          {SEGMENTS.map(s => (
+            <span key={s.key} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-full ${s.color}`} /> {s.label} {formatTokens(usage[s.key])}
+            </span>
+          ))}
+        </span>
+        <span className={total > budget.input ? 'text-red-400' : ''}>
+          ~{formatTokens(total)} / {formatTokens(budget.input)} tokens
+          {budget.window > budget.input && <span className="text-zinc-600"> · {formatTokens(budget.window)} window</span>}
+        </span>
+      </div>
+    </div>
+  );
+};
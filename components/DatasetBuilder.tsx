@@ -0,0 +1,313 @@
+import React, { useRef, useState } from 'react';
+import { DatasetExample, DatasetExampleKind, Paper } from '../types';
+import {
+  DATASET_FORMATS, DEFAULT_DATASET_OPTIONS, DatasetFormat, DatasetGenerationResult, DatasetOptions, EXAMPLE_KIND_LABELS,
+  assignSplits, formatDataset, generateDataset,
+} from '../services/dataset';
+import { downloadFile } from '../services/download';
+import { formatTimestamp } from '../services/media';
+import type { TaskTarget } from '../services/providers';
+import { Button, Input, Badge } from './UI';
+import { Check, Database, Download, Loader2, Pencil, Shuffle, Square, Trash2, X } from 'lucide-react';
+
+interface DatasetBuilderProps {
+  isOpen: boolean;
+  collectionId: string;
+  collectionName: string;
+  papers: Paper[];         // the papers new examples are written from
+  allPapers: Paper[];      // resolves provenance
+  examples: DatasetExample[];
+  generator: TaskTarget;
+  onChange: (examples: DatasetExample[]) => void; // added or updated examples
+  onDelete: (ids: string[]) => void;
+  onOpenSource: (example: DatasetExample) => void;
+  onClose: () => void;
+}
+
+type StatusFilter = DatasetExample['status'] | 'all';
+
+const STATUS_BADGES: Record<DatasetExample['status'], string> = {
+  pending: 'bg-zinc-700/50 text-zinc-400',
+  accepted: 'bg-green-500/20 text-green-400',
+  rejected: 'bg-red-500/20 text-red-400',
+};
+
+const NumberField: React.FC<{ label: string; value: number; min: number; max?: number; onChange: (value: number) => void }> = ({ label, value, min, max, onChange }) => (
+  <label className="text-xs text-zinc-500 space-y-1">
+    <span>{label}</span>
+    <Input type="number" value={value} min={min} max={max} onChange={(e) => onChange(Math.max(min, Number(e.target.value) || min))} className="!py-1.5 text-sm" />
+  </label>
+);
+
+/** Generates, reviews and exports supervised fine-tuning data written from the collection's papers. */
+export const DatasetBuilder: React.FC<DatasetBuilderProps> = ({
+  isOpen, collectionId, collectionName, papers, allPapers, examples, generator, onChange, onDelete, onOpenSource, onClose,
+}) => {
+  const [options, setOptions] = useState<DatasetOptions>(DEFAULT_DATASET_OPTIONS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<DatasetGenerationResult | null>(null);
+  const [filter, setFilter] = useState<StatusFilter>('pending');
+  const [editing, setEditing] = useState<{ id: string; instruction: string; output: string } | null>(null);
+  const [evalPercent, setEvalPercent] = useState(10);
+  const [format, setFormat] = useState<DatasetFormat>('openai');
+  const [system, setSystem] = useState('You are a research assistant specialised in the papers of this collection.');
+  const [includeSource, setIncludeSource] = useState(true);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!isOpen) return null;
+
+  const counts = {
+    pending: examples.filter(e => e.status === 'pending').length,
+    accepted: examples.filter(e => e.status === 'accepted').length,
+    rejected: examples.filter(e => e.status === 'rejected').length,
+    all: examples.length,
+  };
+  const accepted = examples.filter(e => e.status === 'accepted');
+  const evalCount = accepted.filter(e => e.split === 'eval').length;
+  const shown = filter === 'all' ? examples : examples.filter(e => e.status === filter);
+  const paperTitle = (paperId: string) => allPapers.find(p => p.id === paperId)?.title ?? 'Deleted paper';
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setProgress({ done: 0, total: 1 });
+    try {
+      const generated = await generateDataset(papers, generator, options, {
+        collectionId,
+        existing: examples,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      if (generated.examples.length > 0) onChange(generated.examples);
+      setResult(generated);
+      setFilter('pending');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const setStatus = (example: DatasetExample, status: DatasetExample['status']) => onChange([{ ...example, status }]);
+
+  const saveEdit = () => {
+    const example = examples.find(e => e.id === editing?.id);
+    if (!example || !editing) return;
+    onChange([{ ...example, instruction: editing.instruction.trim(), output: editing.output.trim(), edited: true, status: 'accepted' }]);
+    setEditing(null);
+  };
+
+  const toggleKind = (kind: DatasetExampleKind) => setOptions(o => ({
+    ...o,
+    kinds: o.kinds.includes(kind) ? o.kinds.filter(k => k !== kind) : [...o.kinds, kind],
+  }));
+
+  const handleExport = () => {
+    const safeName = collectionName.replace(/[^\w.-]+/g, '_') || 'dataset';
+    const exportOptions = { papers: allPapers, system: system.trim() || undefined, includeSource };
+    downloadFile(`${safeName}-${format}-train.jsonl`, formatDataset(examples, 'train', format, exportOptions), 'application/jsonl');
+    if (evalCount > 0) downloadFile(`${safeName}-${format}-eval.jsonl`, formatDataset(examples, 'eval', format, exportOptions), 'application/jsonl');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-5xl max-h-[90vh] flex flex-col rounded-2xl p-8 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 mb-1">
+          <Database className="text-indigo-400" size={20} />
+          Fine-tuning Dataset
+        </h2>
+        <p className="text-xs text-zinc-500 mb-6">
+          {collectionName} · {counts.accepted} accepted ({accepted.length - evalCount} train / {evalCount} eval) · {counts.pending} to review
+        </p>
+
+        <div className="flex-1 overflow-y-auto pr-1 space-y-8">
+          <section className="space-y-3">
+            <p className="text-xs text-zinc-500 font-mono uppercase">Generate from {papers.length} {papers.length === 1 ? 'paper' : 'papers'}</p>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(EXAMPLE_KIND_LABELS) as DatasetExampleKind[]).map(kind => (
+                <label key={kind} className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input type="checkbox" checked={options.kinds.includes(kind)} onChange={() => toggleKind(kind)} className="accent-indigo-500" />
+                  {EXAMPLE_KIND_LABELS[kind]}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-5 gap-3">
+              <NumberField label="Per chunk and kind" value={options.perChunk} min={1} max={10} onChange={(perChunk) => setOptions(o => ({ ...o, perChunk }))} />
+              <NumberField label="Chunks per paper" value={options.maxChunksPerPaper} min={1} onChange={(maxChunksPerPaper) => setOptions(o => ({ ...o, maxChunksPerPaper }))} />
+              <NumberField label="Min instruction chars" value={options.minInstructionChars} min={0} onChange={(minInstructionChars) => setOptions(o => ({ ...o, minInstructionChars }))} />
+              <NumberField label="Min answer chars" value={options.minOutputChars} min={0} onChange={(minOutputChars) => setOptions(o => ({ ...o, minOutputChars }))} />
+              <NumberField label="Max answer chars" value={options.maxOutputChars} min={1} onChange={(maxOutputChars) => setOptions(o => ({ ...o, maxOutputChars }))} />
+            </div>
+            <div className="flex items-center gap-3">
+              {progress ? (
+                <Button variant="danger" onClick={() => abortRef.current?.abort()}>
+                  <Square size={16} /> Stop
+                </Button>
+              ) : (
+                <Button onClick={handleGenerate} disabled={papers.length === 0 || options.kinds.length === 0}>
+                  Generate examples
+                </Button>
+              )}
+              {progress && (
+                <span className="flex items-center gap-2 text-xs text-zinc-400">
+                  <Loader2 size={14} className="animate-spin" /> {progress.done} / {progress.total} requests
+                </span>
+              )}
+              {result && !progress && (
+                <span className="text-xs text-zinc-400">
+                  {result.examples.length} new examples, {result.dropped.length} dropped
+                </span>
+              )}
+            </div>
+            {result?.error && <p className="text-xs text-red-400">{result.error}</p>}
+            {result && result.dropped.length > 0 && (
+              <details className="text-xs text-zinc-500">
+                <summary className="cursor-pointer hover:text-zinc-300">Dropped examples</summary>
+                <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                  {result.dropped.map((item, i) => (
+                    <li key={i}><span className="text-zinc-400">{item.label}</span> — {item.reasons.join('; ')}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex text-xs rounded-md border border-zinc-700 overflow-hidden">
+                {(['pending', 'accepted', 'rejected', 'all'] as StatusFilter[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setFilter(option)}
+                    className={`px-3 py-1 capitalize transition-colors ${filter === option ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                  >
+                    {option} ({counts[option]})
+                  </button>
+                ))}
+              </div>
+              {filter === 'pending' && counts.pending > 0 && (
+                <Button variant="secondary" className="!px-3 !py-1 text-xs" onClick={() => onChange(examples.filter(e => e.status === 'pending').map(e => ({ ...e, status: 'accepted' })))}>
+                  <Check size={14} /> Accept all
+                </Button>
+              )}
+              {filter === 'rejected' && counts.rejected > 0 && (
+                <Button variant="danger" className="!px-3 !py-1 text-xs" onClick={() => onDelete(examples.filter(e => e.status === 'rejected').map(e => e.id))}>
+                  <Trash2 size={14} /> Delete rejected
+                </Button>
+              )}
+            </div>
+
+            {shown.length === 0 ? (
+              <p className="text-sm text-zinc-500">No examples here.</p>
+            ) : (
+              <ul className="space-y-3">
+                {shown.map(example => (
+                  <li key={example.id} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4 space-y-2">
+                    <div className="flex items-center gap-2 text-xs">
+                      <Badge color={STATUS_BADGES[example.status]}>{example.status}</Badge>
+                      <span className="text-zinc-500">{EXAMPLE_KIND_LABELS[example.kind]} · {example.split}{example.edited ? ' · edited' : ''}</span>
+                      <button
+                        onClick={() => onOpenSource(example)}
+                        className="ml-auto text-indigo-300 hover:text-indigo-200 truncate max-w-[50%]"
+                        title="Show the source paper"
+                      >
+                        {paperTitle(example.paperId)}
+                        {example.page !== undefined && `, p. ${example.page}`}
+                        {example.time !== undefined && `, at ${formatTimestamp(example.time)}`}
+                      </button>
+                    </div>
+
+                    {editing?.id === example.id ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={editing.instruction}
+                          onChange={(e) => setEditing({ ...editing, instruction: e.target.value })}
+                          rows={2}
+                          className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500"
+                        />
+                        <textarea
+                          value={editing.output}
+                          onChange={(e) => setEditing({ ...editing, output: e.target.value })}
+                          rows={5}
+                          className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="secondary" className="!py-1 text-xs" onClick={() => setEditing(null)}>Cancel</Button>
+                          <Button className="!py-1 text-xs" onClick={saveEdit} disabled={!editing.instruction.trim() || !editing.output.trim()}>Save & accept</Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <p className="text-sm font-medium text-zinc-200">{example.instruction}</p>
+                        {example.input && (
+                          <details className="text-xs text-zinc-500">
+                            <summary className="cursor-pointer hover:text-zinc-300">Input passage</summary>
+                            <p className="mt-1 whitespace-pre-wrap">{example.input}</p>
+                          </details>
+                        )}
+                        <p className="text-sm text-zinc-400 whitespace-pre-wrap">{example.output}</p>
+                        <div className="flex justify-end gap-2 pt-1">
+                          <Button variant="secondary" className="!px-2 !py-1 text-xs" onClick={() => setEditing({ id: example.id, instruction: example.instruction, output: example.output })}>
+                            <Pencil size={14} /> Edit
+                          </Button>
+                          {example.status !== 'rejected' && (
+                            <Button variant="danger" className="!px-2 !py-1 text-xs" onClick={() => setStatus(example, 'rejected')}>
+                              <X size={14} /> Reject
+                            </Button>
+                          )}
+                          {example.status !== 'accepted' && (
+                            <Button className="!px-2 !py-1 text-xs" onClick={() => setStatus(example, 'accepted')}>
+                              <Check size={14} /> Accept
+                            </Button>
+                          )}
+                        </div>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <section className="border-t border-white/5 pt-4 mt-4 flex flex-wrap items-end gap-3">
+          <div className="w-28">
+            <NumberField label="Eval split %" value={evalPercent} min={0} max={50} onChange={setEvalPercent} />
+          </div>
+          <Button
+            variant="secondary"
+            className="!py-1.5 text-xs"
+            onClick={() => onChange(assignSplits(accepted, evalPercent / 100))}
+            disabled={accepted.length === 0}
+            title="Reassign the accepted examples to train and eval"
+          >
+            <Shuffle size={14} /> Split
+          </Button>
+          <label className="flex-1 min-w-[200px] text-xs text-zinc-500 space-y-1">
+            <span>System prompt (chat formats)</span>
+            <Input value={system} onChange={(e) => setSystem(e.target.value)} className="!py-1.5 text-sm" />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-zinc-400 pb-2" title="OpenAI's fine-tuning API rejects files with extra fields">
+            <input type="checkbox" checked={includeSource} onChange={(e) => setIncludeSource(e.target.checked)} className="accent-indigo-500" />
+            Include source
+          </label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as DatasetFormat)}
+            className="bg-zinc-900/50 border border-zinc-800 rounded-lg px-2 py-2 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500"
+          >
+            {(Object.keys(DATASET_FORMATS) as DatasetFormat[]).map(f => (
+              <option key={f} value={f}>{DATASET_FORMATS[f].label}</option>
+            ))}
+          </select>
+          <Button className="!py-1.5 text-xs" onClick={handleExport} disabled={accepted.length === 0}>
+            <Download size={14} /> Export JSONL
+          </Button>
+        </section>
+      </div>
+    </div>
+  );
+};
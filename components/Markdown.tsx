@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import { extractCitedIndices } from '../services/citations';
+
+interface MarkdownProps {
+  text: string;
+  // While a reply is streaming, unfinished code fences and display math are closed so the partial text still renders
+  streaming?: boolean;
+  onCitation?: (index: number) => void;
+  maxCitation?: number; // highest citation number of the reply; other bracketed numbers stay plain text
+}
+
+const CITE_HREF = '#cite-';
+
+// Fenced blocks and inline code spans are never rewritten; math is additionally protected from citation links
+const CODE = String.raw`^\`\`\`[^\n]*\n[\s\S]*?(?:^\`\`\`[ \t]*$|(?![\s\S]))|\`[^\`\n]+\``;
+const MATH = String.raw`\$\$[\s\S]*?(?:\$\$|(?![\s\S]))|\$[^$\n]+\$`;
+
+const mapOutside = (text: string, protect: string, fn: (prose: string) => string) =>
+  text.split(new RegExp(`(${protect})`, 'gm')).map((part, i) => (i % 2 === 1 ? part : fn(part))).join('');
+
+// Walks the lines to find a code fence or $$ block the stream has opened but not yet closed
+const closeOpenBlocks = (source: string): string => {
+  let inFence = false;
+  let inMath = false;
+  for (const line of source.split('\n')) {
+    if (!inMath && line.trimStart().startsWith('```')) inFence = !inFence;
+    else if (!inFence && (line.split('$$').length - 1) % 2 === 1) inMath = !inMath;
+  }
+  return source + (inFence ? '\n```' : '') + (inMath ? '\n$$' : '');
+};
+
+const prepare = (text: string, streaming: boolean, maxCitation: number): string => {
+  // Models often use LaTeX delimiters; remark-math only understands dollars
+  let source = mapOutside(text, CODE, prose => prose
+    .replace(/\\\[([\s\S]*?)\\\]/g, (_m, math) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\((.+?)\\\)/g, (_m, math) => `$${math.trim()}$`));
+
+  // [2] / [1, 3] / [2-4] citation markers become one link per source, which the renderer turns into buttons;
+  // numbers the reply has no citation for, such as years, are left as they are
+  source = mapOutside(source, `${CODE}|${MATH}`, prose => prose
+    .replace(/\[(\d+(?:\s*[-–,]\s*\d+)*)\](?!\()/g, (marker, inner: string) => {
+      const parts = inner.split(/\s*,\s*/).map(part => ({ part, indices: [...extractCitedIndices(`[${part}]`, maxCitation)] }));
+      if (parts.every(({ indices }) => indices.length === 0)) return marker;
+      return parts
+        .map(({ part, indices }) => indices.length === 0 ? `[${part}]` : indices.map(n => `[[${n}]](${CITE_HREF}${n})`).join(''))
+        .join('');
+    }));
+
+  return streaming ? closeOpenBlocks(source) : source;
+};
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const ref = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(ref.current?.innerText ?? '');
+    } catch (error) {
+      // Denied permission, an insecure context or an unfocused document; nothing was copied
+      console.error("Failed to copy code", error);
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="relative group/code my-3">
+      <button
+        onClick={copy}
+        className="absolute top-2 right-2 p-1.5 rounded-md bg-zinc-800/80 text-zinc-400 hover:text-white opacity-0 group-hover/code:opacity-100 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? <Check size={14} /> : <Copy size={14} />}
+      </button>
+      <pre
+        ref={ref}
+        {...props}
+        className="overflow-x-auto rounded-lg bg-zinc-950 border border-zinc-800 p-4 text-xs leading-relaxed [&>code]:!bg-transparent [&>code]:!p-0"
+      >
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+/** Renders model output as GitHub-flavoured Markdown with KaTeX math and highlighted code. Raw HTML is never rendered. */
+export const Markdown: React.FC<MarkdownProps> = ({ text, streaming = false, onCitation, maxCitation = 0 }) => {
+  const components: Components = {
+    pre: ({ node: _node, ...props }) => <CodeBlock {...props} />,
+    code: ({ node: _node, className, ...props }) => (
+      <code className={`${className ?? ''} font-mono text-[0.85em] bg-zinc-800/70 rounded px-1 py-0.5`} {...props} />
+    ),
+    a: ({ node: _node, href, children, ...props }) => {
+      if (href?.startsWith(CITE_HREF)) {
+        const index = parseInt(href.slice(CITE_HREF.length), 10);
+        return (
+          <button
+            onClick={() => onCitation?.(index)}
+            className="text-indigo-300 hover:text-indigo-200 font-mono text-[0.85em] align-baseline"
+          >
+            {children}
+          </button>
+        );
+      }
+      return <a href={href} target="_blank" rel="noreferrer noopener" className="text-indigo-300 underline hover:text-indigo-200" {...props}>{children}</a>;
+    },
+    p: ({ node: _node, ...props }) => <p className="mb-3 last:mb-0 leading-relaxed" {...props} />,
+    ul: ({ node: _node, ...props }) => <ul className="list-disc pl-5 mb-3 space-y-1" {...props} />,
+    ol: ({ node: _node, ...props }) => <ol className="list-decimal pl-5 mb-3 space-y-1" {...props} />,
+    h1: ({ node: _node, ...props }) => <h3 className="text-lg font-semibold mt-4 mb-2" {...props} />,
+    h2: ({ node: _node, ...props }) => <h4 className="text-base font-semibold mt-4 mb-2" {...props} />,
+    h3: ({ node: _node, ...props }) => <h5 className="text-sm font-semibold mt-3 mb-1" {...props} />,
+    blockquote: ({ node: _node, ...props }) => <blockquote className="border-l-2 border-zinc-700 pl-3 text-zinc-400 my-3" {...props} />,
+    hr: () => <hr className="border-zinc-800 my-4" />,
+    table: ({ node: _node, ...props }) => (
+      <div className="overflow-x-auto my-3">
+        <table className="min-w-full text-xs border-collapse" {...props} />
+      </div>
+    ),
+    th: ({ node: _node, ...props }) => <th className="border border-zinc-700 bg-zinc-800/60 px-3 py-1.5 text-left font-semibold" {...props} />,
+    td: ({ node: _node, ...props }) => <td className="border border-zinc-800 px-3 py-1.5 align-top" {...props} />,
+  };
+
+  return (
+    <div className="text-sm break-words [&_.katex-display]:overflow-x-auto [&_.katex-display]:py-1">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false, strict: 'ignore' }], [rehypeHighlight, { detect: false }]]}
+        components={components}
+      >
+        {prepare(text, streaming, maxCitation)}
+      </ReactMarkdown>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Paper } from '../types';
+import { loadMedia } from '../services/storage';
+import { formatTimestamp } from '../services/media';
+import { parseYouTubeId } from '../services/urlIngest';
+import { X, Loader2 } from 'lucide-react';
+
+interface MediaPlayerProps {
+  paper: Paper; // a transcript source
+  time: number; // seconds to seek to; changes when another citation is opened
+  onClose: () => void;
+}
+
+/** Plays the recording behind a transcript source from the cited moment, next to its timestamped transcript. */
+export const MediaPlayer: React.FC<MediaPlayerProps> = ({ paper, time, onClose }) => {
+  const transcript = paper.transcript!;
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+  const [current, setCurrent] = useState(time);
+  // Hosted videos are embedded; seeking reloads the embed at the new start time
+  const videoId = transcript.url ? parseYouTubeId(transcript.url) : null;
+  const [embedStart, setEmbedStart] = useState(time);
+
+  useEffect(() => {
+    if (videoId) return;
+    let objectUrl: string | null = null;
+    setUrl(null);
+    setMissing(false);
+    loadMedia(paper.id)
+      .then(blob => {
+        if (!blob) return setMissing(true);
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => setMissing(true));
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [paper.id, videoId]);
+
+  const seek = (seconds: number) => {
+    setCurrent(seconds);
+    if (videoId) return setEmbedStart(seconds);
+    const media = mediaRef.current;
+    if (!media || media.readyState === 0) return; // seeks once the metadata has loaded
+    media.currentTime = seconds;
+    media.play().catch(() => { /* autoplay may be blocked until the user interacts */ });
+  };
+
+  useEffect(() => { seek(time); }, [time]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [current]);
+
+  const active = transcript.segments.findIndex((s, i) => current >= s.start && (current < s.end || i === transcript.segments.length - 1));
+
+  const mediaProps = {
+    src: url ?? undefined,
+    controls: true,
+    onLoadedMetadata: () => seek(time),
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrent(e.currentTarget.currentTime),
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-3xl max-h-[90vh] flex flex-col rounded-2xl p-6 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-lg font-semibold pr-10 mb-1">{paper.title}</h2>
+        <p className="text-xs text-zinc-500 mb-4">{transcript.fileName} · {formatTimestamp(transcript.duration)}</p>
+
+        {videoId ? (
+          <iframe
+            key={embedStart}
+            src={`https://www.youtube-nocookie.com/embed/${videoId}?start=${Math.floor(embedStart)}&autoplay=1`}
+            title={paper.title}
+            allow="autoplay; encrypted-media; picture-in-picture"
+            allowFullScreen
+            className="w-full aspect-video max-h-[45vh] rounded-lg bg-black mb-4"
+          />
+        ) : missing ? (
+          <p className="text-sm text-amber-400 mb-4">The recording is no longer stored; only the transcript is available.</p>
+        ) : !url ? (
+          <div className="flex items-center gap-2 text-sm text-zinc-500 mb-4"><Loader2 size={16} className="animate-spin" /> Loading recording...</div>
+        ) : transcript.kind === 'video' ? (
+          <video ref={el => { mediaRef.current = el; }} {...mediaProps} className="w-full max-h-[45vh] rounded-lg bg-black mb-4" />
+        ) : (
+          <audio ref={el => { mediaRef.current = el; }} {...mediaProps} className="w-full mb-4" />
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+          {transcript.segments.map((segment, i) => (
+            <button
+              key={i}
+              ref={i === active ? activeRef : undefined}
+              onClick={() => seek(segment.start)}
+              className={`w-full flex gap-3 text-left text-sm rounded-md px-2 py-1.5 transition-colors ${
+                i === active ? 'bg-indigo-500/15 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-800/60'
+              }`}
+            >
+              <span className="font-mono text-xs text-indigo-300 shrink-0 pt-0.5">{formatTimestamp(segment.start)}</span>
+              <span>{segment.text}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Paper } from '../types';
+import { getPaperText } from '../services/chunking';
+import { ReaderFocus } from '../services/citations';
+import { arxivAbsUrl } from '../services/arxiv';
+import { X, FileText, ExternalLink, MessageSquare, PlayCircle, BookOpen } from 'lucide-react';
+
+interface PaperDetailProps {
+  paper: Paper;
+  focus: ReaderFocus | null; // cited passage to jump to; changes when another citation is opened
+  onClose: () => void;
+  onAsk: (paper: Paper) => void;
+  onPlay?: () => void; // transcript sources only
+}
+
+interface ReaderSection {
+  page?: number;
+  start: number;
+  text: string;
+}
+
+// Pages of the extracted text, or one section for everything else
+const readerSections = (paper: Paper): ReaderSection[] => {
+  const text = getPaperText(paper);
+  if (!paper.fullText || !paper.pages || paper.pages.length === 0) return [{ start: 0, text }];
+  return paper.pages.map((page, i) => {
+    const end = paper.pages![i + 1]?.offset ?? text.length;
+    return { page: page.number, start: page.offset, text: text.slice(page.offset, end) };
+  });
+};
+
+/** Full metadata of one paper next to a reader of its text or PDF that opens at the cited passage. */
+export const PaperDetail: React.FC<PaperDetailProps> = ({ paper, focus, onClose, onAsk, onPlay }) => {
+  const [view, setView] = useState<'text' | 'pdf'>('text');
+  const readerRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef(new Map<number, HTMLElement>());
+  const sections = useMemo(() => readerSections(paper), [paper]);
+  const hasRange = focus?.start !== undefined && focus.end !== undefined;
+
+  useEffect(() => {
+    if (view !== 'text') return;
+    const target = hasRange ? readerRef.current?.querySelector('mark') : focus?.page !== undefined ? pageRefs.current.get(focus.page) : null;
+    target?.scrollIntoView({ block: hasRange ? 'center' : 'start' });
+  }, [focus, view, hasRange]);
+
+  // The cited range is marked within each page it overlaps
+  const renderSection = ({ start, text }: ReaderSection) => {
+    if (!hasRange) return text;
+    const from = Math.max(focus!.start! - start, 0);
+    const to = Math.min(focus!.end! - start, text.length);
+    if (from >= to) return text;
+    return (
+      <>
+        {text.slice(0, from)}
+        <mark className="bg-indigo-500/30 text-zinc-100 rounded-sm">{text.slice(from, to)}</mark>
+        {text.slice(to)}
+      </>
+    );
+  };
+
+  const metadata: [string, React.ReactNode][] = [
+    ['Authors', paper.authors.join(', ')],
+    ['Year', paper.year],
+    ['Venue', paper.venue],
+    ['Published', paper.published?.slice(0, 10)],
+    ['Updated', paper.updated && paper.updated !== paper.published ? paper.updated.slice(0, 10) : undefined],
+    ['arXiv', paper.arxivId && (
+      <a href={arxivAbsUrl(paper.arxivId)} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:text-indigo-200">
+        {paper.arxivId}{paper.version ? `v${paper.version}` : ''}
+      </a>
+    )],
+    ['DOI', paper.doi && (
+      <a href={`https://doi.org/${paper.doi}`} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:text-indigo-200 break-all">
+        {paper.doi}
+      </a>
+    )],
+    ['Categories', paper.categories?.join(', ')],
+    ['Tags', paper.tags?.join(', ')],
+    ['Citation key', paper.citationKey && <span className="font-mono">{paper.citationKey}</span>],
+    ['Added', paper.addedAt && new Date(paper.addedAt).toLocaleDateString()],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-6xl h-[90vh] flex flex-col rounded-2xl p-8 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-bold flex items-start gap-3 pr-8">
+          <BookOpen className="text-indigo-400 shrink-0 mt-1" /> {paper.title}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3 mt-3 mb-6">
+          <button
+            onClick={() => onAsk(paper)}
+            className="text-xs px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white flex items-center gap-1"
+          >
+            <MessageSquare size={14} /> Ask about this paper
+          </button>
+          {onPlay && (
+            <button onClick={onPlay} className="text-xs px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 flex items-center gap-1">
+              <PlayCircle size={14} /> Play recording
+            </button>
+          )}
+          {paper.link && (
+            <a href={paper.link} target="_blank" rel="noopener noreferrer" className="text-xs text-zinc-400 hover:text-indigo-300 flex items-center gap-1">
+              <ExternalLink size={14} /> Source
+            </a>
+          )}
+          {paper.pdfUrl && (
+            <a href={paper.pdfUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-zinc-400 hover:text-indigo-300 flex items-center gap-1">
+              <FileText size={14} /> PDF
+            </a>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 flex gap-6">
+          <div className="w-80 shrink-0 overflow-y-auto pr-2 space-y-5 text-sm">
+            <dl className="space-y-2 text-xs">
+              {metadata.filter(([, value]) => value).map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-zinc-600 font-mono uppercase text-[10px]">{label}</dt>
+                  <dd className="text-zinc-300">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            {paper.summary && (
+              <div>
+                <p className="text-[10px] font-mono uppercase text-zinc-600 mb-1">Summary</p>
+                <p className="text-zinc-300 leading-relaxed">{paper.summary}</p>
+              </div>
+            )}
+            {paper.highlights.length > 0 && (
+              <div>
+                <p className="text-[10px] font-mono uppercase text-zinc-600 mb-1">Highlights</p>
+                <ul className="list-disc pl-4 space-y-1 text-zinc-400">
+                  {paper.highlights.map((h, i) => <li key={i}>{h}</li>)}
+                </ul>
+              </div>
+            )}
+            {paper.abstract && paper.abstract !== paper.summary && (
+              <div>
+                <p className="text-[10px] font-mono uppercase text-zinc-600 mb-1">Abstract</p>
+                <p className="text-zinc-400 leading-relaxed">{paper.abstract}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col bg-zinc-950/50 border border-zinc-800 rounded-lg">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-zinc-800 text-xs">
+              <div className="flex gap-1">
+                {(['text', 'pdf'] as const).filter(v => v === 'text' || paper.pdfUrl).map(v => (
+                  <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    className={`px-3 py-1 rounded ${view === v ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                  >
+                    {v === 'text' ? (paper.transcript ? 'Transcript' : paper.fullText ? 'Full text' : 'Abstract') : 'PDF'}
+                  </button>
+                ))}
+              </div>
+              {focus && (
+                <span className="text-zinc-500">
+                  {hasRange ? 'Cited passage highlighted' : 'Cited'}{focus.page !== undefined ? ` · page ${focus.page}` : ''}
+                </span>
+              )}
+            </div>
+            {view === 'pdf' && paper.pdfUrl ? (
+              // The page fragment is honoured by the browsers' built-in PDF viewers
+              <iframe
+                key={focus?.page}
+                src={`${paper.pdfUrl}#page=${focus?.page ?? 1}`}
+                title={paper.title}
+                className="flex-1 w-full rounded-b-lg bg-white"
+              />
+            ) : (
+              <div ref={readerRef} className="flex-1 overflow-y-auto p-6 space-y-6">
+                {sections.map(section => (
+                  <section key={section.start}>
+                    {section.page !== undefined && (
+                      <p
+                        ref={el => { if (el) pageRefs.current.set(section.page!, el); else pageRefs.current.delete(section.page!); }}
+                        className="text-[10px] font-mono uppercase text-zinc-600 mb-2 border-b border-zinc-800 pb-1"
+                      >
+                        Page {section.page}
+                      </p>
+                    )}
+                    <p className="text-sm text-zinc-300 leading-relaxed whitespace-pre-wrap">{renderSection(section)}</p>
+                  </section>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Paper } from '../types';
+import { computeFacets, splitHighlights, FacetKey, FacetSelection, FACET_LABELS, EMPTY_FACETS, PaperSort, SORT_LABELS } from '../services/search';
+import { Search, SlidersHorizontal, Loader2, X, Tag, Plus } from 'lucide-react';
+
+interface PaperSearchProps {
+  papers: Paper[]; // the whole collection; facet counts are over it
+  query: string;
+  onQueryChange: (query: string) => void;
+  isSearching: boolean;
+  shown: number;
+  sort: PaperSort;
+  onSortChange: (sort: PaperSort) => void;
+  facets: FacetSelection;
+  onFacetsChange: (facets: FacetSelection) => void;
+}
+
+export const PaperSearch: React.FC<PaperSearchProps> = ({
+  papers, query, onQueryChange, isSearching, shown, sort, onSortChange, facets, onFacetsChange,
+}) => {
+  const [showFacets, setShowFacets] = useState(false);
+  const available = computeFacets(papers);
+  const active = (Object.keys(facets) as FacetKey[]).reduce((n, key) => n + facets[key].length, 0);
+  const filtering = query.trim() !== '' || active > 0;
+
+  const toggle = (key: FacetKey, value: string) => onFacetsChange({
+    ...facets,
+    [key]: facets[key].includes(value) ? facets[key].filter(v => v !== value) : [...facets[key], value],
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0 relative">
+          {isSearching
+            ? <Loader2 size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 animate-spin" />
+            : <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />}
+          <input
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') onQueryChange(''); }}
+            placeholder="Search titles, abstracts and full text"
+            className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-8 pr-7 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500"
+          />
+          {query && (
+            <button onClick={() => onQueryChange('')} className="absolute right-2 top-1/2 -translate-y-1/2 text-zinc-500 hover:text-zinc-300" title="Clear search">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFacets(!showFacets)}
+          className={`p-2 rounded-lg border transition-colors ${active > 0 ? 'border-indigo-500/50 text-indigo-300' : 'border-zinc-800 text-zinc-400 hover:text-indigo-300'}`}
+          title="Filters"
+        >
+          <SlidersHorizontal size={14} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs text-zinc-500">
+        <span>{filtering ? `${shown} of ${papers.length} papers` : `${papers.length} papers`}</span>
+        <div className="flex items-center gap-2">
+          {active > 0 && (
+            <button onClick={() => onFacetsChange(EMPTY_FACETS)} className="hover:text-zinc-300">Clear {active} filter(s)</button>
+          )}
+          <select
+            value={sort}
+            onChange={(e) => onSortChange(e.target.value as PaperSort)}
+            className="bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-zinc-300 focus:outline-none focus:border-indigo-500"
+            title="Sort by"
+          >
+            {(Object.keys(SORT_LABELS) as PaperSort[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {showFacets && (
+        <div className="bg-zinc-950/50 border border-zinc-800 rounded-lg p-3 space-y-3 max-h-64 overflow-y-auto">
+          {(Object.keys(available) as FacetKey[]).map(key => available[key].length > 0 && (
+            <div key={key}>
+              <p className="text-[10px] font-mono uppercase text-zinc-600 mb-1">{FACET_LABELS[key]}</p>
+              <div className="flex flex-wrap gap-1">
+                {available[key].map(({ value, count }) => (
+                  <button
+                    key={value}
+                    onClick={() => toggle(key, value)}
+                    className={`text-[11px] px-2 py-0.5 rounded border transition-colors ${
+                      facets[key].includes(value)
+                        ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-200'
+                        : 'border-zinc-800 text-zinc-400 hover:border-zinc-600'
+                    }`}
+                  >
+                    {value} <span className="text-zinc-600">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** `text` with the query terms marked. */
+export const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {splitHighlights(text, terms).map((part, i) => part.match
+      ? <mark key={i} className="bg-indigo-500/30 text-inherit rounded-sm">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+  </>
+);
+
+interface PaperTagsProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export const PaperTags: React.FC<PaperTagsProps> = ({ tags, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const submit = () => {
+    const tag = draft?.trim();
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) onChange([...tags, tag]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map(tag => (
+        <span key={tag} className="text-[10px] bg-indigo-500/10 text-indigo-300 border border-indigo-500/20 px-2 py-0.5 rounded flex items-center gap-1">
+          <Tag size={10} /> {tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="hover:text-red-400" title="Remove tag"><X size={10} /></button>
+        </span>
+      ))}
+      {draft === null ? (
+        <button onClick={() => setDraft('')} className="text-[10px] text-zinc-600 hover:text-indigo-300 flex items-center gap-0.5" title="Add tag">
+          <Plus size={10} /> tag
+        </button>
+      ) : (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submit();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          onBlur={submit}
+          placeholder="tag"
+          className="w-24 bg-zinc-950 border border-zinc-800 rounded px-2 py-0.5 text-[10px] text-zinc-200 focus:outline-none focus:border-indigo-500"
+        />
+      )}
+    </div>
+  );
+};
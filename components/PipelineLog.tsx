@@ -0,0 +1,59 @@
+import React from 'react';
+import { JobStatus, ProcessingLog } from '../types';
+import { CheckCircle2, Loader2, XCircle, MinusCircle, Circle } from 'lucide-react';
+
+export const JOB_BADGES: Record<JobStatus, { label: string; color: string }> = {
+  running: { label: 'Running', color: 'bg-indigo-500/20 text-indigo-400' },
+  completed: { label: 'Completed', color: 'bg-green-500/20 text-green-400' },
+  failed: { label: 'Failed', color: 'bg-red-500/20 text-red-400' },
+  cancelled: { label: 'Cancelled', color: 'bg-zinc-700/50 text-zinc-400' },
+};
+
+interface PipelineLogProps {
+  logs: ProcessingLog[];
+}
+
+const formatDuration = (log: ProcessingLog) =>
+  log.startedAt && log.finishedAt ? `${((log.finishedAt - log.startedAt) / 1000).toFixed(1)}s` : null;
+
+const StatusIcon: React.FC<{ status: ProcessingLog['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'completed': return <CheckCircle2 className="text-green-400 w-5 h-5 shrink-0" />;
+    case 'active': return <Loader2 className="text-indigo-400 w-5 h-5 shrink-0 animate-spin" />;
+    case 'failed': return <XCircle className="text-red-400 w-5 h-5 shrink-0" />;
+    case 'skipped': return <MinusCircle className="text-zinc-600 w-5 h-5 shrink-0" />;
+    default: return <Circle className="text-zinc-700 w-5 h-5 shrink-0" />;
+  }
+};
+
+export const PipelineLog: React.FC<PipelineLogProps> = ({ logs }) => (
+  <div className="space-y-5">
+    {logs.map(log => (
+      <div key={log.id} className="flex items-start gap-4">
+        <div className="pt-0.5"><StatusIcon status={log.status} /></div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-4">
+            <span className={`font-mono text-sm ${
+              log.status === 'active' ? 'text-indigo-200'
+              : log.status === 'failed' ? 'text-red-300'
+              : log.status === 'pending' || log.status === 'skipped' ? 'text-zinc-500'
+              : 'text-zinc-300'
+            }`}>
+              {log.step}
+            </span>
+            <span className="text-xs text-zinc-600 font-mono shrink-0">
+              {log.status === 'active' && log.progress ? `${log.progress}%` : formatDuration(log)}
+            </span>
+          </div>
+          {log.status === 'active' && (
+            <div className="h-1 mt-2 bg-zinc-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${log.progress ?? 0}%` }} />
+            </div>
+          )}
+          {log.error && <p className="text-xs text-red-400 mt-1">{log.error}</p>}
+          {log.detail && !log.error && <p className="text-xs text-zinc-500 mt-1">{log.detail}</p>}
+        </div>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { LLMSettings, MODEL_SUGGESTIONS, TASK_LABELS } from '../services/settings';
+import { LLMTask, PROVIDER_IDS, ProviderId } from '../services/providers';
+import { Button, Input } from './UI';
+import { Settings, X } from 'lucide-react';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  settings: LLMSettings;
+  onClose: () => void;
+  onSave: (settings: LLMSettings) => void;
+}
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  ollama: 'Ollama',
+  mock: 'Mock (offline)',
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+
+  // Start from the saved settings every time the panel opens
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const setTask = (task: LLMTask, patch: Partial<LLMSettings['tasks'][LLMTask]>) =>
+    setDraft(d => ({ ...d, tasks: { ...d.tasks, [task]: { ...d.tasks[task], ...patch } } }));
+
+  const providersFor = (task: LLMTask) =>
+    task === 'live' ? PROVIDER_IDS.filter(p => p === 'gemini')
+      : task === 'transcribe' ? PROVIDER_IDS.filter(p => p !== 'ollama') // Ollama has no audio input
+      : PROVIDER_IDS;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="glass-panel w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl p-8 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 mb-6">
+          <Settings className="text-indigo-400" size={20} />
+          Model Providers
+        </h2>
+
+        <section className="space-y-3 mb-8">
+          <p className="text-xs text-zinc-500 font-mono uppercase">Connections</p>
+          <Input
+            type="password"
+            value={draft.gemini.apiKey}
+            onChange={(e) => setDraft({ ...draft, gemini: { apiKey: e.target.value } })}
+            placeholder="Gemini API key (defaults to GEMINI_API_KEY from .env.local)"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              value={draft.openai.baseUrl}
+              onChange={(e) => setDraft({ ...draft, openai: { ...draft.openai, baseUrl: e.target.value } })}
+              placeholder="OpenAI-compatible base URL"
+            />
+            <Input
+              type="password"
+              value={draft.openai.apiKey}
+              onChange={(e) => setDraft({ ...draft, openai: { ...draft.openai, apiKey: e.target.value } })}
+              placeholder="API key (optional for local servers)"
+            />
+          </div>
+          <Input
+            value={draft.ollama.baseUrl}
+            onChange={(e) => setDraft({ ...draft, ollama: { baseUrl: e.target.value } })}
+            placeholder="Ollama URL, e.g. http://localhost:11434"
+          />
+        </section>
+
+        <section className="space-y-3 mb-8">
+          <p className="text-xs text-zinc-500 font-mono uppercase">Provider & model per task</p>
+          {(Object.keys(TASK_LABELS) as LLMTask[]).map(task => (
+            <div key={task} className="grid grid-cols-[1fr_160px_1fr] gap-3 items-center">
+              <span className="text-sm text-zinc-300">{TASK_LABELS[task]}</span>
+              <select
+                value={draft.tasks[task].provider}
+                onChange={(e) => {
+                  const provider = e.target.value as ProviderId;
+                  setTask(task, { provider, model: MODEL_SUGGESTIONS[provider][task]?.[0] ?? '' });
+                }}
+                className="bg-zinc-900/50 border border-zinc-800 rounded-lg px-3 py-3 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500"
+              >
+                {providersFor(task).map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+              </select>
+              <Input
+                value={draft.tasks[task].model}
+                onChange={(e) => setTask(task, { model: e.target.value })}
+                list={`models-${task}`}
+                placeholder="Model name"
+              />
+              <datalist id={`models-${task}`}>
+                {(MODEL_SUGGESTIONS[draft.tasks[task].provider][task] || []).map(m => <option key={m} value={m} />)}
+              </datalist>
+            </div>
+          ))}
+          <p className="text-xs text-zinc-600">Changing the embedding model re-indexes the active collection.</p>
+        </section>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => onSave(draft)}>Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
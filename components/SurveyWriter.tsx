@@ -0,0 +1,292 @@
+import React, { useRef, useState } from 'react';
+import { JobStatus, Paper, PipelineRun, ProcessingLog } from '../types';
+import { DroppedItem } from '../services/structured';
+import { downloadFile } from '../services/download';
+import { EmbeddingProvider } from '../services/embeddings';
+import { PipelineJob } from '../services/pipeline';
+import type { TaskTarget } from '../services/providers';
+import {
+  SurveyOutline, SurveySection, SurveyState, WrittenSection,
+  createSurveyState, createSurveySteps, formatSurveyBibTeX, formatSurveyLatex, formatSurveyMarkdown, proposeOutline,
+} from '../services/survey';
+import { VectorStore } from '../services/vectorStore';
+import { Markdown } from './Markdown';
+import { PipelineLog, JOB_BADGES } from './PipelineLog';
+import { Button, Input, Badge } from './UI';
+import { ArrowDown, ArrowUp, Download, FileText, Loader2, Plus, RotateCcw, Trash2, X, XCircle } from 'lucide-react';
+
+interface SurveyWriterProps {
+  isOpen: boolean;
+  collectionId: string;
+  collectionName: string;
+  papers: Paper[];      // the papers the survey covers
+  allPapers: Paper[];   // resolves the citations of a survey written earlier
+  writer: TaskTarget;
+  store: VectorStore;
+  embedder: EmbeddingProvider;
+  onRunFinished: (run: PipelineRun) => void;
+  onClose: () => void;
+}
+
+const DroppedList: React.FC<{ items: DroppedItem[]; label: string }> = ({ items, label }) => items.length === 0 ? null : (
+  <details className="text-xs text-zinc-500">
+    <summary className="cursor-pointer hover:text-zinc-300">{label} ({items.length})</summary>
+    <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+      {items.map((item, i) => (
+        <li key={i}><span className="text-zinc-400">{item.label}</span> — {item.reasons.join('; ')}</li>
+      ))}
+    </ul>
+  </details>
+);
+
+/** Plans a related-work survey over the collection, lets the outline be edited, then writes it section by section. */
+export const SurveyWriter: React.FC<SurveyWriterProps> = ({
+  isOpen, collectionId, collectionName, papers, allPapers, writer, store, embedder, onRunFinished, onClose,
+}) => {
+  const [topic, setTopic] = useState('Related Work');
+  const [outline, setOutline] = useState<SurveyOutline | null>(null);
+  const [outlineDropped, setOutlineDropped] = useState<DroppedItem[]>([]);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [written, setWritten] = useState<Record<string, WrittenSection>>({});
+  const [logs, setLogs] = useState<ProcessingLog[]>([]);
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [writeDropped, setWriteDropped] = useState<DroppedItem[]>([]);
+  const jobRef = useRef<{ job: PipelineJob<SurveyState>; runId: string; startedAt: number } | null>(null);
+
+  if (!isOpen) return null;
+
+  const isWriting = jobStatus === 'running';
+  const paperTitle = (paperId: string) => allPapers.find(p => p.id === paperId)?.title ?? 'Deleted paper';
+  const hasText = outline !== null && outline.sections.some(s => written[s.id]);
+
+  const handlePlan = async () => {
+    setIsPlanning(true);
+    setPlanError(null);
+    try {
+      const result = await proposeOutline(papers, topic.trim() || 'Related Work', writer);
+      if (result.outline.sections.length === 0) throw new Error('The model proposed no valid sections.');
+      setOutline(result.outline);
+      setOutlineDropped(result.dropped);
+      setWritten({});
+      setLogs([]);
+      setJobStatus(null);
+    } catch (error) {
+      console.error("Failed to propose an outline", error);
+      setPlanError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // --- Outline editing ---
+
+  const updateSection = (id: string, patch: Partial<SurveySection>) =>
+    setOutline(o => o && { ...o, sections: o.sections.map(s => s.id === id ? { ...s, ...patch } : s) });
+
+  const moveSection = (index: number, offset: number) => setOutline(o => {
+    if (!o) return o;
+    const sections = [...o.sections];
+    const [moved] = sections.splice(index, 1);
+    sections.splice(index + offset, 0, moved);
+    return { ...o, sections };
+  });
+
+  const removeSection = (id: string) => setOutline(o => o && { ...o, sections: o.sections.filter(s => s.id !== id) });
+
+  const addSection = () => setOutline(o => o && {
+    ...o,
+    sections: [...o.sections, { id: crypto.randomUUID(), heading: 'New section', brief: '', paperIds: [] }],
+  });
+
+  // --- Writing ---
+
+  // Runs (or retries) the writing job and records it in the collection's pipeline history
+  const runJob = async (start: () => Promise<JobStatus>) => {
+    const current = jobRef.current;
+    if (!current || !outline) return;
+    const status = await start();
+    setWriteDropped([...current.job.state.dropped]);
+    if (status === 'running') return;
+    onRunFinished({
+      id: current.runId,
+      collectionId,
+      title: `Survey: ${outline.title}`,
+      startedAt: current.startedAt,
+      finishedAt: Date.now(),
+      status,
+      logs: current.job.logs,
+    });
+  };
+
+  const handleWrite = () => {
+    if (!outline) return;
+    const steps = createSurveySteps(outline, {
+      papers: allPapers,
+      writer,
+      store,
+      embedder,
+      onSection: (section) => setWritten(prev => ({ ...prev, [section.sectionId]: section })),
+    });
+    const job = new PipelineJob(steps, createSurveyState(outline), (entries, status) => {
+      setLogs(entries);
+      setJobStatus(status);
+    });
+    jobRef.current = { job, runId: crypto.randomUUID(), startedAt: Date.now() };
+    setWritten({});
+    setWriteDropped([]);
+    runJob(() => job.run());
+  };
+
+  const handleRetry = () => {
+    const job = jobRef.current?.job;
+    if (job) runJob(() => job.retry());
+  };
+
+  const handleExport = (format: 'markdown' | 'latex' | 'bibtex') => {
+    if (!outline) return;
+    const safeName = (outline.title || collectionName).replace(/[^\w.-]+/g, '_') || 'survey';
+    if (format === 'markdown') downloadFile(`${safeName}.md`, formatSurveyMarkdown(outline, written, allPapers), 'text/markdown');
+    if (format === 'latex') downloadFile(`${safeName}.tex`, formatSurveyLatex(outline, written, allPapers, safeName), 'application/x-tex');
+    if (format === 'bibtex') downloadFile(`${safeName}.bib`, formatSurveyBibTeX(outline, written, allPapers), 'application/x-bibtex');
+  };
+
+  const canWrite = outline !== null && outline.sections.length > 0 && outline.sections.every(s => s.heading.trim() && s.paperIds.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-4xl max-h-[90vh] flex flex-col rounded-2xl p-8 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 mb-1">
+          <FileText className="text-indigo-400" size={20} />
+          Survey Writer
+        </h2>
+        <p className="text-xs text-zinc-500 mb-6">
+          {collectionName} · {papers.length} {papers.length === 1 ? 'paper' : 'papers'} in scope · select papers in the Knowledge Base to narrow it
+        </p>
+
+        <div className="flex-1 overflow-y-auto pr-1 space-y-8">
+          <section className="space-y-3">
+            <p className="text-xs text-zinc-500 font-mono uppercase">1. Outline</p>
+            <div className="flex gap-3">
+              <Input value={topic} onChange={(e) => setTopic(e.target.value)} placeholder="Survey title" disabled={isPlanning || isWriting} />
+              <Button onClick={handlePlan} disabled={papers.length === 0 || isPlanning || isWriting} className="shrink-0">
+                {isPlanning ? <Loader2 size={16} className="animate-spin" /> : null}
+                {outline ? 'Propose again' : 'Propose outline'}
+              </Button>
+            </div>
+            {planError && <p className="text-xs text-red-400">{planError}</p>}
+            <DroppedList items={outlineDropped} label="Outline problems" />
+
+            {outline && (
+              <fieldset disabled={isWriting} className="space-y-3 disabled:opacity-60">
+                <Input value={outline.title} onChange={(e) => setOutline({ ...outline, title: e.target.value })} className="font-medium" />
+                {outline.sections.map((section, i) => (
+                  <div key={section.id} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-zinc-500 font-mono w-5">{i + 1}.</span>
+                      <Input value={section.heading} onChange={(e) => updateSection(section.id, { heading: e.target.value })} className="!py-1.5 text-sm" />
+                      <button onClick={() => moveSection(i, -1)} disabled={i === 0} className="p-1 text-zinc-500 hover:text-zinc-200 disabled:opacity-30" title="Move up">
+                        <ArrowUp size={14} />
+                      </button>
+                      <button onClick={() => moveSection(i, 1)} disabled={i === outline.sections.length - 1} className="p-1 text-zinc-500 hover:text-zinc-200 disabled:opacity-30" title="Move down">
+                        <ArrowDown size={14} />
+                      </button>
+                      <button onClick={() => removeSection(section.id)} className="p-1 text-zinc-500 hover:text-red-400" title="Remove section">
+                        <Trash2 size={14} />
+                      </button>
+                      {written[section.id] && <Badge color="bg-green-500/20 text-green-400">written</Badge>}
+                    </div>
+                    <textarea
+                      value={section.brief}
+                      onChange={(e) => updateSection(section.id, { brief: e.target.value })}
+                      rows={2}
+                      placeholder="What this section discusses"
+                      className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-300 focus:outline-none focus:border-indigo-500"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      {section.paperIds.map(id => (
+                        <span key={id} className="flex items-center gap-1 text-[11px] bg-zinc-800 text-zinc-300 pl-2 pr-1 py-0.5 rounded border border-zinc-700 max-w-[16rem]">
+                          <span className="truncate">{paperTitle(id)}</span>
+                          <button onClick={() => updateSection(section.id, { paperIds: section.paperIds.filter(p => p !== id) })} className="text-zinc-500 hover:text-red-400 shrink-0">
+                            <X size={12} />
+                          </button>
+                        </span>
+                      ))}
+                      {papers.some(p => !section.paperIds.includes(p.id)) && (
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && updateSection(section.id, { paperIds: [...section.paperIds, e.target.value] })}
+                          className="bg-zinc-900/50 border border-zinc-800 rounded px-2 py-0.5 text-[11px] text-zinc-400 focus:outline-none focus:border-indigo-500 max-w-[12rem]"
+                        >
+                          <option value="">Add paper…</option>
+                          {papers.filter(p => !section.paperIds.includes(p.id)).map(p => (
+                            <option key={p.id} value={p.id}>{p.title}</option>
+                          ))}
+                        </select>
+                      )}
+                      {section.paperIds.length === 0 && <span className="text-[11px] text-amber-400">Needs at least one paper</span>}
+                    </div>
+                  </div>
+                ))}
+                <button onClick={addSection} className="text-xs text-zinc-500 hover:text-indigo-300 transition-colors flex items-center gap-1">
+                  <Plus size={14} /> Add section
+                </button>
+              </fieldset>
+            )}
+          </section>
+
+          {outline && (
+            <section className="space-y-4">
+              <div className="flex items-center gap-3">
+                <p className="text-xs text-zinc-500 font-mono uppercase">2. Survey</p>
+                {jobStatus && <Badge color={JOB_BADGES[jobStatus].color}>{JOB_BADGES[jobStatus].label}</Badge>}
+                <div className="ml-auto flex gap-2">
+                  {isWriting ? (
+                    <Button variant="danger" className="!py-1.5 text-xs" onClick={() => jobRef.current?.job.cancel()}>
+                      <XCircle size={14} /> Cancel
+                    </Button>
+                  ) : (
+                    <>
+                      {(jobStatus === 'failed' || jobStatus === 'cancelled') && (
+                        <Button variant="secondary" className="!py-1.5 text-xs" onClick={handleRetry}>
+                          <RotateCcw size={14} /> Retry failed sections
+                        </Button>
+                      )}
+                      <Button className="!py-1.5 text-xs" onClick={handleWrite} disabled={!canWrite}>
+                        {hasText ? 'Rewrite survey' : 'Write survey'}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {logs.length > 0 && <PipelineLog logs={logs} />}
+              <DroppedList items={writeDropped} label="Dropped paragraphs" />
+
+              {hasText && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Button variant="secondary" className="!px-3 !py-1.5 text-xs" onClick={() => handleExport('markdown')} disabled={isWriting}>
+                      <Download size={14} /> Markdown
+                    </Button>
+                    <Button variant="secondary" className="!px-3 !py-1.5 text-xs" onClick={() => handleExport('latex')} disabled={isWriting}>
+                      <Download size={14} /> LaTeX
+                    </Button>
+                    <Button variant="secondary" className="!px-3 !py-1.5 text-xs" onClick={() => handleExport('bibtex')} disabled={isWriting}>
+                      <Download size={14} /> BibTeX
+                    </Button>
+                  </div>
+                  <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6 text-sm text-zinc-300">
+                    <Markdown text={formatSurveyMarkdown(outline, written, allPapers)} />
+                  </div>
+                </>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ChatThread } from '../types';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+
+interface ThreadListProps {
+  threads: ChatThread[];
+  activeId: string | null;
+  disabled: boolean; // while a reply is streaming
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ThreadList: React.FC<ThreadListProps> = ({ threads, activeId, disabled, onSelect, onCreate, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const submit = () => {
+    if (editingId && draft.trim()) onRename(editingId, draft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-60 border-r border-zinc-800 bg-zinc-900/40 flex flex-col">
+      <div className="p-3 border-b border-zinc-800">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 text-sm py-2 rounded-lg border border-zinc-800 text-zinc-300 hover:border-indigo-500/50 hover:text-indigo-300 transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} /> New chat
+        </button>
+      </div>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {threads.map(thread => (
+          <li key={thread.id}>
+            {editingId === thread.id ? (
+              <div className="flex items-center gap-1">
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submit();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                />
+                <button onClick={submit} className="p-1 text-green-400 hover:text-green-300" title="Rename"><Check size={14} /></button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-zinc-500 hover:text-zinc-300" title="Cancel"><X size={14} /></button>
+              </div>
+            ) : (
+              <div
+                className={`group flex items-center gap-2 rounded-lg px-2 py-2 text-xs cursor-pointer transition-colors ${
+                  thread.id === activeId ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-800/50'
+                } ${disabled ? 'pointer-events-none opacity-60' : ''}`}
+                onClick={() => onSelect(thread.id)}
+              >
+                <MessageSquare size={14} className="shrink-0 text-zinc-500" />
+                <span className="flex-1 truncate">{thread.title}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setDraft(thread.title); setEditingId(thread.id); }}
+                  className="p-0.5 text-zinc-500 hover:text-indigo-300 opacity-0 group-hover:opacity-100"
+                  title="Rename"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); if (window.confirm(`Delete "${thread.title}"?`)) onDelete(thread.id); }}
+                  className="p-0.5 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  title="Delete chat"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TrainingRun } from '../types';
+import { TRAINING_ACCEPT, TrainingSeries, availableSeries, canWatchFiles } from '../services/training';
+import { Button, Input, Badge } from './UI';
+import { Activity, Eye, EyeOff, Trash2, Upload, X } from 'lucide-react';
+
+interface TrainingRunsProps {
+  isOpen: boolean;
+  collectionName: string;
+  runs: TrainingRun[];
+  watchedIds: string[]; // runs whose log file is being polled
+  onImport: (file: File, adapter: string) => Promise<string | null>; // returns an error message on failure
+  onWatch: (adapter: string) => Promise<string | null>;
+  onStopWatching: (runId: string) => void;
+  onDelete: (runId: string) => void;
+  onClose: () => void;
+}
+
+const SERIES: Record<TrainingSeries, { label: string; color: string; axis: 'loss' | 'accuracy' | 'lr' }> = {
+  trainLoss: { label: 'Train loss', color: '#818cf8', axis: 'loss' },
+  evalLoss: { label: 'Eval loss', color: '#f472b6', axis: 'loss' },
+  accuracy: { label: 'Accuracy', color: '#34d399', axis: 'accuracy' },
+  learningRate: { label: 'Learning rate', color: '#fbbf24', axis: 'lr' },
+};
+
+const SOURCE_LABELS: Record<TrainingRun['source'], string> = {
+  trainer_state: 'trainer_state.json',
+  csv: 'CSV log',
+  jsonl: 'JSONL log',
+};
+
+const formatValue = (value: number) => (Math.abs(value) < 0.001 && value !== 0 ? value.toExponential(2) : value.toFixed(4));
+
+/** Imported fine-tuning runs of a collection's adapter, with their metric curves. */
+export const TrainingRuns: React.FC<TrainingRunsProps> = ({
+  isOpen, collectionName, runs, watchedIds, onImport, onWatch, onStopWatching, onDelete, onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [adapter, setAdapter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [hidden, setHidden] = useState<Set<TrainingSeries>>(new Set(['learningRate']));
+  const [xAxis, setXAxis] = useState<'step' | 'epoch'>('step');
+
+  // Follow the newest run unless one was picked
+  useEffect(() => {
+    if (!runs.some(r => r.id === selectedId)) setSelectedId(runs[0]?.id ?? null);
+  }, [runs, selectedId]);
+
+  if (!isOpen) return null;
+
+  const run = runs.find(r => r.id === selectedId) ?? null;
+  const series = run ? availableSeries(run.metrics) : [];
+  const hasEpochs = !!run?.metrics.some(m => m.epoch !== undefined);
+  const x = hasEpochs ? xAxis : 'step';
+  const data = run ? run.metrics.filter(m => m[x] !== undefined) : [];
+  const shown = series.filter(s => !hidden.has(s));
+  const axes = new Set(shown.map(s => SERIES[s].axis));
+
+  const submit = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    const message = await action();
+    setBusy(false);
+    setError(message);
+    if (!message) setAdapter('');
+  };
+
+  const toggleSeries = (key: TrainingSeries) => setHidden(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-2xl p-8 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 mb-6">
+          <Activity className="text-indigo-400" size={20} />
+          Training Runs
+        </h2>
+
+        <section className="space-y-3 mb-6">
+          <p className="text-xs text-zinc-500 font-mono uppercase">Import a run</p>
+          <div className="flex gap-2">
+            <Input
+              value={adapter}
+              onChange={(e) => setAdapter(e.target.value)}
+              placeholder="Adapter name (defaults to the checkpoint or file name)"
+              className="!py-2 text-sm"
+              disabled={busy}
+            />
+            <label className={`shrink-0 flex items-center gap-2 text-sm px-4 rounded-lg bg-zinc-800 border border-zinc-700 text-zinc-200 transition-colors ${
+              busy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-zinc-700'
+            }`}>
+              <Upload size={16} /> Import file
+              <input
+                type="file"
+                accept={TRAINING_ACCEPT}
+                className="hidden"
+                disabled={busy}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) submit(() => onImport(file, adapter));
+                }}
+              />
+            </label>
+            {canWatchFiles() && (
+              <Button variant="secondary" className="shrink-0 text-sm" disabled={busy} onClick={() => submit(() => onWatch(adapter))} title="Re-read a log file while training is running">
+                <Eye size={16} /> Watch log file
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-zinc-500">
+            Hugging Face <code>trainer_state.json</code>, or a CSV / JSONL metric log with columns such as step, epoch, loss, eval_loss, accuracy and learning_rate.
+          </p>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </section>
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-zinc-500">No training runs imported for {collectionName} yet.</p>
+        ) : (
+          <div className="flex gap-6">
+            <ul className="w-56 shrink-0 space-y-1">
+              {runs.map(r => (
+                <li key={r.id}>
+                  <button
+                    onClick={() => setSelectedId(r.id)}
+                    className={`w-full text-left text-xs px-3 py-2 rounded-lg transition-colors ${
+                      r.id === run?.id ? 'bg-indigo-500/15 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-800'
+                    }`}
+                  >
+                    <span className="block font-medium truncate">{r.adapter}</span>
+                    <span className="block text-zinc-500 truncate">
+                      {new Date(r.importedAt).toLocaleDateString()} · {r.metrics.length} points{watchedIds.includes(r.id) ? ' · live' : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {run && (
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-3 mb-1">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold truncate">{run.adapter}</h3>
+                    <p className="text-xs text-zinc-500">
+                      Answers <span className="text-zinc-300">{collectionName}</span> · {SOURCE_LABELS[run.source]} {run.fileName}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {watchedIds.includes(run.id) && (
+                      <>
+                        <Badge color="bg-green-500/20 text-green-400">Watching</Badge>
+                        <Button variant="secondary" className="!px-2 !py-1" onClick={() => onStopWatching(run.id)} title="Stop watching the log file">
+                          <EyeOff size={14} />
+                        </Button>
+                      </>
+                    )}
+                    <Button variant="danger" className="!px-2 !py-1" onClick={() => onDelete(run.id)} title="Delete run">
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-xs text-zinc-600 mb-4">Last updated {new Date(run.updatedAt).toLocaleString()}</p>
+
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  {series.map(key => (
+                    <button
+                      key={key}
+                      onClick={() => toggleSeries(key)}
+                      className={`text-xs px-2 py-1 rounded-md border transition-colors ${
+                        hidden.has(key) ? 'border-zinc-800 text-zinc-600' : 'border-zinc-700 text-zinc-200'
+                      }`}
+                    >
+                      <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: SERIES[key].color }} />
+                      {SERIES[key].label}
+                    </button>
+                  ))}
+                  {hasEpochs && (
+                    <div className="ml-auto flex text-xs rounded-md border border-zinc-700 overflow-hidden">
+                      {(['step', 'epoch'] as const).map(option => (
+                        <button
+                          key={option}
+                          onClick={() => setXAxis(option)}
+                          className={`px-2 py-1 transition-colors ${x === option ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                        >
+                          by {option}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="h-72 w-full bg-zinc-900/30 rounded-xl border border-zinc-800 p-4">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data}>
+                      <XAxis dataKey={x} type="number" domain={['dataMin', 'dataMax']} stroke="#52525b" tick={{ fontSize: 11 }} />
+                      {/* Losses and accuracy differ in scale, the learning rate by orders of magnitude */}
+                      <YAxis yAxisId="loss" hide={!axes.has('loss')} domain={['auto', 'auto']} stroke="#52525b" tick={{ fontSize: 11 }} width={40} />
+                      <YAxis yAxisId="accuracy" orientation="right" hide={!axes.has('accuracy')} domain={['auto', 'auto']} stroke="#52525b" tick={{ fontSize: 11 }} width={40} />
+                      <YAxis yAxisId="lr" hide domain={['auto', 'auto']} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a' }}
+                        labelFormatter={(value) => `${x === 'step' ? 'Step' : 'Epoch'} ${value}`}
+                        formatter={(value) => (typeof value === 'number' ? formatValue(value) : value)}
+                      />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      {shown.map(key => (
+                        <Line
+                          key={key}
+                          yAxisId={SERIES[key].axis}
+                          type="monotone"
+                          dataKey={key}
+                          name={SERIES[key].label}
+                          stroke={SERIES[key].color}
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls // eval points are logged less often than train points
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
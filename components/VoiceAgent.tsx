@@ -1,212 +1,391 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { getLiveClient, decodeAudioData, encodeAudio, decodeAudio } from '../services/gemini';
-import { LiveServerMessage, Modality } from '@google/genai';
-import { Mic, MicOff, X, Loader2, Radio } from 'lucide-react';
+import { decodeAudioData, encodeAudio, decodeAudio } from '../services/audio';
+import { CAPTURE_SAMPLE_RATE, CaptureFrame, MicCapture, listMicrophones } from '../services/micCapture';
+import { TaskTarget } from '../services/providers';
+import { VOICE_TOOLS, VoiceToolCall, describeVoiceTool } from '../services/voiceTools';
+import { LiveServerMessage, Modality, Session } from '@google/genai';
+import { Mic, MicOff, X, Loader2, Radio, RotateCcw, WifiOff } from 'lucide-react';
+
+// One finished question and answer of the live session, as transcribed
+export interface VoiceTurn {
+  question: string;
+  answer: string;
+  interrupted: boolean; // the user spoke over the answer
+}
 
 interface VoiceAgentProps {
   isOpen: boolean;
   onClose: () => void;
-  contextSummary: string;
+  live: TaskTarget;
+  contextSummary: string; // paper catalogue, already fitted to the live model's context budget
+  onTurn: (turn: VoiceTurn) => void;
+  onToolCall: (call: VoiceToolCall) => Promise<Record<string, unknown>>;
 }
 
-export const VoiceAgent: React.FC<VoiceAgentProps> = ({ isOpen, onClose, contextSummary }) => {
-  const [isConnected, setIsConnected] = useState(false);
+interface Caption {
+  id: number;
+  role: 'user' | 'model';
+  text: string;
+}
+
+/*
+ * connecting -> open -> (dropped or told to go away) -> reconnecting -> open ...
+ * After MAX_RECONNECTS failed attempts the session ends up closed until the user reconnects.
+ * A failed state means the session cannot start at all (no microphone, no live support).
+ */
+type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'failed';
+
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  connecting: 'Connecting...',
+  open: 'Listening...',
+  reconnecting: 'Reconnecting...',
+  closed: 'Disconnected',
+  failed: 'Unavailable',
+};
+
+const MAX_RECONNECTS = 5;
+const OUTPUT_SAMPLE_RATE = 24000;
+
+// RMS to a 0-1 meter value over a 60 dB range
+const meterLevel = (rms: number) => Math.max(0, Math.min(1, 1 + (20 * Math.log10(rms || 1e-6)) / 60));
+
+export const VoiceAgent: React.FC<VoiceAgentProps> = ({ isOpen, onClose, live, contextSummary, onTurn, onToolCall }) => {
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
+  const [error, setError] = useState<string | null>(null);
   const [isMuted, setIsMuted] = useState(false);
-  const [status, setStatus] = useState("Initializing...");
-  
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  
-  // Audio Refs
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const [level, setLevel] = useState(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [captions, setCaptions] = useState<Caption[]>([]);
+  const [lookups, setLookups] = useState<{ id: string; label: string }[]>([]);
+  const captionsEndRef = useRef<HTMLDivElement>(null);
+
+  // Transcripts of the turn in progress; the session callbacks outlive renders, so the latest onTurn is read from a ref
+  const turnRef = useRef({ question: '', answer: '', interrupted: false });
+  const onTurnRef = useRef(onTurn);
+  onTurnRef.current = onTurn;
+  const onToolCallRef = useRef(onToolCall);
+  onToolCallRef.current = onToolCall;
+  // The catalogue changes with every ingestion or tag edit; it is read on (re)connect instead of restarting the session
+  const contextSummaryRef = useRef(contextSummary);
+  contextSummaryRef.current = contextSummary;
+  const cancelledCallsRef = useRef(new Set<string>());
+
+  // Session: each connect() bumps the generation, so callbacks of replaced sessions are ignored
+  const sessionRef = useRef<Session | null>(null);
+  const connectionRef = useRef<ConnectionState>('connecting');
+  const generationRef = useRef(0);
+  const resumeHandleRef = useRef<string | undefined>(undefined);
+  const reconnectsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Audio
+  const captureRef = useRef<MicCapture | null>(null);
+  const mutedRef = useRef(false);
+  const sendingRef = useRef(false); // audio was sent since the last end-of-stream
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const outputNodeRef = useRef<GainNode | null>(null);
   const nextStartTimeRef = useRef<number>(0);
-  const sessionRef = useRef<any>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
-  const cleanup = () => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+  const updateConnection = (state: ConnectionState) => {
+    connectionRef.current = state;
+    setConnection(state);
+  };
+
+  // Consecutive transcription fragments of the same speaker extend one caption
+  const appendCaption = (role: Caption['role'], text: string) => setCaptions(prev => {
+    const last = prev[prev.length - 1];
+    if (last?.role === role) return [...prev.slice(0, -1), { ...last, text: last.text + text }];
+    return [...prev, { id: (last?.id ?? 0) + 1, role, text }];
+  });
+
+  const finishTurn = () => {
+    const { question, answer, interrupted } = turnRef.current;
+    turnRef.current = { question: '', answer: '', interrupted: false };
+    if (question.trim() || answer.trim()) onTurnRef.current({ question: question.trim(), answer: answer.trim(), interrupted });
+  };
+
+  const stopPlayback = () => {
+    sourcesRef.current.forEach(s => s.stop());
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  };
+
+  // Only speech goes out; when it stops, the server is told the stream paused so it answers right away
+  const handleFrame = ({ pcm, level: rms, speaking }: CaptureFrame) => {
+    setLevel(meterLevel(rms));
+    setIsSpeaking(speaking && !mutedRef.current);
+    const session = sessionRef.current;
+    if (!session || connectionRef.current !== 'open') return;
+
+    if (speaking && !mutedRef.current) {
+      session.sendRealtimeInput({ audio: { mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`, data: encodeAudio(new Uint8Array(pcm.buffer)) } });
+      sendingRef.current = true;
+    } else if (sendingRef.current) {
+      session.sendRealtimeInput({ audioStreamEnd: true });
+      sendingRef.current = false;
     }
-    if (sourceRef.current) {
-      sourceRef.current.disconnect();
-      sourceRef.current = null;
+  };
+
+  const playAudio = async (base64Audio: string) => {
+    const ctx = outputAudioContextRef.current;
+    const outputNode = outputNodeRef.current;
+    if (!ctx || !outputNode) return;
+
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+    const audioBuffer = await decodeAudioData(decodeAudio(base64Audio), ctx, OUTPUT_SAMPLE_RATE, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(outputNode);
+    source.addEventListener('ended', () => {
+      sourcesRef.current.delete(source);
+    });
+    source.start(nextStartTimeRef.current);
+    nextStartTimeRef.current += audioBuffer.duration;
+    sourcesRef.current.add(source);
+  };
+
+  const handleMessage = async (message: LiveServerMessage, generation: number) => {
+    if (generation !== generationRef.current) return;
+    const content = message.serverContent;
+    if (content?.inputTranscription?.text) {
+      turnRef.current.question += content.inputTranscription.text;
+      appendCaption('user', content.inputTranscription.text);
     }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+    if (content?.outputTranscription?.text) {
+      turnRef.current.answer += content.outputTranscription.text;
+      appendCaption('model', content.outputTranscription.text);
     }
-    if (sessionRef.current) {
-      sessionRef.current.close();
-      sessionRef.current = null;
+    if (content?.interrupted) {
+      turnRef.current.interrupted = true;
+      stopPlayback();
     }
-    if (outputAudioContextRef.current) {
-      outputAudioContextRef.current.close();
-      outputAudioContextRef.current = null;
+    if (content?.turnComplete) finishTurn();
+
+    const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio) await playAudio(base64Audio);
+
+    // Remember where to resume if the connection drops
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      resumeHandleRef.current = message.sessionResumptionUpdate.newHandle;
     }
-    if (inputAudioContextRef.current) {
-      inputAudioContextRef.current.close();
-      inputAudioContextRef.current = null;
+    // The server is about to end the connection; move to a new one before it does
+    if (message.goAway) reconnect(0);
+
+    // Function calls are answered from the local index while the model waits
+    if (message.toolCall?.functionCalls) {
+      const calls = message.toolCall.functionCalls;
+      const pending = calls.map(c => ({ id: c.id!, label: describeVoiceTool({ name: c.name!, args: c.args ?? {} }) }));
+      setLookups(prev => [...prev, ...pending]);
+      const functionResponses = await Promise.all(calls.map(async c => ({
+        id: c.id,
+        name: c.name,
+        response: await onToolCallRef.current({ name: c.name!, args: c.args ?? {} }),
+      })));
+      setLookups(prev => prev.filter(l => !pending.some(p => p.id === l.id)));
+      const answered = functionResponses.filter(r => !cancelledCallsRef.current.has(r.id!));
+      if (answered.length > 0 && generation === generationRef.current) sessionRef.current?.sendToolResponse({ functionResponses: answered });
     }
-    setIsConnected(false);
+    message.toolCallCancellation?.ids?.forEach(id => cancelledCallsRef.current.add(id));
   };
 
-  useEffect(() => {
-    if (!isOpen) {
-      cleanup();
-      return;
-    }
+  const buildSystemInstruction = () => `You are a helpful voice assistant for a research paper database.
+
+        PAPERS IN THE DATABASE:
+        ${contextSummaryRef.current}
 
-    const initSession = async () => {
-      try {
-        setStatus("Requesting permissions...");
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        streamRef.current = stream;
-
-        setStatus("Connecting to Gemini...");
-        const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-        const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        
-        inputAudioContextRef.current = inputAudioContext;
-        outputAudioContextRef.current = outputAudioContext;
-        
-        const outputNode = outputAudioContext.createGain();
-        outputNode.connect(outputAudioContext.destination);
-
-        const liveClient = getLiveClient();
-        
-        // Ensure context isn't cut off too aggressively. 
-        // Increasing limit to 25k chars (Gemini Live has large context window)
-        const safeContext = contextSummary.slice(0, 25000);
-        
-        const systemInstruction = `You are a helpful voice assistant for a research paper database. 
-        
-        CONTEXT DATABASE:
-        ${safeContext}
-        
         INSTRUCTIONS:
-        1. Answer questions specifically using the information in the CONTEXT DATABASE above.
-        2. If the user asks about the "database" or "papers", refer to the content above.
+        1. Answer questions using the database. Call search_knowledge_base for anything about the content of the papers, get_paper_details for a specific paper and list_papers for questions about authors or years.
+        2. Base your answers on what the functions return, and say which paper an answer comes from.
         3. Keep answers concise, spoken-style, and conversational.
-        4. If the context is empty, say "I don't have any papers loaded right now."`;
-
-        const sessionPromise = liveClient.connect({
-          model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-          config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-              voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-            },
-            systemInstruction: systemInstruction,
+        4. If the list above is empty, say "I don't have any papers loaded right now."`;
+
+  const connect = async () => {
+    const liveClient = live.provider.live;
+    if (!liveClient) {
+      setError(`${live.provider.label} has no live audio support`);
+      updateConnection('failed');
+      return;
+    }
+
+    const generation = ++generationRef.current;
+    sendingRef.current = false;
+    updateConnection(reconnectsRef.current > 0 ? 'reconnecting' : 'connecting');
+    try {
+      const session = await liveClient.connect({
+        model: live.model,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
+          },
+          systemInstruction: buildSystemInstruction(),
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          tools: [{ functionDeclarations: VOICE_TOOLS }],
+          // Resuming keeps the conversation so far when the connection is replaced
+          sessionResumption: { handle: resumeHandleRef.current },
+        },
+        callbacks: {
+          onopen: () => {
+            if (generation !== generationRef.current) return;
+            reconnectsRef.current = 0;
+            setError(null);
+            updateConnection('open');
+          },
+          onmessage: (message: LiveServerMessage) => { handleMessage(message, generation); },
+          onclose: () => {
+            if (generation !== generationRef.current) return;
+            sessionRef.current = null;
+            scheduleReconnect();
           },
-          callbacks: {
-            onopen: () => {
-              console.log("Session opened");
-              setIsConnected(true);
-              setStatus("Listening...");
-              
-              // Setup Audio Input Pipeline
-              const source = inputAudioContext.createMediaStreamSource(stream);
-              sourceRef.current = source;
-              
-              const processor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-              processorRef.current = processor;
-
-              processor.onaudioprocess = (e) => {
-                 if (isMuted) return;
-                 
-                 const inputData = e.inputBuffer.getChannelData(0);
-                 // Create PCM Blob (16-bit little endian)
-                 const l = inputData.length;
-                 const int16 = new Int16Array(l);
-                 for (let i = 0; i < l; i++) {
-                   int16[i] = inputData[i] * 32768;
-                 }
-                 const pcmData = encodeAudio(new Uint8Array(int16.buffer));
-                 
-                 sessionPromise.then(session => {
-                    session.sendRealtimeInput({
-                        media: {
-                            mimeType: 'audio/pcm;rate=16000',
-                            data: pcmData
-                        }
-                    });
-                 });
-              };
-
-              source.connect(processor);
-              processor.connect(inputAudioContext.destination);
-            },
-            onmessage: async (message: LiveServerMessage) => {
-              const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-              
-              if (base64Audio) {
-                 const ctx = outputAudioContextRef.current;
-                 if (!ctx) return;
-
-                 nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                 
-                 const audioBuffer = await decodeAudioData(
-                   decodeAudio(base64Audio),
-                   ctx,
-                   24000,
-                   1
-                 );
-
-                 const source = ctx.createBufferSource();
-                 source.buffer = audioBuffer;
-                 source.connect(outputNode);
-                 
-                 source.addEventListener('ended', () => {
-                    sourcesRef.current.delete(source);
-                 });
-                 
-                 source.start(nextStartTimeRef.current);
-                 nextStartTimeRef.current += audioBuffer.duration;
-                 sourcesRef.current.add(source);
-              }
-              
-              if (message.serverContent?.interrupted) {
-                 sourcesRef.current.forEach(s => s.stop());
-                 sourcesRef.current.clear();
-                 nextStartTimeRef.current = 0;
-              }
-            },
-            onclose: () => {
-                console.log("Session closed");
-                setIsConnected(false);
-            },
-            onerror: (err) => {
-                console.error(err);
-                setStatus("Error occurred");
-            }
-          }
-        });
-        
-        sessionRef.current = sessionPromise;
-
-      } catch (err) {
-        console.error("Failed to init voice agent", err);
-        setStatus("Failed to connect microphone");
+          onerror: (event) => {
+            console.error("Live session error", event);
+          },
+        },
+      });
+      if (generation !== generationRef.current) {
+        session.close();
+        return;
       }
-    };
+      sessionRef.current = session;
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.error("Failed to connect the live session", err);
+      setError(err instanceof Error ? err.message : String(err));
+      scheduleReconnect();
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectsRef.current >= MAX_RECONNECTS) {
+      updateConnection('closed');
+      return;
+    }
+    // 1, 2, 4, 8, 16 seconds
+    reconnect(1000 * 2 ** reconnectsRef.current);
+  };
+
+  const reconnect = (delayMs: number) => {
+    reconnectsRef.current++;
+    updateConnection('reconnecting');
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      const previous = sessionRef.current;
+      sessionRef.current = null;
+      connect();
+      previous?.close(); // after connect() bumped the generation, so its onclose is ignored
+    }, delayMs);
+  };
+
+  const handleManualReconnect = () => {
+    reconnectsRef.current = 0;
+    resumeHandleRef.current = undefined;
+    connect();
+  };
+
+  const startCapture = async (id: string | undefined) => {
+    captureRef.current?.stop();
+    captureRef.current = null;
+    try {
+      const capture = await MicCapture.start({ deviceId: id, onFrame: handleFrame });
+      capture.muted = mutedRef.current;
+      captureRef.current = capture;
+      // Device labels are only exposed once permission is granted
+      setDevices(await listMicrophones());
+      setDeviceId(capture.deviceId);
+      return true;
+    } catch (err) {
+      console.error("Failed to start the microphone", err);
+      setError(err instanceof Error ? err.message : String(err));
+      updateConnection('failed');
+      return false;
+    }
+  };
+
+  const teardown = () => {
+    generationRef.current++;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    stopPlayback();
+    outputAudioContextRef.current?.close();
+    outputAudioContextRef.current = null;
+    outputNodeRef.current = null;
+  };
+
+  useEffect(() => {
+    captionsEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [captions]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCaptions([]);
+    setLookups([]);
+    setError(null);
+    setLevel(0);
+    turnRef.current = { question: '', answer: '', interrupted: false };
+    reconnectsRef.current = 0;
+    resumeHandleRef.current = undefined;
+    updateConnection('connecting');
 
-    initSession();
+    const outputAudioContext = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+    const outputNode = outputAudioContext.createGain();
+    outputNode.connect(outputAudioContext.destination);
+    outputAudioContextRef.current = outputAudioContext;
+    outputNodeRef.current = outputNode;
 
-    return () => cleanup();
+    let cancelled = false;
+    startCapture(deviceId).then(ok => {
+      if (ok && !cancelled) connect();
+    });
+
+    return () => {
+      cancelled = true;
+      // A turn cut off by closing the modal is still kept
+      finishTurn();
+      teardown();
+    };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, contextSummary]); 
+  }, [isOpen, live.provider, live.model]);
+
+  // Plugging a microphone in or out updates the list
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => { listMicrophones().then(setDevices).catch(() => {}); };
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isOpen]);
+
+  const toggleMute = () => {
+    const muted = !mutedRef.current;
+    mutedRef.current = muted;
+    setIsMuted(muted);
+    if (captureRef.current) captureRef.current.muted = muted;
+  };
+
+  const selectDevice = (id: string) => {
+    setDeviceId(id);
+    startCapture(id).then(ok => {
+      // The session survives a failed device switch; only the microphone is missing
+      if (ok && connectionRef.current === 'failed') handleManualReconnect();
+    });
+  };
 
   if (!isOpen) return null;
 
+  const isOpenConnection = connection === 'open';
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
-      <div className="glass-panel w-full max-w-md rounded-2xl p-8 flex flex-col items-center relative border-t border-white/10 shadow-2xl shadow-indigo-500/20">
-        <button 
+      <div className="glass-panel w-full max-w-lg rounded-2xl p-8 flex flex-col items-center relative border-t border-white/10 shadow-2xl shadow-indigo-500/20">
+        <button
           onClick={onClose}
           className="absolute top-4 right-4 text-zinc-400 hover:text-white transition-colors"
         >
@@ -214,13 +393,17 @@ export const VoiceAgent: React.FC<VoiceAgentProps> = ({ isOpen, onClose, context
         </button>
 
         <div className="mb-8 mt-4 relative">
-          {isConnected ? (
+          {isOpenConnection ? (
              <div className="relative">
-                <div className="absolute inset-0 bg-indigo-500 blur-xl opacity-40 animate-pulse rounded-full"></div>
+                <div className={`absolute inset-0 bg-indigo-500 blur-xl rounded-full transition-opacity ${isSpeaking ? 'opacity-70' : 'opacity-30'}`}></div>
                 <div className="w-32 h-32 bg-zinc-900 rounded-full border border-indigo-500/30 flex items-center justify-center relative z-10">
-                    <Radio className="w-12 h-12 text-indigo-400 animate-pulse" />
+                    <Radio className={`w-12 h-12 text-indigo-400 ${isSpeaking ? 'animate-pulse' : ''}`} />
                 </div>
              </div>
+          ) : connection === 'closed' || connection === 'failed' ? (
+             <div className="w-32 h-32 bg-zinc-900 rounded-full border border-zinc-700 flex items-center justify-center">
+                <WifiOff className="w-10 h-10 text-zinc-500" />
+             </div>
           ) : (
              <div className="w-32 h-32 bg-zinc-900 rounded-full border border-zinc-700 flex items-center justify-center animate-spin">
                 <Loader2 className="w-10 h-10 text-zinc-500" />
@@ -229,21 +412,79 @@ export const VoiceAgent: React.FC<VoiceAgentProps> = ({ isOpen, onClose, context
         </div>
 
         <h2 className="text-2xl font-light text-white mb-2 tracking-wide">
-          {isConnected ? "NeurPaper Voice" : "Connecting..."}
+          NeurPaper Voice
         </h2>
-        <p className="text-zinc-400 text-sm mb-8 font-mono uppercase tracking-wider">{status}</p>
+        <p className="text-zinc-400 text-sm mb-1 font-mono uppercase tracking-wider">
+          {isOpenConnection && isMuted ? 'Muted' : CONNECTION_LABELS[connection]}
+        </p>
+        {error && connection !== 'open' && <p className="text-xs text-red-400 text-center mb-1">{error}</p>}
+
+        <div className="h-5 mb-2 flex items-center gap-2 text-xs text-indigo-300">
+          {lookups.length > 0 && (
+            <>
+              <Loader2 size={12} className="animate-spin" />
+              {lookups[lookups.length - 1].label}...
+            </>
+          )}
+        </div>
+
+        <div className="w-full h-48 overflow-y-auto mb-6 space-y-2 px-1" aria-live="polite">
+          {captions.length === 0 ? (
+            <p className="h-full flex items-center justify-center text-xs text-zinc-600">Captions of both sides appear here.</p>
+          ) : captions.map(caption => (
+            <div key={caption.id} className={`flex ${caption.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <p className={`max-w-[85%] text-sm rounded-xl px-3 py-2 ${
+                caption.role === 'user' ? 'bg-indigo-600/80 text-white' : 'bg-zinc-800 text-zinc-200'
+              }`}>
+                {caption.text.trim()}
+              </p>
+            </div>
+          ))}
+          <div ref={captionsEndRef} />
+        </div>
+
+        <div className="w-full flex items-center gap-3 mb-6">
+          <select
+            value={deviceId ?? ''}
+            onChange={(e) => selectDevice(e.target.value)}
+            disabled={devices.length === 0}
+            className="flex-1 min-w-0 bg-zinc-900/50 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500"
+            title="Microphone"
+          >
+            {devices.length === 0 && <option value="">Default microphone</option>}
+            {devices.map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+            ))}
+          </select>
+          <div className="w-24 h-2 bg-zinc-800 rounded-full overflow-hidden" title="Input level">
+            <div
+              className={`h-full transition-[width] duration-100 ${isSpeaking ? 'bg-green-500' : 'bg-zinc-500'}`}
+              style={{ width: `${isMuted ? 0 : level * 100}%` }}
+            />
+          </div>
+        </div>
 
         <div className="flex gap-6">
           <button
-            onClick={() => setIsMuted(!isMuted)}
+            onClick={toggleMute}
             className={`p-4 rounded-full transition-all duration-300 ${
               isMuted ? 'bg-red-500/20 text-red-400 border border-red-500/50' : 'bg-zinc-800 text-white hover:bg-zinc-700 border border-zinc-700'
             }`}
+            title={isMuted ? 'Unmute' : 'Mute'}
           >
             {isMuted ? <MicOff size={24} /> : <Mic size={24} />}
           </button>
+          {(connection === 'closed' || (connection === 'failed' && live.provider.live)) && (
+            <button
+              onClick={() => captureRef.current ? handleManualReconnect() : startCapture(deviceId).then(ok => ok && handleManualReconnect())}
+              className="p-4 rounded-full bg-zinc-800 text-white hover:bg-zinc-700 border border-zinc-700 transition-all duration-300"
+              title="Reconnect"
+            >
+              <RotateCcw size={24} />
+            </button>
+          )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
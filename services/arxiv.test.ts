@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { ArxivApiError, ArxivClient, buildSearchQuery, parseArxivAtom, parseArxivId } from './arxiv';
+import FEED from './__fixtures__/arxiv-feed.xml?raw';
+import ERROR_FEED from './__fixtures__/arxiv-error.xml?raw';
+
+describe('parseArxivId', () => {
+  it.each([
+    ['2106.09685', { id: '2106.09685', version: undefined }],
+    ['arXiv:2106.09685v2', { id: '2106.09685', version: 2 }],
+    ['https://arxiv.org/pdf/2106.09685v3.pdf', { id: '2106.09685', version: 3 }],
+    ['hep-th/9901001', { id: 'hep-th/9901001', version: undefined }],
+  ])('reads %s', (input, expected) => {
+    expect(parseArxivId(input)).toEqual(expected);
+  });
+
+  it('returns null for other text', () => {
+    expect(parseArxivId('not an id')).toBeNull();
+  });
+});
+
+describe('buildSearchQuery', () => {
+  it('combines keywords, categories, author and dates', () => {
+    expect(buildSearchQuery({ keywords: 'low rank', categories: ['cs.CL', 'cs.LG'], author: 'Edward Hu', dateFrom: '2021', dateTo: '2021-06-30' }))
+      .toBe('(all:low AND all:rank) AND (cat:cs.CL OR cat:cs.LG) AND au:"Edward Hu" AND submittedDate:[202101010000 TO 202106302359]');
+  });
+
+  it('rejects an empty query', () => {
+    expect(() => buildSearchQuery({})).toThrow(ArxivApiError);
+  });
+});
+
+describe('parseArxivAtom', () => {
+  it('maps feed entries onto papers', () => {
+    const result = parseArxivAtom(FEED);
+    expect(result).toMatchObject({ totalResults: 1342, start: 0, itemsPerPage: 2 });
+
+    const [lora, old] = result.papers;
+    expect(lora).toMatchObject({
+      title: 'LoRA: Low-Rank Adaptation of Large Language Models',
+      authors: ['Edward J. Hu', 'Yelong Shen'],
+      year: '2021',
+      arxivId: '2106.09685',
+      version: 2,
+      link: 'https://arxiv.org/abs/2106.09685',
+      pdfUrl: 'https://arxiv.org/pdf/2106.09685v2',
+      categories: ['cs.CL', 'cs.AI', 'cs.LG'],
+      doi: '10.48550/arXiv.2106.09685',
+      published: '2021-06-17T17:37:18Z',
+      highlights: [],
+    });
+    expect(lora.abstract).toMatch(/^An important paradigm .* tasks or domains\.$/);
+
+    expect(old).toMatchObject({ arxivId: 'hep-th/9901001', version: 1, pdfUrl: 'https://arxiv.org/pdf/hep-th/9901001v1' });
+    expect(old.doi).toBeUndefined();
+  });
+
+  it('reports API errors', () => {
+    expect(() => parseArxivAtom(ERROR_FEED)).toThrow(/incorrect id format/);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseArxivAtom('<feed><entry>')).toThrow(ArxivApiError);
+  });
+});
+
+describe('ArxivClient', () => {
+  const respond = (body: string, status = 200) => async () => new Response(body, { status });
+
+  it('requests papers by id through the injected fetch', async () => {
+    const urls: string[] = [];
+    const client = new ArxivClient({
+      minIntervalMs: 0,
+      fetch: async (input) => { urls.push(String(input)); return respond(FEED)(); },
+    });
+    const papers = await client.fetchByIds(['2106.09685', 'hep-th/9901001']);
+    expect(papers).toHaveLength(2);
+    expect(new URL(urls[0]).searchParams.get('id_list')).toBe('2106.09685,hep-th/9901001');
+  });
+
+  it('surfaces HTTP errors with their status', async () => {
+    const client = new ArxivClient({ minIntervalMs: 0, fetch: respond('busy', 503) });
+    await expect(client.search({ keywords: 'lora' })).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('does not send a request once the signal is aborted', async () => {
+    let requests = 0;
+    const client = new ArxivClient({ minIntervalMs: 0, fetch: async () => { requests++; return respond(FEED)(); } });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.fetchByIds(['2106.09685'], controller.signal)).rejects.toThrow();
+    expect(requests).toBe(0);
+  });
+});
@@ -0,0 +1,231 @@
+import { Paper } from '../types';
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const ARXIV_NS = 'http://arxiv.org/schemas/atom';
+const OPENSEARCH_NS = 'http://a9.com/-/spec/opensearch/1.1/';
+
+export const ARXIV_API_URL = 'https://export.arxiv.org/api/query';
+
+// arXiv asks API clients to wait 3 seconds between consecutive requests
+export const ARXIV_MIN_INTERVAL_MS = 3000;
+
+export class ArxivApiError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ArxivApiError';
+  }
+}
+
+export interface ArxivQuery {
+  keywords?: string;
+  categories?: string[]; // e.g. ["cs.CL", "cs.LG"]
+  author?: string;
+  dateFrom?: string;     // YYYY-MM-DD
+  dateTo?: string;       // YYYY-MM-DD
+}
+
+export interface ArxivSearchOptions {
+  start?: number;
+  maxResults?: number;
+  sortBy?: 'relevance' | 'lastUpdatedDate' | 'submittedDate';
+  sortOrder?: 'ascending' | 'descending';
+  signal?: AbortSignal;
+}
+
+export interface ArxivSearchResult {
+  papers: Paper[];
+  totalResults: number;
+  start: number;
+  itemsPerPage: number;
+}
+
+// --- Identifiers ---
+
+const NEW_STYLE_ID = /(\d{4}\.\d{4,5})(?:v(\d+))?/;
+const OLD_STYLE_ID = /([a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v(\d+))?/;
+
+/** Accepts "2106.09685", "arXiv:2106.09685v2", abs/pdf URLs and old-style ids like "hep-th/9901001". */
+export const parseArxivId = (input: string): { id: string; version?: number } | null => {
+  const cleaned = input.trim().replace(/^arxiv:/i, '').replace(/\.pdf$/i, '');
+  const match = cleaned.match(NEW_STYLE_ID) || cleaned.match(OLD_STYLE_ID);
+  if (!match) return null;
+  return { id: match[1], version: match[2] ? parseInt(match[2], 10) : undefined };
+};
+
+export const arxivAbsUrl = (id: string) => `https://arxiv.org/abs/${id}`;
+export const arxivPdfUrl = (id: string, version?: number) => `https://arxiv.org/pdf/${id}${version ? `v${version}` : ''}`;
+
+// --- Query building ---
+
+const quote = (value: string) => /\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// Accepts YYYY or YYYY-MM-DD; a bare year covers the whole year
+const toArxivDate = (date: string, endOfDay: boolean) => {
+  const digits = date.replace(/-/g, '');
+  const day = digits.length === 4 ? digits + (endOfDay ? '1231' : '0101') : digits.slice(0, 8);
+  return day + (endOfDay ? '2359' : '0000');
+};
+
+export const buildSearchQuery = (query: ArxivQuery): string => {
+  const clauses: string[] = [];
+
+  const terms = query.keywords?.trim().split(/\s+/).filter(Boolean) || [];
+  if (terms.length > 0) {
+    clauses.push(terms.length === 1 ? `all:${quote(terms[0])}` : `(${terms.map(t => `all:${quote(t)}`).join(' AND ')})`);
+  }
+
+  const categories = (query.categories || []).map(c => c.trim()).filter(Boolean);
+  if (categories.length > 0) {
+    clauses.push(categories.length === 1 ? `cat:${categories[0]}` : `(${categories.map(c => `cat:${c}`).join(' OR ')})`);
+  }
+
+  if (query.author?.trim()) {
+    clauses.push(`au:${quote(query.author.trim())}`);
+  }
+
+  if (query.dateFrom || query.dateTo) {
+    const from = query.dateFrom ? toArxivDate(query.dateFrom, false) : '199101010000';
+    const to = query.dateTo ? toArxivDate(query.dateTo, true) : '209912312359';
+    clauses.push(`submittedDate:[${from} TO ${to}]`);
+  }
+
+  if (clauses.length === 0) {
+    throw new ArxivApiError('An arXiv query needs at least keywords, a category, an author or a date range.');
+  }
+  return clauses.join(' AND ');
+};
+
+// --- Atom parsing ---
+
+const text = (parent: Element, ns: string, name: string): string | undefined =>
+  parent.getElementsByTagNameNS(ns, name)[0]?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+
+const parseEntry = (entry: Element): Paper => {
+  const rawId = text(entry, ATOM_NS, 'id') || '';
+  const parsedId = parseArxivId(rawId);
+  if (!parsedId) throw new ArxivApiError(`Unrecognised arXiv entry id: ${rawId}`);
+
+  const links = Array.from(entry.getElementsByTagNameNS(ATOM_NS, 'link'));
+  const pdfHref = links.find(l => l.getAttribute('title') === 'pdf' || l.getAttribute('type') === 'application/pdf')?.getAttribute('href');
+  const categories = Array.from(entry.getElementsByTagNameNS(ATOM_NS, 'category'))
+    .map(c => c.getAttribute('term'))
+    .filter((c): c is string => !!c);
+  const authors = Array.from(entry.getElementsByTagNameNS(ATOM_NS, 'author'))
+    .map(a => text(a, ATOM_NS, 'name'))
+    .filter((a): a is string => !!a);
+
+  const published = text(entry, ATOM_NS, 'published');
+  const abstract = text(entry, ATOM_NS, 'summary');
+
+  return {
+    id: crypto.randomUUID(),
+    title: text(entry, ATOM_NS, 'title') || parsedId.id,
+    authors,
+    year: published?.slice(0, 4) || '',
+    summary: abstract || '',
+    highlights: [],
+    link: arxivAbsUrl(parsedId.id),
+    abstract,
+    arxivId: parsedId.id,
+    version: parsedId.version,
+    categories,
+    pdfUrl: pdfHref ? pdfHref.replace(/^http:/, 'https:') : arxivPdfUrl(parsedId.id, parsedId.version),
+    doi: text(entry, ARXIV_NS, 'doi'),
+    published,
+    updated: text(entry, ATOM_NS, 'updated'),
+  };
+};
+
+export const parseArxivAtom = (xml: string): ArxivSearchResult => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new ArxivApiError('arXiv returned a response that is not valid Atom XML.');
+  }
+
+  const entries = Array.from(doc.getElementsByTagNameNS(ATOM_NS, 'entry'));
+
+  // The API reports malformed queries as a single entry whose id points at its error docs
+  const errorEntry = entries.find(e => text(e, ATOM_NS, 'id')?.includes('/api/errors'));
+  if (errorEntry) {
+    throw new ArxivApiError(`arXiv rejected the query: ${text(errorEntry, ATOM_NS, 'summary') || 'unknown error'}`);
+  }
+
+  const feed = doc.documentElement;
+  return {
+    papers: entries.map(parseEntry),
+    totalResults: parseInt(text(feed, OPENSEARCH_NS, 'totalResults') || '0', 10),
+    start: parseInt(text(feed, OPENSEARCH_NS, 'startIndex') || '0', 10),
+    itemsPerPage: parseInt(text(feed, OPENSEARCH_NS, 'itemsPerPage') || String(entries.length), 10),
+  };
+};
+
+// --- Client ---
+
+export interface ArxivClientOptions {
+  fetch?: typeof fetch;
+  baseUrl?: string;
+  minIntervalMs?: number;
+}
+
+export class ArxivClient {
+  private readonly fetchImpl: typeof fetch;
+  private readonly baseUrl: string;
+  private readonly minIntervalMs: number;
+  private lastRequestAt = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: ArxivClientOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.baseUrl = options.baseUrl ?? ARXIV_API_URL;
+    this.minIntervalMs = options.minIntervalMs ?? ARXIV_MIN_INTERVAL_MS;
+  }
+
+  // Requests are serialised so consecutive calls respect the minimum interval
+  private request(params: URLSearchParams, signal?: AbortSignal): Promise<ArxivSearchResult> {
+    const task = this.queue.then(async () => {
+      const delay = this.lastRequestAt + this.minIntervalMs - Date.now();
+      if (delay > 0) await new Promise(res => setTimeout(res, delay));
+      signal?.throwIfAborted();
+      this.lastRequestAt = Date.now();
+
+      const response = await this.fetchImpl(`${this.baseUrl}?${params.toString()}`, { signal });
+      if (!response.ok) {
+        throw new ArxivApiError(`arXiv API request failed with status ${response.status}`, response.status);
+      }
+      return parseArxivAtom(await response.text());
+    });
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  search(query: ArxivQuery, options: ArxivSearchOptions = {}): Promise<ArxivSearchResult> {
+    const params = new URLSearchParams({
+      search_query: buildSearchQuery(query),
+      start: String(options.start ?? 0),
+      max_results: String(options.maxResults ?? 10),
+      sortBy: options.sortBy ?? 'relevance',
+      sortOrder: options.sortOrder ?? 'descending',
+    });
+    return this.request(params, options.signal);
+  }
+
+  /** Pages through results until `limit` papers were collected or the feed runs out. */
+  async *searchPages(query: ArxivQuery, limit: number, pageSize = 50, options: Omit<ArxivSearchOptions, 'start' | 'maxResults'> = {}) {
+    let start = 0;
+    while (start < limit) {
+      const page = await this.search(query, { ...options, start, maxResults: Math.min(pageSize, limit - start) });
+      if (page.papers.length === 0) return;
+      yield page;
+      start += page.papers.length;
+      if (start >= page.totalResults) return;
+    }
+  }
+
+  async fetchByIds(ids: string[], signal?: AbortSignal): Promise<Paper[]> {
+    if (ids.length === 0) return [];
+    const params = new URLSearchParams({ id_list: ids.join(','), max_results: String(ids.length) });
+    return (await this.request(params, signal)).papers;
+  }
+}
+
+export const arxivClient = new ArxivClient();
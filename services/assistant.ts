@@ -0,0 +1,58 @@
+import { Paper } from '../types';
+import { ChatTurn, TaskTarget } from './providers';
+import { generateValidatedList, ValidationReport } from './structured';
+import { digestSchema, PaperDigest } from './paperSchema';
+
+// Writes summaries and highlights for papers whose metadata already came from arXiv
+export const summarizePapers = async (
+  papers: Paper[],
+  { provider, model }: TaskTarget,
+  signal?: AbortSignal
+): Promise<ValidationReport<PaperDigest>> => {
+  const listing = papers.map(p => `ID: ${p.arxivId}\nTitle: ${p.title}\nAbstract: ${p.abstract || ''}`).join('\n\n');
+  const prompt = `For each paper below, write:
+  - "summary": A brief summary (approx 50 words)
+  - "highlights": array of 3-4 short strings (key bullet points)
+  Use only the given abstracts. Return a JSON array with one object per paper and copy its ID into "arxivId".
+
+  ${listing}`;
+
+  return generateValidatedList({
+    prompt,
+    schema: digestSchema(papers.map(p => p.arxivId!)),
+    describe: (raw, i) => `digest for ${(raw as { arxivId?: string })?.arxivId || `entry #${i + 1}`}`,
+    key: d => d.arxivId,
+    generate: (contents) => provider.generate({ model, prompt: contents, json: true, signal }),
+  });
+};
+
+// Retrieved excerpts and the summary of earlier turns are injected into the system instruction
+export const buildSystemPrompt = (context: string, summary?: string) => `You are a helpful research assistant. 
+    You have access to a database of papers. The passages most relevant to the question are provided below as numbered excerpts.
+    Always prioritize the provided context for your answers.
+    If the answer involves complex reasoning, break it down step-by-step.
+    When you use an excerpt, cite it inline with its number in square brackets, e.g. [2] or [1, 3]. Only cite numbers that exist below.
+    If the context is insufficient, use your internal knowledge or Google Search to supplement, but explicitly state you are doing so.
+    ${summary ? `
+    EARLIER IN THIS CONVERSATION (summary):
+    ${summary}
+    ` : ''}
+    CONTEXT DATABASE:
+    ${context}
+    `;
+
+export const chatWithKnowledgeBase = (
+  history: ChatTurn[],
+  message: string,
+  context: string,
+  { provider, model }: TaskTarget,
+  { signal, summary }: { signal?: AbortSignal; summary?: string } = {}
+) => provider.streamChat({
+  model,
+  system: buildSystemPrompt(context, summary),
+  history,
+  message,
+  webSearch: true,
+  thinkingBudget: 1024, // Force some thinking for complex queries
+  signal,
+});
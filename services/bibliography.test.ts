@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Paper } from '../types';
+import {
+  BibliographyFormat, BibliographyParseError, detectFormat, formatBibliography, makeCitationKeys, parseBibliography,
+  parseBibTeX, parseCslJson, parseRIS, splitName,
+} from './bibliography';
+import LIBRARY from './__fixtures__/library.bib?raw';
+
+const paper = (extra: Partial<Paper>): Paper => ({
+  id: 'x', title: 'Untitled', authors: ['A. Author'], year: '2024', summary: '', highlights: [], link: '#', ...extra,
+});
+
+const PAPERS: Paper[] = [
+  paper({
+    title: 'LoRA: Low-Rank Adaptation of Large Language Models',
+    authors: ['Edward J. Hu', 'Yelong Shen'],
+    year: '2021',
+    arxivId: '2106.09685',
+    link: 'https://arxiv.org/abs/2106.09685',
+    abstract: 'We propose Low-Rank Adaptation, or LoRA, which freezes the pretrained model weights.',
+  }),
+  paper({
+    title: 'Parallel Distributed Processing & Friends',
+    authors: ['Ludwig van Beethoven', 'Martin Luther King Jr.', 'Plato'],
+    year: '1986',
+    venue: 'Journal of Examples',
+    doi: '10.1000/example.1986',
+    link: 'https://doi.org/10.1000/example.1986',
+  }),
+];
+
+// The fields every format carries; absent ones are left out rather than set to undefined
+const metadata = ({ title, authors, year, venue, doi, arxivId, abstract, link }: Paper) =>
+  Object.fromEntries(Object.entries({ title, authors, year, venue, doi, arxivId, abstract, link }).filter(([, v]) => v !== undefined));
+
+describe('parseBibTeX', () => {
+  it('reads entries with macros, LaTeX accents and braces, and skips broken ones', () => {
+    const { papers, skipped } = parseBibTeX(LIBRARY);
+    expect(papers.map(p => p.citationKey)).toEqual(['vaswani2017attention', 'hu2021lora', 'erdos1959']);
+
+    const [attention, lora, erdos] = papers;
+    expect(attention).toMatchObject({
+      authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+      year: '2017',
+      venue: 'Advances in Neural Information Processing Systems',
+      arxivId: '1706.03762',
+    });
+    expect(lora).toMatchObject({ title: 'LoRA: Low-Rank Adaptation of Large Language Models', arxivId: '2106.09685', link: 'https://arxiv.org/abs/2106.09685' });
+    expect(erdos).toMatchObject({ title: 'On Random Graphs I', authors: ['Paul Erdős', 'Alfréd Rényi'], doi: '10.5486/PMD.1959.6.3-4.12' });
+
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0].label).toMatch(/^@article on line \d+$/);
+  });
+});
+
+describe('round trips', () => {
+  it.each<BibliographyFormat>(['bibtex', 'ris', 'csl-json'])('keeps the metadata through %s', format => {
+    const text = formatBibliography(PAPERS, format);
+    expect(detectFormat(text)).toBe(format);
+    const { papers, skipped } = parseBibliography(text);
+    expect(skipped).toEqual([]);
+    expect(papers).toHaveLength(PAPERS.length);
+    papers.forEach((parsed, i) => {
+      expect(metadata(parsed)).toEqual(metadata(PAPERS[i]));
+    });
+    expect(papers.map(p => p.citationKey)).toEqual(['hu2021lora', 'vanbeethoven1986parallel']);
+  });
+});
+
+describe('splitName', () => {
+  it('keeps particles with the family name and separates suffixes', () => {
+    expect(splitName('Ludwig van Beethoven')).toEqual({ given: 'Ludwig', family: 'van Beethoven' });
+    expect(splitName('Martin Luther King Jr.')).toEqual({ given: 'Martin Luther', family: 'King', suffix: 'Jr.' });
+    expect(splitName('Plato')).toEqual({ given: '', family: 'Plato' });
+  });
+});
+
+describe('makeCitationKeys', () => {
+  it('builds Scholar-style keys and disambiguates clashes', () => {
+    const p = paper({ title: 'Attention Is All You Need', authors: ['Ashish Vaswani'], year: '2017' });
+    expect(makeCitationKeys([p, p, p])).toEqual(['vaswani2017attention', 'vaswani2017attentiona', 'vaswani2017attentionb']);
+  });
+});
+
+describe('detectFormat', () => {
+  it('prefers the file extension', () => {
+    expect(detectFormat('anything', 'refs.RIS')).toBe('ris');
+    expect(detectFormat('[]', 'refs.bib')).toBe('bibtex');
+  });
+
+  it('rejects text in no known format', () => {
+    expect(() => detectFormat('just some notes')).toThrow(BibliographyParseError);
+  });
+});
+
+describe('parse errors', () => {
+  it('reports RIS without records and invalid CSL-JSON', () => {
+    expect(() => parseRIS('not ris')).toThrow(/No RIS records/);
+    expect(() => parseCslJson('[{')).toThrow(BibliographyParseError);
+    expect(parseCslJson('[1, {"title": "Ok"}]').skipped).toEqual([{ label: 'item #1', reasons: ['not a CSL item object'] }]);
+  });
+});
@@ -0,0 +1,520 @@
+import { Paper } from '../types';
+import { arxivAbsUrl, parseArxivId } from './arxiv';
+import { isArxivId } from './paperSchema';
+import { DroppedItem } from './structured';
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { label: string; extension: string; mimeType: string }> = {
+  'bibtex': { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  'ris': { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+};
+
+export class BibliographyParseError extends Error {
+  constructor(message: string, public readonly format?: BibliographyFormat) {
+    super(message);
+    this.name = 'BibliographyParseError';
+  }
+}
+
+export interface BibliographyImport {
+  format: BibliographyFormat;
+  papers: Paper[];
+  skipped: DroppedItem[]; // entries that could not be read at all; field-level problems are left to validatePapers
+}
+
+// --- Shared helpers ---
+
+interface NameParts {
+  given: string;
+  family: string;
+  suffix?: string;
+}
+
+const NAME_PARTICLES = new Set(['von', 'van', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'du', 'la', 'le', 'dos', 'das', 'ten', 'ter']);
+
+const NAME_SUFFIX = /^(jr|sr)\.?$|^(ii|iii|iv)$/i;
+
+// "Ashish Vaswani" -> { given: "Ashish", family: "Vaswani" }; "Ludwig van Beethoven" keeps "van" in the family name
+export const splitName = (name: string): NameParts => {
+  const words = name.trim().split(/\s+/);
+  const suffix = words.length > 2 && NAME_SUFFIX.test(words[words.length - 1]) ? words.pop() : undefined;
+  if (words.length === 1) return { given: '', family: words[0] };
+  let familyStart = words.length - 1;
+  while (familyStart > 1 && NAME_PARTICLES.has(words[familyStart - 1].toLowerCase())) familyStart--;
+  return { given: words.slice(0, familyStart).join(' '), family: words.slice(familyStart).join(' '), ...(suffix ? { suffix } : {}) };
+};
+
+// Only strings that explicitly reference arXiv are searched, so DOIs and page numbers never look like ids
+const ARXIV_REFERENCE = /(?:arxiv\.org\/(?:abs|pdf)\/|10\.48550\/arxiv\.|arxiv:\s*)([a-z-]+(?:\.[a-z]{2})?\/\d{7}|\d{4}\.\d{4,5})/i;
+
+export const findArxivId = (...values: (string | undefined)[]): string | undefined => {
+  for (const value of values) {
+    const match = value?.match(ARXIV_REFERENCE);
+    const parsed = match && parseArxivId(match[1]);
+    if (parsed && isArxivId(parsed.id)) return parsed.id;
+  }
+  return undefined;
+};
+
+const cleanDoi = (doi?: string) => doi?.trim().replace(/^https?:\/\/(dx\.)?doi\.org\//i, '').replace(/^doi:\s*/i, '') || undefined;
+
+const yearOf = (value?: string) => value?.match(/\d{4}/)?.[0] ?? '';
+
+const buildPaper = (fields: {
+  title?: string;
+  authors: string[];
+  year?: string;
+  abstract?: string;
+  doi?: string;
+  url?: string;
+  venue?: string;
+  citationKey?: string;
+  arxivId?: string;
+}): Paper => {
+  const doi = cleanDoi(fields.doi);
+  const abstract = fields.abstract?.trim() || undefined;
+  return {
+    id: crypto.randomUUID(),
+    title: fields.title?.trim() ?? '',
+    authors: fields.authors,
+    year: yearOf(fields.year),
+    summary: abstract ?? '',
+    highlights: [],
+    link: fields.url?.trim() || (doi ? `https://doi.org/${doi}` : fields.arxivId ? arxivAbsUrl(fields.arxivId) : '#'),
+    ...(abstract ? { abstract } : {}),
+    ...(doi ? { doi } : {}),
+    ...(fields.arxivId ? { arxivId: fields.arxivId } : {}),
+    ...(fields.venue?.trim() ? { venue: fields.venue.trim() } : {}),
+    ...(fields.citationKey ? { citationKey: fields.citationKey } : {}),
+  };
+};
+
+// --- BibTeX ---
+
+interface BibEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  'c': '\u0327', 'v': '\u030C', 'u': '\u0306', 'H': '\u030B', 'k': '\u0328', 'r': '\u030A',
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+};
+
+/** Turns LaTeX escapes, accents and grouping braces into plain Unicode text. */
+export const decodeLatex = (value: string): string =>
+  value
+    .replace(/\\([cvuHkr])\s*\{\s*\\?([a-zA-Z])\s*\}|\\([cvuHkr])\s+([a-zA-Z])/g, (_m, c1, l1, c2, l2) => (l1 ?? l2) + ACCENTS[c1 ?? c2])
+    .replace(/\\(['`^"~=.])\s*(?:\{\s*\\?([a-zA-Z])\s*\}|\\?([a-zA-Z]))/g, (_m, accent, l1, l2) => (l1 ?? l2) + ACCENTS[accent])
+    .replace(/\\(ss|o|O|ae|AE|oe|OE|aa|AA|l|L|i|j)(?![a-zA-Z])\s*/g, (_m, name) => LATEX_SYMBOLS[name])
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\textendash\b\s*|(?<!-)--(?!-)/g, '–')
+    .replace(/\\textemdash\b\s*|---/g, '—')
+    .replace(/\\(?:emph|textit|textbf|textsc|texttt|mathrm|url|href)\s*(?=\{)/g, '')
+    .replace(/(?<!\\)~/g, ' ')
+    .replace(/(?<!\\)[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC');
+
+const encodeLatex = (value: string) => value.replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '');
+
+// Splits at `separator` only outside of braces, so "{Barnes and Noble}" stays one name
+const splitTopLevel = (value: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    else if (value[i] === '}') depth--;
+    else if (depth === 0) {
+      const match = value.slice(i).match(separator);
+      if (match?.index === 0) {
+        parts.push(value.slice(start, i));
+        i += match[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+// BibTeX names are "First von Last", "von Last, First" or "von Last, Jr, First"
+const parseBibName = (raw: string): string => {
+  const parts = splitTopLevel(raw, /^,/).map(decodeLatex);
+  if (parts.length === 1) return parts[0];
+  if (parts.length === 2) return `${parts[1]} ${parts[0]}`;
+  return `${parts[2]} ${parts[0]} ${parts[1]}`;
+};
+
+const parseBibEntries = (text: string): { entries: BibEntry[]; skipped: DroppedItem[] } => {
+  const entries: BibEntry[] = [];
+  const skipped: DroppedItem[] = [];
+  const macros = new Map(MONTHS.map((m, i) => [m, String(i + 1)]));
+  let pos = 0;
+
+  const lineAt = (index: number) => text.slice(0, index).split('\n').length;
+  const fail = (message: string): never => {
+    throw new BibliographyParseError(`${message} on line ${lineAt(pos)}`, 'bibtex');
+  };
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const readDelimited = (open: string, close: string): string => {
+    const start = ++pos;
+    let depth = 0;
+    for (; pos < text.length; pos++) {
+      const c = text[pos];
+      if (c === '\\') pos++;
+      else if (c === '{') depth++;
+      else if (c === close && depth === 0) return text.slice(start, pos++);
+      else if (c === '}') depth--;
+    }
+    return fail(`Unclosed ${open}`);
+  };
+  const readName = (): string => {
+    const pattern = /[^\s,={}()"#]+/y;
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (!match) return fail('Expected a field name');
+    pos = pattern.lastIndex;
+    return match[0];
+  };
+  const readValue = (): string => {
+    let value = '';
+    for (;;) {
+      skipSpace();
+      if (text[pos] === '{') value += readDelimited('{', '}');
+      else if (text[pos] === '"') value += readDelimited('"', '"');
+      else {
+        const name = readName();
+        value += /^\d+$/.test(name) ? name : macros.get(name.toLowerCase()) ?? name;
+      }
+      skipSpace();
+      if (text[pos] !== '#') return value;
+      pos++;
+    }
+  };
+
+  for (;;) {
+    const at = text.indexOf('@', pos);
+    if (at === -1) break;
+    pos = at + 1;
+    const typeMatch = /\s*([a-zA-Z]+)\s*([{(])/y;
+    typeMatch.lastIndex = pos;
+    const header = typeMatch.exec(text);
+    if (!header) continue; // a stray "@", e.g. an email address in a comment
+    const type = header[1].toLowerCase();
+    const close = header[2] === '{' ? '}' : ')';
+    pos = typeMatch.lastIndex - 1;
+
+    if (type === 'comment') {
+      readDelimited(header[2], close);
+      continue;
+    }
+    pos++;
+    const entryStart = pos;
+    try {
+      if (type === 'preamble') {
+        readValue();
+      } else if (type === 'string') {
+        skipSpace();
+        const name = readName().toLowerCase();
+        skipSpace();
+        if (text[pos++] !== '=') fail('Expected "="');
+        macros.set(name, readValue());
+      } else {
+        skipSpace();
+        const key = text[pos] === ',' ? '' : readName();
+        const fields: Record<string, string> = {};
+        for (;;) {
+          skipSpace();
+          if (text[pos] === close) break;
+          if (text[pos] === ',') {
+            pos++;
+            continue;
+          }
+          if (pos >= text.length) fail(`Entry ${key || type} is not closed`);
+          const name = readName().toLowerCase();
+          skipSpace();
+          if (text[pos++] !== '=') fail(`Expected "=" after "${name}"`);
+          fields[name] = readValue();
+        }
+        entries.push({ type, key, fields });
+      }
+      skipSpace();
+      if (text[pos] === close) pos++;
+    } catch (error) {
+      if (!(error instanceof BibliographyParseError)) throw error;
+      skipped.push({ label: `@${type} on line ${lineAt(entryStart)}`, reasons: [error.message] });
+      pos = entryStart; // resume scanning at the next "@"
+    }
+  }
+  return { entries, skipped };
+};
+
+const bibEntryToPaper = ({ key, fields }: BibEntry): Paper => {
+  const field = (name: string) => (fields[name] !== undefined ? decodeLatex(fields[name]) : undefined);
+  const eprintIsArxiv = /arxiv/i.test(`${fields.archiveprefix ?? ''} ${fields.eprinttype ?? ''}`) || !!fields.eprint && !fields.archiveprefix && !fields.eprinttype;
+  const eprint = field('eprint');
+  return buildPaper({
+    title: field('title'),
+    authors: splitTopLevel(fields.author ?? fields.editor ?? '', /^\s+and\s+/i).map(parseBibName),
+    year: field('year') ?? field('date'),
+    abstract: field('abstract'),
+    doi: field('doi'),
+    url: fields.url?.trim(),
+    venue: field('journal') ?? field('journaltitle') ?? field('booktitle'),
+    citationKey: key || undefined,
+    arxivId: (eprintIsArxiv && eprint ? findArxivId(`arXiv:${eprint}`) : undefined)
+      ?? findArxivId(fields.url, fields.doi, field('journal'), field('note'), field('howpublished')),
+  });
+};
+
+export const parseBibTeX = (text: string): BibliographyImport => {
+  const { entries, skipped } = parseBibEntries(text);
+  return { format: 'bibtex', papers: entries.map(bibEntryToPaper), skipped };
+};
+
+// Keys look like "vaswani2017attention", the Google Scholar convention
+export const makeCitationKeys = (papers: Paper[]): string[] => {
+  const used = new Set<string>();
+  return papers.map(p => {
+    const ascii = (s: string) => s.normalize('NFKD').replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+    const base = p.citationKey
+      || `${ascii(splitName(p.authors[0] ?? '').family) || 'anon'}${p.year}${ascii(p.title.split(/\s+/).find(w => w.length > 3) ?? '')}`;
+    let key = base;
+    for (let n = 0; used.has(key); n++) key = `${base}${String.fromCharCode(97 + (n % 26))}${n >= 26 ? Math.floor(n / 26) : ''}`;
+    used.add(key);
+    return key;
+  });
+};
+
+export const toBibTeX = (papers: Paper[]): string => {
+  const keys = makeCitationKeys(papers);
+  return papers.map((p, i) => {
+    const fields: [string, string | undefined][] = [
+      ['title', `{${encodeLatex(p.title)}}`],
+      ['author', p.authors.map(a => {
+        const { given, family, suffix } = splitName(a);
+        return given ? encodeLatex([family, suffix, given].filter(Boolean).join(', ')) : `{${encodeLatex(family)}}`;
+      }).join(' and ')],
+      ['year', p.year],
+      ['journal', p.venue && encodeLatex(p.venue)],
+      ['doi', p.doi],
+      ['eprint', p.arxivId],
+      ['archiveprefix', p.arxivId && 'arXiv'],
+      ['primaryclass', p.arxivId && p.categories?.[0]],
+      ['url', p.link !== '#' ? p.link : undefined],
+      ['abstract', p.abstract && encodeLatex(p.abstract)],
+    ];
+    const body = fields
+      .filter(([, value]) => value)
+      .map(([name, value]) => `  ${name} = {${value}}`)
+      .join(',\n');
+    return `@${p.venue || !p.arxivId ? 'article' : 'misc'}{${keys[i]},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+};
+
+// --- RIS ---
+
+const RIS_LINE = /^([A-Z][A-Z0-9])  -(?: (.*))?$/;
+
+export const parseRIS = (text: string): BibliographyImport => {
+  const records: Record<string, string[]>[] = [];
+  let current: Record<string, string[]> | null = null;
+  let lastTag: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(RIS_LINE);
+    if (!match) {
+      // Wrapped values continue the previous field
+      if (current && lastTag && line.trim()) {
+        const values = current[lastTag];
+        values[values.length - 1] += ` ${line.trim()}`;
+      }
+      continue;
+    }
+    const [, tag, value = ''] = match;
+    if (tag === 'TY') current = {};
+    if (!current) continue;
+    if (tag === 'ER') {
+      records.push(current);
+      current = null;
+      continue;
+    }
+    (current[tag] ??= []).push(value.trim());
+    lastTag = tag;
+  }
+  if (current) records.push(current);
+  if (records.length === 0) throw new BibliographyParseError('No RIS records found (expected "TY  - " lines)', 'ris');
+
+  const papers = records.map(r => {
+    const first = (...tags: string[]) => tags.map(t => r[t]?.[0]).find(Boolean);
+    return buildPaper({
+      title: first('TI', 'T1', 'CT'),
+      authors: [...(r.AU ?? []), ...(r.A1 ?? [])].map(a => {
+        const [family, given, suffix] = a.split(',').map(s => s.trim());
+        return given ? [given, family, suffix].filter(Boolean).join(' ') : a;
+      }),
+      year: first('PY', 'Y1', 'DA'),
+      abstract: first('AB', 'N2'),
+      doi: first('DO'),
+      url: first('UR'),
+      venue: first('JO', 'JF', 'T2', 'BT', 'JA'),
+      citationKey: first('ID'),
+      arxivId: findArxivId(...['AN', 'UR', 'DO', 'N1', 'M3', 'JO', 'T2'].flatMap(t => r[t] ?? [])),
+    });
+  });
+  return { format: 'ris', papers, skipped: [] };
+};
+
+export const toRIS = (papers: Paper[]): string => {
+  const keys = makeCitationKeys(papers);
+  return papers.map((p, i) => {
+    const lines: [string, string | undefined][] = [
+      ['TY', p.venue || !p.arxivId ? 'JOUR' : 'GEN'],
+      ['ID', keys[i]],
+      ['TI', p.title],
+      ...p.authors.map(a => {
+        const { given, family, suffix } = splitName(a);
+        return ['AU', given ? [family, given, suffix].filter(Boolean).join(', ') : family] as [string, string];
+      }),
+      ['PY', p.year],
+      ['JO', p.venue],
+      ['DO', p.doi],
+      ['AN', p.arxivId && `arXiv:${p.arxivId}`],
+      ['UR', p.link !== '#' ? p.link : undefined],
+      ['AB', p.abstract],
+      ['ER', ''],
+    ];
+    return lines
+      .filter(([tag, value]) => value || tag === 'ER')
+      .map(([tag, value]) => `${tag}  - ${value!.replace(/\s*\n\s*/g, ' ')}`.trimEnd())
+      .join('\n');
+  }).join('\n\n') + '\n';
+};
+
+// --- CSL-JSON ---
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+  'non-dropping-particle'?: string;
+  suffix?: string;
+}
+
+interface CslItem {
+  id?: string | number;
+  type?: string;
+  title?: string;
+  author?: CslName[];
+  issued?: { 'date-parts'?: (string | number)[][]; raw?: string; literal?: string };
+  DOI?: string;
+  URL?: string;
+  abstract?: string;
+  'container-title'?: string | string[];
+  number?: string;
+  publisher?: string;
+  note?: string;
+  archive_location?: string;
+}
+
+export const parseCslJson = (text: string): BibliographyImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new BibliographyParseError(`Not valid JSON: ${error instanceof Error ? error.message : error}`, 'csl-json');
+  }
+  const items = Array.isArray(data) ? data : (data as { items?: unknown[] })?.items ?? [data];
+
+  const papers: Paper[] = [];
+  const skipped: DroppedItem[] = [];
+  (items as CslItem[]).forEach((item, index) => {
+    if (!item || typeof item !== 'object') {
+      skipped.push({ label: `item #${index + 1}`, reasons: ['not a CSL item object'] });
+      return;
+    }
+    const issued = item.issued?.['date-parts']?.[0]?.[0] ?? item.issued?.raw ?? item.issued?.literal;
+    const container = Array.isArray(item['container-title']) ? item['container-title'][0] : item['container-title'];
+    papers.push(buildPaper({
+      title: item.title,
+      authors: (item.author ?? []).map(a =>
+        a.literal ?? [a.given, a['non-dropping-particle'], a.family, a.suffix].filter(Boolean).join(' ')),
+      year: issued !== undefined ? String(issued) : undefined,
+      abstract: item.abstract,
+      doi: item.DOI,
+      url: item.URL,
+      venue: container,
+      citationKey: item.id !== undefined ? String(item.id) : undefined,
+      arxivId: findArxivId(item.number, item.URL, item.DOI, item.archive_location, item.note, container),
+    }));
+  });
+  if (papers.length === 0 && skipped.length === 0) throw new BibliographyParseError('No CSL items found', 'csl-json');
+  return { format: 'csl-json', papers, skipped };
+};
+
+export const toCslJson = (papers: Paper[]): string => {
+  const keys = makeCitationKeys(papers);
+  const items: CslItem[] = papers.map((p, i) => ({
+    id: keys[i],
+    type: p.venue || !p.arxivId ? 'article-journal' : 'article',
+    title: p.title,
+    author: p.authors.map(a => {
+      const { given, family, suffix } = splitName(a);
+      return given ? { family, given, ...(suffix ? { suffix } : {}) } : { literal: family };
+    }),
+    ...(p.year ? { issued: { 'date-parts': [[parseInt(p.year, 10)]] } } : {}),
+    ...(p.venue ? { 'container-title': p.venue } : {}),
+    ...(p.doi ? { DOI: p.doi } : {}),
+    ...(p.arxivId ? { number: `arXiv:${p.arxivId}`, ...(p.venue ? {} : { publisher: 'arXiv' }) } : {}),
+    ...(p.link !== '#' ? { URL: p.link } : {}),
+    ...(p.abstract ? { abstract: p.abstract } : {}),
+  }));
+  return JSON.stringify(items, null, 2) + '\n';
+};
+
+// --- Entry points ---
+
+const EXTENSIONS: Record<string, BibliographyFormat> = { bib: 'bibtex', bibtex: 'bibtex', ris: 'ris', json: 'csl-json' };
+
+export const isBibliographyFile = (filename: string) =>
+  (filename.split('.').pop()?.toLowerCase() ?? '') in EXTENSIONS;
+
+export const detectFormat = (text: string, filename?: string): BibliographyFormat => {
+  const byExtension = filename && EXTENSIONS[filename.split('.').pop()?.toLowerCase() ?? ''];
+  if (byExtension) return byExtension;
+  const head = text.trimStart();
+  if (head.startsWith('[') || head.startsWith('{')) return 'csl-json';
+  if (/^TY  - /m.test(text)) return 'ris';
+  if (/@\s*[a-zA-Z]+\s*[{(]/.test(text)) return 'bibtex';
+  throw new BibliographyParseError(`Could not recognise ${filename ? `"${filename}"` : 'the file'} as BibTeX, RIS or CSL-JSON`);
+};
+
+export const parseBibliography = (text: string, filename?: string): BibliographyImport => {
+  switch (detectFormat(text, filename)) {
+    case 'bibtex': return parseBibTeX(text);
+    case 'ris': return parseRIS(text);
+    case 'csl-json': return parseCslJson(text);
+  }
+};
+
+export const formatBibliography = (papers: Paper[], format: BibliographyFormat): string => {
+  switch (format) {
+    case 'bibtex': return toBibTeX(papers);
+    case 'ris': return toRIS(papers);
+    case 'csl-json': return toCslJson(papers);
+  }
+};
@@ -0,0 +1,93 @@
+import { Chunk, Paper } from '../types';
+
+export interface ChunkingOptions {
+  chunkSize: number;    // target characters per chunk
+  chunkOverlap: number; // characters shared between consecutive chunks
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  chunkSize: 1200,
+  chunkOverlap: 200,
+};
+
+// Text that gets indexed for a paper: the full text when we have it, otherwise the metadata we know
+export const getPaperText = (paper: Paper): string => {
+  if (paper.fullText) return paper.fullText;
+  return [
+    paper.title,
+    paper.abstract,
+    paper.summary,
+    paper.highlights.length > 0 ? `Highlights: ${paper.highlights.join('; ')}` : '',
+  ].filter(Boolean).join('\n\n');
+};
+
+const pageForOffset = (paper: Paper, offset: number): number | undefined => {
+  if (!paper.pages || paper.pages.length === 0) return undefined;
+  let page = paper.pages[0].number;
+  for (const p of paper.pages) {
+    if (p.offset > offset) break;
+    page = p.number;
+  }
+  return page;
+};
+
+// Start of the transcript segment an offset falls into
+const timeForOffset = (paper: Paper, offset: number): number | undefined => {
+  const segments = paper.transcript?.segments;
+  if (!segments || segments.length === 0) return undefined;
+  let time = segments[0].start;
+  for (const s of segments) {
+    if (s.offset > offset) break;
+    time = s.start;
+  }
+  return time;
+};
+
+// Prefer to end a chunk on a paragraph, sentence or word boundary close to the target size
+const findBreak = (text: string, start: number, target: number): number => {
+  if (target >= text.length) return text.length;
+  const minEnd = start + Math.floor((target - start) * 0.6);
+  const window = text.slice(minEnd, target);
+
+  for (const pattern of [/\n\s*\n/g, /[.!?]\s/g, /\s/g]) {
+    let last = -1;
+    for (const match of window.matchAll(pattern)) last = match.index! + match[0].length;
+    if (last !== -1) return minEnd + last;
+  }
+  return target;
+};
+
+export const chunkText = (text: string, options: ChunkingOptions = DEFAULT_CHUNKING): { text: string; start: number; end: number }[] => {
+  const { chunkSize, chunkOverlap } = options;
+  if (chunkSize <= 0) throw new Error('chunkSize must be positive');
+  if (chunkOverlap < 0 || chunkOverlap >= chunkSize) throw new Error('chunkOverlap must be between 0 and chunkSize');
+
+  const pieces: { text: string; start: number; end: number }[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const end = findBreak(text, start, start + chunkSize);
+    const piece = text.slice(start, end).trim();
+    if (piece.length > 0) pieces.push({ text: piece, start, end });
+    if (end >= text.length) break;
+
+    // Step back by the overlap, then forward to the next word so chunks don't start mid-word
+    let next = Math.max(end - chunkOverlap, start + 1);
+    while (next < end && !/\s/.test(text[next - 1])) next++;
+    start = next;
+  }
+
+  return pieces;
+};
+
+export const chunkPaper = (paper: Paper, options: ChunkingOptions = DEFAULT_CHUNKING): Chunk[] =>
+  chunkText(getPaperText(paper), options).map((piece, index) => ({
+    id: `${paper.id}#${index}`,
+    paperId: paper.id,
+    index,
+    text: piece.text,
+    start: piece.start,
+    end: piece.end,
+    page: pageForOffset(paper, piece.start),
+    time: timeForOffset(paper, piece.start),
+  }));
@@ -0,0 +1,72 @@
+import { Chunk, Citation, Paper, RetrievedChunk } from '../types';
+import { getPaperText } from './chunking';
+
+// Collects the footnote numbers used in an answer: [2], [1, 3], [2-4]. With `max`, bracketed numbers
+// beyond it ("[2023]", "[1-2024]") are not footnotes and are left out.
+export const extractCitedIndices = (text: string, max = Infinity): Set<number> => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*[-–,]\s*\d+)*)\]/g)) {
+    for (const part of match[1].split(',')) {
+      const [from, to] = part.split(/[-–]/).map(n => parseInt(n.trim(), 10));
+      if ((to ?? from) > max) continue;
+      if (to === undefined) {
+        cited.add(from);
+      } else {
+        for (let n = from; n <= to && n - from < 50; n++) cited.add(n);
+      }
+    }
+  }
+  return cited;
+};
+
+export const buildCitations = (
+  answer: string,
+  retrieved: RetrievedChunk[],
+  papers: Paper[],
+  webSources: { uri: string; title: string }[] = []
+): Citation[] => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  // Only passages the answer actually cites are its sources; an answer without markers cites none
+  const cited = extractCitedIndices(answer, retrieved.length);
+
+  const paperCitations: Citation[] = retrieved
+    .map(({ chunk }, i): Citation => ({
+      index: i + 1,
+      kind: 'paper',
+      title: byId.get(chunk.paperId)?.title || 'Unknown source',
+      paperId: chunk.paperId,
+      chunkId: chunk.id,
+      page: chunk.page,
+      time: chunk.time,
+      snippet: chunk.text.slice(0, 200),
+    }))
+    .filter(c => cited.has(c.index));
+
+  const seen = new Set<string>();
+  const webCitations: Citation[] = webSources
+    .filter(s => !seen.has(s.uri) && seen.add(s.uri))
+    .map((s, i) => ({
+      index: retrieved.length + i + 1,
+      kind: 'web',
+      title: s.title,
+      url: s.uri,
+    }));
+
+  return [...paperCitations, ...webCitations];
+};
+
+export interface ReaderFocus {
+  start?: number; // character range within the paper's source text
+  end?: number;
+  page?: number;
+}
+
+/**
+ * Where a citation points inside its paper. The chunk gives the exact range;
+ * without it (the index was rebuilt differently) the stored snippet is looked up in the text.
+ */
+export const locateCitation = (paper: Paper, citation: Citation, chunk?: Chunk): ReaderFocus => {
+  if (chunk && chunk.paperId === paper.id) return { start: chunk.start, end: chunk.end, page: chunk.page };
+  const start = citation.snippet ? getPaperText(paper).indexOf(citation.snippet) : -1;
+  return start === -1 ? { page: citation.page } : { start, end: start + citation.snippet!.length, page: citation.page };
+};
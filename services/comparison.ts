@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import { Chunk, Citation, Paper } from '../types';
+import { chunkPaper } from './chunking';
+import { EmbeddingProvider } from './embeddings';
+import { formatTimestamp } from './media';
+import type { TaskTarget } from './providers';
+import { DroppedItem, generateValidatedList, ValidationReport } from './structured';
+import { VectorStore } from './vectorStore';
+
+export type ComparisonColumn = 'problem' | 'method' | 'datasets' | 'metrics' | 'results' | 'limitations' | 'compute';
+
+// `query` finds the passages a column is extracted from; `instruction` tells the model what belongs in it
+export const COMPARISON_COLUMNS: Record<ComparisonColumn, { label: string; query: string; instruction: string }> = {
+  problem: {
+    label: 'Problem',
+    query: 'problem statement, motivation and research question addressed',
+    instruction: 'the problem or research question the paper addresses',
+  },
+  method: {
+    label: 'Method',
+    query: 'proposed method, model architecture and approach',
+    instruction: 'the proposed method or approach, in one or two sentences',
+  },
+  datasets: {
+    label: 'Datasets',
+    query: 'datasets, benchmarks and training data used in the experiments',
+    instruction: 'datasets and benchmarks used, comma separated',
+  },
+  metrics: {
+    label: 'Metrics',
+    query: 'evaluation metrics and evaluation protocol',
+    instruction: 'evaluation metrics, comma separated',
+  },
+  results: {
+    label: 'Reported results',
+    query: 'main experimental results, scores and improvements over baselines',
+    instruction: 'the headline results with their numbers and the baselines they are compared to',
+  },
+  limitations: {
+    label: 'Limitations',
+    query: 'limitations, failure cases and future work',
+    instruction: 'limitations stated by the authors',
+  },
+  compute: {
+    label: 'Compute',
+    query: 'compute budget, GPUs, training time, parameter count and hardware',
+    instruction: 'hardware, training time, model size or other compute figures',
+  },
+};
+
+export const COLUMN_KEYS = Object.keys(COMPARISON_COLUMNS) as ComparisonColumn[];
+
+export interface ComparisonCell {
+  value: string;          // empty when the passages don't report it
+  sources: Citation[];    // the passages the value was extracted from
+}
+
+export interface ComparisonRow {
+  paperId: string;
+  cells: Partial<Record<ComparisonColumn, ComparisonCell>>;
+}
+
+interface DraftCell {
+  column: ComparisonColumn;
+  value: string;
+  sources: number[];
+}
+
+// Passage numbers must refer to a passage that was actually shown; an uncited claim is not accepted
+const cellSchema = (passageCount: number): z.ZodType<DraftCell> => z.object({
+  column: z.enum(COLUMN_KEYS as [ComparisonColumn, ...ComparisonColumn[]]),
+  value: z.string().trim(),
+  sources: z.array(z.number().int().min(1).max(passageCount, `only passages 1-${passageCount} exist`)),
+}).refine(cell => cell.value === '' || cell.sources.length > 0, {
+  message: 'a non-empty value must cite at least one passage',
+  path: ['sources'],
+});
+
+// Passages per column per paper, and in total per paper, sent to the model
+const PASSAGES_PER_COLUMN = 2;
+const MAX_PASSAGES = 10;
+
+const byDocumentOrder = (a: Chunk, b: Chunk) => a.index - b.index;
+
+/**
+ * The chunks of one paper that best match the column queries. Papers that are
+ * not in the index (or an empty index) fall back to their opening chunks.
+ */
+const selectPassages = (paper: Paper, store: VectorStore, queryVectors: number[][]): Chunk[] => {
+  const selected = new Map<string, Chunk>();
+  for (const vector of queryVectors) {
+    store.search(vector, PASSAGES_PER_COLUMN, chunk => chunk.paperId === paper.id)
+      .forEach(({ chunk }) => selected.set(chunk.id, chunk));
+  }
+  const passages = selected.size > 0 ? Array.from(selected.values()) : chunkPaper(paper).slice(0, MAX_PASSAGES);
+  return passages.slice(0, MAX_PASSAGES).sort(byDocumentOrder);
+};
+
+const locationOf = (chunk: Chunk) =>
+  chunk.page !== undefined ? ` (p. ${chunk.page})` : chunk.time !== undefined ? ` (at ${formatTimestamp(chunk.time)})` : '';
+
+const buildPrompt = (paper: Paper, passages: Chunk[]) => `You are filling in one row of a table that compares research papers.
+  For each column below, extract the value from the numbered passages of "${paper.title}".
+  ${COLUMN_KEYS.map(key => `- "${key}": ${COMPARISON_COLUMNS[key].instruction}`).join('\n  ')}
+
+  Return a JSON array with one object per column: {"column": "<column>", "value": "<concise value>", "sources": [<passage numbers>]}.
+  Use only the passages. Every value must cite the passages it is taken from. If the passages don't report a column, return an empty value and no sources.
+
+  Passages:
+  ${passages.map((chunk, i) => `[${i + 1}]${locationOf(chunk)}\n${chunk.text}`).join('\n\n')}`;
+
+const toCitation = (chunk: Chunk, index: number, paper: Paper): Citation => ({
+  index,
+  kind: 'paper',
+  title: paper.title,
+  paperId: paper.id,
+  chunkId: chunk.id,
+  page: chunk.page,
+  time: chunk.time,
+  snippet: chunk.text.slice(0, 200),
+});
+
+export interface ComparisonResult {
+  rows: ComparisonRow[];
+  dropped: DroppedItem[];
+  error?: string; // set when a request failed; the rows extracted before it are kept
+}
+
+export interface CompareContext {
+  store: VectorStore;
+  embedder: EmbeddingProvider;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Extracts one comparison row per paper, each cell validated and tied to the
+ * passages it cites. Columns the model leaves out or gets wrong after the
+ * repair prompt stay empty and are reported in `dropped`.
+ */
+export const comparePapers = async (
+  papers: Paper[],
+  { provider, model }: TaskTarget,
+  { store, embedder, signal, onProgress }: CompareContext
+): Promise<ComparisonResult> => {
+  const rows: ComparisonRow[] = [];
+  const dropped: DroppedItem[] = [];
+  const queryVectors = store.size > 0 ? await Promise.all(COLUMN_KEYS.map(key => embedder.embedQuery(COMPARISON_COLUMNS[key].query))) : [];
+
+  for (const [i, paper] of papers.entries()) {
+    if (signal?.aborted) break;
+    const passages = selectPassages(paper, store, queryVectors);
+    const label = (column?: unknown) => `${typeof column === 'string' && column in COMPARISON_COLUMNS ? COMPARISON_COLUMNS[column as ComparisonColumn].label : 'Cell'} of "${paper.title}"`;
+
+    let report: ValidationReport<DraftCell>;
+    try {
+      report = await generateValidatedList({
+        prompt: buildPrompt(paper, passages),
+        schema: cellSchema(Math.max(passages.length, 1)),
+        describe: (raw) => label((raw as { column?: unknown } | null)?.column),
+        key: cell => cell.column,
+        generate: (contents) => provider.generate({ model, prompt: contents, json: true, signal }),
+      });
+    } catch (error) {
+      if (signal?.aborted) break;
+      return { rows, dropped, error: error instanceof Error ? error.message : String(error) };
+    }
+    dropped.push(...report.dropped);
+
+    const cells: ComparisonRow['cells'] = {};
+    report.items.forEach(({ column, value, sources }) => {
+      const cited = Array.from(new Set(sources)).sort((a, b) => a - b);
+      cells[column] = { value, sources: cited.map(n => toCitation(passages[n - 1], n, paper)) };
+    });
+    const missing = COLUMN_KEYS.filter(key => !cells[key]);
+    if (missing.length > 0) dropped.push({ label: `"${paper.title}"`, reasons: [`no value for ${missing.map(key => COMPARISON_COLUMNS[key].label).join(', ')}`] });
+
+    rows.push({ paperId: paper.id, cells });
+    onProgress?.(i + 1, papers.length);
+  }
+
+  return { rows, dropped };
+};
+
+// --- Sorting & export ---
+
+export type ComparisonSortKey = 'title' | 'year' | ComparisonColumn;
+
+export const sortRows = (rows: ComparisonRow[], papers: Paper[], key: ComparisonSortKey, descending: boolean): ComparisonRow[] => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const valueOf = (row: ComparisonRow) => {
+    const paper = byId.get(row.paperId);
+    if (key === 'title') return paper?.title ?? '';
+    if (key === 'year') return paper?.year ?? '';
+    return row.cells[key]?.value ?? '';
+  };
+  // Empty cells go last in either direction
+  return [...rows].sort((a, b) => {
+    const x = valueOf(a);
+    const y = valueOf(b);
+    if (!x || !y) return (x ? 0 : 1) - (y ? 0 : 1);
+    const order = x.localeCompare(y, undefined, { numeric: true, sensitivity: 'base' });
+    return descending ? -order : order;
+  });
+};
+
+const sourceNote = (cell: ComparisonCell | undefined) => {
+  const locations = (cell?.sources ?? []).map(s => s.page !== undefined ? `p. ${s.page}` : s.time !== undefined ? formatTimestamp(s.time) : null).filter(Boolean);
+  return locations.length > 0 ? ` (${Array.from(new Set(locations)).join(', ')})` : '';
+};
+
+const exportColumns = (rows: ComparisonRow[], papers: Paper[]) => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const header = ['Paper', 'Year', ...COLUMN_KEYS.map(key => COMPARISON_COLUMNS[key].label)];
+  const body = rows.map(row => {
+    const paper = byId.get(row.paperId);
+    return [
+      paper?.title ?? 'Deleted paper',
+      paper?.year ?? '',
+      ...COLUMN_KEYS.map(key => `${row.cells[key]?.value ?? ''}${sourceNote(row.cells[key])}`),
+    ];
+  });
+  return { header, body };
+};
+
+const csvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** The table as CSV; each cell ends with the pages or timestamps it cites. */
+export const formatComparisonCsv = (rows: ComparisonRow[], papers: Paper[]): string => {
+  const { header, body } = exportColumns(rows, papers);
+  return [header, ...body].map(line => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+const markdownField = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+/** The table as a GitHub-flavoured Markdown table. */
+export const formatComparisonMarkdown = (rows: ComparisonRow[], papers: Paper[]): string => {
+  const { header, body } = exportColumns(rows, papers);
+  const line = (fields: string[]) => `| ${fields.map(markdownField).join(' | ')} |`;
+  return [line(header), line(header.map(() => '---')), ...body.map(line)].join('\n') + '\n';
+};
@@ -0,0 +1,216 @@
+import { ChatMessage, Paper, RetrievedChunk } from '../types';
+import type { ChatTurn, ProviderId, TaskTarget } from './providers';
+import { DEFAULT_RAG_CONFIG, formatContext } from './rag';
+import { buildSystemPrompt } from './assistant';
+
+// --- Token counting ---
+
+export interface ModelProfile {
+  contextWindow: number;
+  charsPerToken: number; // for Latin text; CJK characters are counted as one token each
+}
+
+// First match wins; windows are the documented input limits of each model family
+const MODEL_PROFILES: [RegExp, ModelProfile][] = [
+  [/native-audio|-live/, { contextWindow: 32_768, charsPerToken: 4 }],
+  [/^gemini-(1\.5|2|3)/, { contextWindow: 1_048_576, charsPerToken: 4 }],
+  [/^gemini/, { contextWindow: 32_768, charsPerToken: 4 }],
+  [/^gpt-4\.1/, { contextWindow: 1_047_576, charsPerToken: 4 }],
+  [/^(gpt-4o|gpt-4-turbo|o\d)/, { contextWindow: 128_000, charsPerToken: 4 }],
+  [/^gpt-3\.5/, { contextWindow: 16_385, charsPerToken: 4 }],
+  [/^llama3\.[1-3]|^qwen2\.5|^mistral-nemo/, { contextWindow: 128_000, charsPerToken: 3.8 }],
+  [/^(llama3|mistral|qwen)/, { contextWindow: 8_192, charsPerToken: 3.8 }],
+];
+
+const DEFAULT_PROFILES: Record<ProviderId, ModelProfile> = {
+  gemini: { contextWindow: 1_048_576, charsPerToken: 4 },
+  openai: { contextWindow: 128_000, charsPerToken: 4 },
+  ollama: { contextWindow: 8_192, charsPerToken: 3.8 },
+  mock: { contextWindow: 32_768, charsPerToken: 4 },
+};
+
+export const getModelProfile = ({ provider, model }: TaskTarget): ModelProfile =>
+  MODEL_PROFILES.find(([pattern]) => pattern.test(model.toLowerCase()))?.[1] ?? DEFAULT_PROFILES[provider.id];
+
+const CJK = /[぀-ヿ㐀-鿿가-힯]/g;
+
+export const estimateTokens = (text: string, profile: ModelProfile): number => {
+  if (!text) return 0;
+  const cjk = text.match(CJK)?.length ?? 0;
+  return Math.ceil((text.length - cjk) / profile.charsPerToken) + cjk;
+};
+
+// Role markers and separators each turn adds on the wire
+const TURN_OVERHEAD = 4;
+
+const turnTokens = (turns: { text: string }[], profile: ModelProfile) =>
+  turns.reduce((sum, t) => sum + estimateTokens(t.text, profile) + TURN_OVERHEAD, 0);
+
+/** Cuts `text` at a line break so that it stays within `maxTokens`. */
+export const truncateToTokens = (text: string, maxTokens: number, profile: ModelProfile): string => {
+  if (estimateTokens(text, profile) <= maxTokens) return text;
+  let cut = Math.floor(maxTokens * profile.charsPerToken);
+  while (cut > 0 && estimateTokens(text.slice(0, cut), profile) > maxTokens) cut = Math.floor(cut * 0.9);
+  const lineBreak = text.lastIndexOf('\n', cut);
+  return `${text.slice(0, lineBreak > cut * 0.8 ? lineBreak : cut).trimEnd()}\n[...]`;
+};
+
+// --- Budgets ---
+
+// Large windows are capped: filling a million-token window on every turn is slow and expensive
+export const MAX_INPUT_TOKENS = 32_000;
+
+export interface ContextBudget {
+  window: number;
+  input: number;   // everything sent with the request
+  output: number;  // kept free for the answer
+  context: number; // retrieved excerpts
+  history: number; // earlier turns, including the running summary
+}
+
+export const getContextBudget = (profile: ModelProfile): ContextBudget => {
+  const output = Math.min(8_192, Math.floor(profile.contextWindow * 0.2));
+  const input = Math.min(MAX_INPUT_TOKENS, profile.contextWindow - output);
+  return {
+    window: profile.contextWindow,
+    input,
+    output,
+    context: Math.floor(input * 0.5),
+    history: Math.floor(input * 0.3),
+    // the remaining 20% covers the system prompt and the question
+  };
+};
+
+/** Keeps the best-scoring excerpts that fit the context budget; the order (and so the [n] numbering) is preserved. */
+export const fitRetrieved = (retrieved: RetrievedChunk[], papers: Paper[], maxTokens: number, profile: ModelProfile): RetrievedChunk[] => {
+  const kept: RetrievedChunk[] = [];
+  for (const result of retrieved) {
+    if (estimateTokens(formatContext([...kept, result], papers), profile) > maxTokens) break;
+    kept.push(result);
+  }
+  return kept;
+};
+
+// --- History and running summary ---
+
+// Length the running summary is asked to stay within
+const SUMMARY_TOKENS = 600;
+
+export interface HistoryPlan {
+  summary?: string;     // covers everything before `turns`
+  turns: ChatMessage[]; // sent verbatim
+  // Older turns that no longer fit and still have to be folded into the summary
+  pending?: { previous?: string; messages: ChatMessage[]; coversId: string };
+}
+
+/**
+ * Decides which turns of a branch are sent verbatim. Summaries are keyed by the
+ * id of the last message they cover, so a summary stays valid for every branch
+ * that passes through that message. When the recent turns outgrow the budget,
+ * enough of them are marked for summarising to fill only half of it again, so
+ * that the summary is not rewritten on every turn.
+ */
+export const planHistory = (
+  branch: ChatMessage[],
+  summaries: Record<string, string>,
+  maxTokens: number,
+  profile: ModelProfile
+): HistoryPlan => {
+  const usable = branch.filter(m => m.text.trim() && !m.error);
+  let start = 0;
+  let summary: string | undefined;
+  for (let i = usable.length - 1; i >= 0; i--) {
+    if (summaries[usable[i].id]) {
+      summary = summaries[usable[i].id];
+      start = i + 1;
+      break;
+    }
+  }
+
+  const recent = usable.slice(start);
+  const summaryTokens = summary ? estimateTokens(summary, profile) : 0;
+  if (recent.length === 0 || turnTokens(recent, profile) + summaryTokens <= maxTokens) return { summary, turns: recent };
+
+  let keepFrom = usable.length;
+  let used = SUMMARY_TOKENS;
+  while (keepFrom > start && used + turnTokens([usable[keepFrom - 1]], profile) <= maxTokens / 2) {
+    used += turnTokens([usable[--keepFrom]], profile);
+  }
+  // Always summarise at least one turn so the plan makes progress
+  keepFrom = Math.max(keepFrom, start + 1);
+  return {
+    summary,
+    turns: usable.slice(keepFrom),
+    pending: { previous: summary, messages: usable.slice(start, keepFrom), coversId: usable[keepFrom - 1].id },
+  };
+};
+
+export const summarizeConversation = async (
+  previous: string | undefined,
+  messages: ChatMessage[],
+  { provider, model }: TaskTarget,
+  signal?: AbortSignal
+): Promise<string> => {
+  const transcript = messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`).join('\n\n');
+  const prompt = `Update the running summary of a research conversation.
+  Keep the questions asked, the conclusions reached, cited papers and any open threads. Drop pleasantries.
+  Stay under ${Math.round(SUMMARY_TOKENS * 0.75)} words.
+
+  ${previous ? `Summary so far:\n${previous}\n\n` : ''}New turns:\n${transcript}`;
+  return (await provider.generate({ model, prompt, signal })).trim();
+};
+
+export const toChatTurns = (messages: ChatMessage[]): ChatTurn[] => messages.map(m => ({ role: m.role, text: m.text }));
+
+// --- Usage ---
+
+export interface ContextUsage {
+  budget: ContextBudget;
+  system: number;
+  summary: number;
+  history: number;
+  context: number; // expected size of the retrieved excerpts
+  question: number;
+  total: number;
+}
+
+/** What the next request on `branch` is expected to use, for the dashboard meter. */
+export const estimateUsage = (
+  target: TaskTarget,
+  branch: ChatMessage[],
+  summaries: Record<string, string>,
+  question: string,
+  hasIndex: boolean
+): ContextUsage => {
+  const profile = getModelProfile(target);
+  const budget = getContextBudget(profile);
+  const plan = planHistory(branch, summaries, budget.history, profile);
+  const { topK, chunkSize } = DEFAULT_RAG_CONFIG;
+  // Each excerpt also carries a numbered source line
+  const excerpt = Math.ceil(chunkSize / profile.charsPerToken) + 30;
+  const usage = {
+    system: estimateTokens(buildSystemPrompt(''), profile),
+    summary: plan.pending ? SUMMARY_TOKENS : estimateTokens(plan.summary ?? '', profile),
+    history: turnTokens(plan.turns, profile),
+    context: hasIndex ? Math.min(budget.context, topK * excerpt) : 0,
+    question: estimateTokens(question, profile),
+  };
+  return { budget, ...usage, total: Object.values(usage).reduce((a, b) => a + b, 0) };
+};
+
+/** One line per paper for prompts that look details up with tools (the voice agent), packed until `maxTokens` is reached. */
+export const packPaperCatalogue = (papers: Paper[], maxTokens: number, profile: ModelProfile): string => {
+  const blocks: string[] = [];
+  let used = 0;
+  for (const p of papers) {
+    const block = `- ${p.title} (${p.authors[0] ?? 'Unknown'}${p.authors.length > 1 ? ' et al.' : ''}${p.year ? `, ${p.year}` : ''})`;
+    const tokens = estimateTokens(block, profile) + 1;
+    if (used + tokens > maxTokens) {
+      blocks.push(`[${papers.length - blocks.length} more papers omitted]`);
+      break;
+    }
+    blocks.push(block);
+    used += tokens;
+  }
+  return blocks.join('\n');
+};
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+import { Chunk, DatasetExample, DatasetExampleKind, Paper } from '../types';
+import { chunkPaper } from './chunking';
+import { fnv1a } from './embeddings';
+import type { TaskTarget } from './providers';
+import { DroppedItem, generateValidatedList, ValidationReport } from './structured';
+
+export interface DatasetOptions {
+  kinds: DatasetExampleKind[];
+  perChunk: number;          // examples of each kind per chunk
+  maxChunksPerPaper: number; // spread evenly over the paper
+  minInstructionChars: number;
+  minOutputChars: number;
+  maxOutputChars: number;
+}
+
+export const DEFAULT_DATASET_OPTIONS: DatasetOptions = {
+  kinds: ['instruction', 'qa'],
+  perChunk: 2,
+  maxChunksPerPaper: 6,
+  minInstructionChars: 15,
+  minOutputChars: 40,
+  maxOutputChars: 2000,
+};
+
+export const EXAMPLE_KIND_LABELS: Record<DatasetExampleKind, string> = {
+  instruction: 'Instruction / answer',
+  qa: 'Question / answer',
+};
+
+interface DraftExample {
+  instruction: string;
+  output: string;
+}
+
+const draftSchema: z.ZodType<DraftExample> = z.object({
+  instruction: z.string().trim().min(1, 'instruction is empty'),
+  output: z.string().trim().min(1, 'output is empty'),
+});
+
+// Instruction examples work on the passage, which is kept as their input; QA pairs are closed-book
+const buildPrompt = (kind: DatasetExampleKind, paper: Paper, chunk: Chunk, count: number) => kind === 'instruction'
+  ? `You are writing supervised fine-tuning data for a research assistant.
+  Write ${count} diverse instructions a researcher could give about the passage below (explain, summarise, compare, extract, critique), each with an ideal response.
+  - "instruction": the task, phrased without quoting the passage
+  - "output": a complete, accurate response that uses only the passage
+  Return a JSON array of objects with "instruction" and "output".
+
+  Paper: ${paper.title}
+  Passage:
+  ${chunk.text}`
+  : `You are writing supervised fine-tuning data for a research assistant.
+  Write ${count} question/answer pairs that test knowledge contained in the passage below.
+  - "instruction": a self-contained question that names the method, model or result it asks about; never refer to "the passage" or "the paper"
+  - "output": a correct, self-contained answer supported by the passage
+  Return a JSON array of objects with "instruction" and "output".
+
+  Paper: ${paper.title}
+  Passage:
+  ${chunk.text}`;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const wordSet = (text: string) => new Set(normalize(text).split(' ').filter(Boolean));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared || 1);
+};
+
+// Rephrasings of the same question count as duplicates, not only exact copies
+const NEAR_DUPLICATE = 0.8;
+
+const lengthProblems = (draft: DraftExample, options: DatasetOptions): string[] => [
+  draft.instruction.length < options.minInstructionChars && `instruction is shorter than ${options.minInstructionChars} characters`,
+  draft.output.length < options.minOutputChars && `output is shorter than ${options.minOutputChars} characters`,
+  draft.output.length > options.maxOutputChars && `output is longer than ${options.maxOutputChars} characters`,
+].filter((p): p is string => typeof p === 'string');
+
+// Short chunks (reference lists, captions) make poor examples
+const MIN_CHUNK_CHARS = 300;
+
+const pickChunks = (paper: Paper, max: number): Chunk[] => {
+  const chunks = chunkPaper(paper).filter(c => c.text.length >= MIN_CHUNK_CHARS);
+  if (chunks.length <= max) return chunks;
+  const step = chunks.length / max;
+  return Array.from({ length: max }, (_, i) => chunks[Math.floor(i * step)]);
+};
+
+const describeDraft = (kind: DatasetExampleKind, paper: Paper, chunk: Chunk, n: number) =>
+  `${EXAMPLE_KIND_LABELS[kind]} #${n + 1} from "${paper.title}" (chunk ${chunk.index + 1})`;
+
+export interface DatasetGenerationResult {
+  examples: DatasetExample[];
+  dropped: DroppedItem[];
+  error?: string; // set when a request failed; the examples generated before it are kept
+}
+
+export interface GenerateDatasetContext {
+  collectionId: string;
+  existing: DatasetExample[]; // new examples must not duplicate these
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Writes instruction and QA examples for each paper, chunk by chunk. Invalid,
+ * out-of-bounds and duplicate examples are reported in `dropped`. Stopping
+ * through `signal`, or a failed request, returns what was generated so far.
+ */
+export const generateDataset = async (
+  papers: Paper[],
+  { provider, model }: TaskTarget,
+  options: DatasetOptions,
+  { collectionId, existing, signal, onProgress }: GenerateDatasetContext
+): Promise<DatasetGenerationResult> => {
+  const examples: DatasetExample[] = [];
+  const dropped: DroppedItem[] = [];
+  const seen = existing.map(e => ({ kind: e.kind, words: wordSet(e.instruction) }));
+
+  const jobs = papers.flatMap(paper => pickChunks(paper, options.maxChunksPerPaper)
+    .flatMap(chunk => options.kinds.map(kind => ({ paper, chunk, kind }))));
+
+  for (const [i, { paper, chunk, kind }] of jobs.entries()) {
+    if (signal?.aborted) break;
+    let report: ValidationReport<DraftExample>;
+    try {
+      report = await generateValidatedList({
+        prompt: buildPrompt(kind, paper, chunk, options.perChunk),
+        schema: draftSchema,
+        describe: (_raw, n) => describeDraft(kind, paper, chunk, n),
+        key: d => normalize(d.instruction),
+        generate: (contents) => provider.generate({ model, prompt: contents, json: true, signal }),
+      });
+    } catch (error) {
+      if (signal?.aborted) break;
+      return { examples, dropped, error: error instanceof Error ? error.message : String(error) };
+    }
+    dropped.push(...report.dropped);
+
+    report.items.forEach((draft, n) => {
+      const label = describeDraft(kind, paper, chunk, n);
+      const problems = lengthProblems(draft, options);
+      if (problems.length > 0) return dropped.push({ label, reasons: problems });
+
+      const words = wordSet(draft.instruction);
+      if (seen.some(s => s.kind === kind && jaccard(s.words, words) >= NEAR_DUPLICATE)) {
+        return dropped.push({ label, reasons: ['near-duplicate of an existing example'] });
+      }
+      seen.push({ kind, words });
+
+      examples.push({
+        id: crypto.randomUUID(),
+        collectionId,
+        kind,
+        instruction: draft.instruction,
+        input: kind === 'instruction' ? chunk.text : undefined,
+        output: draft.output,
+        paperId: paper.id,
+        chunkId: chunk.id,
+        page: chunk.page,
+        time: chunk.time,
+        status: 'pending',
+        split: 'train',
+        createdAt: Date.now(),
+      });
+    });
+    onProgress?.(i + 1, jobs.length);
+  }
+
+  return { examples, dropped };
+};
+
+/**
+ * Deterministic train/eval split: examples are ordered by a hash of their id
+ * and the first `evalFraction` of them go to eval, so splitting the same
+ * examples again gives the same result.
+ */
+export const assignSplits = (examples: DatasetExample[], evalFraction: number, seed = 'neurpaper'): DatasetExample[] => {
+  const ranked = [...examples].sort((a, b) => fnv1a(seed + a.id) - fnv1a(seed + b.id));
+  const evalCount = Math.round(ranked.length * Math.min(Math.max(evalFraction, 0), 1));
+  const evalIds = new Set(ranked.slice(0, evalCount).map(e => e.id));
+  return examples.map(e => ({ ...e, split: evalIds.has(e.id) ? 'eval' : 'train' }));
+};
+
+// --- Export ---
+
+export type DatasetFormat = 'alpaca' | 'sharegpt' | 'openai';
+
+export const DATASET_FORMATS: Record<DatasetFormat, { label: string }> = {
+  alpaca: { label: 'Alpaca' },
+  sharegpt: { label: 'ShareGPT' },
+  openai: { label: 'OpenAI chat' },
+};
+
+export interface ExportOptions {
+  papers: Paper[];  // resolves the provenance titles
+  system?: string;  // system prompt for the chat formats
+  includeSource: boolean; // OpenAI's fine-tuning API rejects unknown keys, so this can be turned off
+}
+
+const sourceOf = (example: DatasetExample, papers: Paper[]) => ({
+  paperId: example.paperId,
+  paperTitle: papers.find(p => p.id === example.paperId)?.title,
+  chunkId: example.chunkId,
+  page: example.page,
+  time: example.time,
+});
+
+const formatExample = (example: DatasetExample, format: DatasetFormat, { papers, system, includeSource }: ExportOptions) => {
+  const prompt = example.input ? `${example.instruction}\n\n${example.input}` : example.instruction;
+  const source = includeSource ? { source: sourceOf(example, papers) } : {};
+  switch (format) {
+    case 'alpaca':
+      return { instruction: example.instruction, input: example.input ?? '', output: example.output, ...source };
+    case 'sharegpt':
+      return {
+        conversations: [
+          ...(system ? [{ from: 'system', value: system }] : []),
+          { from: 'human', value: prompt },
+          { from: 'gpt', value: example.output },
+        ],
+        ...source,
+      };
+    case 'openai':
+      return {
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: prompt },
+          { role: 'assistant', content: example.output },
+        ],
+        ...source,
+      };
+  }
+};
+
+/** Accepted examples of one split as JSONL. */
+export const formatDataset = (examples: DatasetExample[], split: DatasetExample['split'], format: DatasetFormat, options: ExportOptions): string =>
+  examples
+    .filter(e => e.status === 'accepted' && e.split === split)
+    .map(e => `${JSON.stringify(formatExample(e, format, options))}\n`)
+    .join('');
@@ -0,0 +1,83 @@
+import type { LLMProvider, TaskTarget } from './providers';
+
+export interface EmbeddingProvider {
+  // Identifies the vector space; vectors from different ids must never be compared
+  id: string;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+};
+
+const EMBED_DIMENSIONS = 768;
+
+/** Embeds through whichever LLM provider the settings assign to the embed task. */
+export class ProviderEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private provider: LLMProvider, private model: string) {
+    this.id = `${provider.id}:${model}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors = await this.provider.embed({ model: this.model, texts, taskType: 'document', dimensions: EMBED_DIMENSIONS });
+    return vectors.map(normalize);
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.provider.embed({ model: this.model, texts: [text], taskType: 'query', dimensions: EMBED_DIMENSIONS });
+    return normalize(vector);
+  }
+}
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// FNV-1a, so the same token always lands in the same bucket across sessions
+export const fnv1a = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Deterministic feature-hashing embedder (unigrams + bigrams). No network access,
+ * so it works offline and gives reproducible results in tests.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private dimensions = 512) {
+    this.id = `local-hash:${dimensions}`;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)];
+
+    for (const feature of features) {
+      const h = fnv1a(feature);
+      const sign = (h & 1) === 0 ? 1 : -1;
+      vector[(h >>> 1) % this.dimensions] += sign;
+    }
+    return normalize(vector);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(t => this.embed(t));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+}
+
+export const createEmbeddingProvider = ({ provider, model }: TaskTarget): EmbeddingProvider =>
+  new ProviderEmbeddingProvider(provider, model);
@@ -0,0 +1,134 @@
+import { Chunk, Paper } from '../types';
+import { EmbeddingProvider } from './embeddings';
+import { VectorStore } from './vectorStore';
+import { indexPapers, addToStore, RagConfig, DEFAULT_RAG_CONFIG } from './rag';
+import { summarizePapers } from './assistant';
+import { paperKeys, validatePapers } from './paperSchema';
+import { getActiveCollectionId, mergeCorpus } from './storage';
+import { DroppedItem } from './structured';
+import { PipelineStep, StepSkippedError } from './pipeline';
+import { TaskTarget } from './providers';
+
+export interface IngestState {
+  papers: Paper[];
+  chunks: Chunk[];
+  vectors: number[][];
+  media: Record<string, Blob>; // recordings of transcript sources, by paper id
+}
+
+export interface IngestDeps {
+  collectionId: string;
+  summarizer: TaskTarget;
+  embedder: EmbeddingProvider;
+  store: VectorStore;
+  ragConfig?: RagConfig;
+  // Papers already in the collection; new items matching one of them are dropped as duplicates
+  existing: Paper[];
+  onDropped: (items: DroppedItem[]) => void;
+  onPapers: (papers: Paper[]) => void;
+}
+
+export const createIngestState = (): IngestState => ({ papers: [], chunks: [], vectors: [], media: {} });
+
+/**
+ * The shared tail of every ingestion job. `fetchStep` (id "fetch") fills
+ * `state.papers`; everything after it is the same for all sources. Only those
+ * papers are processed and merged into the collection. A fetched paper that
+ * keeps the id of an existing one replaces it (re-processing).
+ */
+export const createIngestSteps = (fetchStep: PipelineStep<IngestState>, deps: IngestDeps): PipelineStep<IngestState>[] => [
+  { ...fetchStep, id: 'fetch' },
+  {
+    id: 'validate',
+    label: 'Validating paper metadata',
+    dependsOn: ['fetch'],
+    run: async (state) => {
+      const { items: valid, dropped } = validatePapers(state.papers);
+
+      const known = new Map<string, Paper>();
+      deps.existing.forEach(p => paperKeys(p).forEach(k => known.set(k, p)));
+      const items = valid.filter(paper => {
+        const match = paperKeys(paper).map(k => known.get(k)).find(p => p && p.id !== paper.id);
+        if (match) dropped.push({ label: `"${paper.title.slice(0, 80)}"`, reasons: [`already in this collection as "${match.title.slice(0, 80)}"`] });
+        return !match;
+      });
+
+      deps.onDropped(dropped);
+      if (items.length === 0) {
+        if (valid.length > 0) throw new StepSkippedError('All papers are already in this collection');
+        throw new Error(dropped.length > 0 ? 'Every paper failed validation' : 'No papers to ingest');
+      }
+      state.papers = items;
+      return dropped.length > 0 ? `${items.length} new, ${dropped.length} dropped` : `${items.length} papers valid`;
+    },
+  },
+  {
+    id: 'summarize',
+    label: 'Summarizing abstracts',
+    dependsOn: ['validate'],
+    run: async (state, ctx) => {
+      // Metadata comes from the source; the model only writes the digest
+      const pending = state.papers.filter(p => p.arxivId && p.highlights.length === 0);
+      if (pending.length === 0) throw new StepSkippedError('Nothing to summarize');
+
+      const report = await summarizePapers(pending, deps.summarizer, ctx.signal);
+      ctx.throwIfCancelled();
+      const byId = new Map(report.items.map(d => [d.arxivId, d]));
+      state.papers = state.papers.map(p => {
+        const digest = p.arxivId ? byId.get(p.arxivId) : undefined;
+        return digest ? { ...p, summary: digest.summary, highlights: digest.highlights } : p;
+      });
+
+      const missing = pending.filter(p => !byId.has(p.arxivId!));
+      deps.onDropped([
+        ...report.dropped,
+        ...missing
+          .filter(p => !report.dropped.some(d => d.label.includes(p.arxivId!)))
+          .map(p => ({ label: `digest for ${p.arxivId}`, reasons: ['no summary returned, keeping the arXiv abstract'] })),
+      ]);
+      const repairs = report.attempts > 1 ? ` after ${report.attempts - 1} repair prompt(s)` : '';
+      return `Summaries for ${report.items.length}/${pending.length} papers${repairs}`;
+    },
+  },
+  {
+    id: 'index',
+    label: 'Chunking text and generating embeddings',
+    dependsOn: ['validate'],
+    runsAfter: ['summarize'],
+    run: async (state, ctx) => {
+      const { chunks, vectors } = await indexPapers(state.papers, deps.embedder, deps.ragConfig ?? DEFAULT_RAG_CONFIG, {
+        signal: ctx.signal,
+        onProgress: (done, total) => ctx.progress((done / total) * 100, `${done}/${total} chunks embedded`),
+      });
+      state.chunks = chunks;
+      state.vectors = vectors;
+      return `Indexed ${chunks.length} chunks (${deps.embedder.id})`;
+    },
+  },
+  {
+    id: 'persist',
+    label: 'Saving to knowledge base',
+    dependsOn: ['index'],
+    completesOnCancel: true,
+    run: async (state, ctx) => {
+      // Re-processed papers keep when they were first added and the tags the user gave them
+      const existing = new Map(deps.existing.map(p => [p.id, p]));
+      const now = Date.now();
+      state.papers = state.papers.map(p => ({
+        ...p,
+        addedAt: existing.get(p.id)?.addedAt ?? p.addedAt ?? now,
+        ...(existing.get(p.id)?.tags ? { tags: existing.get(p.id)!.tags } : {}),
+      }));
+      // Nothing is written after a cancel; once the save has started it is seen through
+      ctx.throwIfCancelled();
+      await mergeCorpus(deps.collectionId, state.papers, state.chunks, state.vectors, deps.embedder.id, state.media);
+      // The user may have switched collections meanwhile; the saved papers show up when it is reopened.
+      // Only saved chunks reach the shared index, so a failed job can't leak into another collection
+      if (getActiveCollectionId() === deps.collectionId) {
+        addToStore(deps.store, deps.embedder.id, state.papers, { chunks: state.chunks, vectors: state.vectors });
+        deps.onPapers(state.papers);
+      }
+      return `${state.papers.length} papers saved`;
+    },
+  },
+];
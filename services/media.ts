@@ -0,0 +1,186 @@
+import { MediaTranscript, Paper, TranscriptSegment } from '../types';
+import type { TaskTarget, TimedText } from './providers';
+
+export class MediaTranscriptionError extends Error {
+  constructor(message: string, public readonly fileName?: string) {
+    super(message);
+    this.name = 'MediaTranscriptionError';
+  }
+}
+
+const MEDIA_EXTENSIONS: Record<string, MediaTranscript['kind']> = {
+  mp3: 'audio', m4a: 'audio', wav: 'audio', ogg: 'audio', oga: 'audio', opus: 'audio', flac: 'audio', aac: 'audio',
+  mp4: 'video', m4v: 'video', webm: 'video', mov: 'video',
+};
+
+export const MEDIA_ACCEPT = Object.keys(MEDIA_EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+export const mediaKind = (file: File): MediaTranscript['kind'] | null => {
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (file.type.startsWith('video/')) return 'video';
+  return MEDIA_EXTENSIONS[file.name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+};
+
+export const isMediaFile = (file: File) => mediaKind(file) !== null;
+
+/** 75 -> "1:15", 3725 -> "1:02:05" */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Speech models work at 16 kHz; a mono 16-bit WAV at this rate is about 1.9 MB per minute
+const SAMPLE_RATE = 16_000;
+// Keeps each request well under the upload limits of the transcription APIs
+const SEGMENT_SECONDS = 120;
+
+// Decodes the audio track (of a video too) and mixes it down to mono at SAMPLE_RATE
+const decodeToMono = async (file: File): Promise<Float32Array> => {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await new OfflineAudioContext(1, 1, SAMPLE_RATE).decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new MediaTranscriptionError(`Could not decode the audio of "${file.name}". The browser may not support this format: ${reason}`, file.name);
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+/**
+ * Splits a recording into [start, end) sample ranges of at most `maxSeconds`.
+ * Each cut is placed at the quietest 100 ms in the last quarter of the range,
+ * so words are rarely split between two requests.
+ */
+export const splitAtPauses = (samples: Float32Array, sampleRate: number, maxSeconds = SEGMENT_SECONDS): [number, number][] => {
+  const max = Math.floor(maxSeconds * sampleRate);
+  const window = Math.floor(sampleRate / 10);
+  const ranges: [number, number][] = [];
+  let start = 0;
+
+  while (samples.length - start > max) {
+    let cut = start + max;
+    let quietest = Infinity;
+    for (let w = start + Math.floor(max * 0.75); w + window <= start + max; w += window) {
+      let energy = 0;
+      for (let i = w; i < w + window; i++) energy += samples[i] * samples[i];
+      if (energy < quietest) {
+        quietest = energy;
+        cut = w + Math.floor(window / 2);
+      }
+    }
+    ranges.push([start, cut]);
+    start = cut;
+  }
+  ranges.push([start, samples.length]);
+  return ranges;
+};
+
+// 16-bit PCM mono WAV
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, text: string) => [...text].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+const titleFromFileName = (name: string) =>
+  name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim() || name;
+
+const transcriptPaper = (title: string, passages: TimedText[], meta: Omit<MediaTranscript, 'segments'>, year: string): Paper => {
+  const segments: TranscriptSegment[] = [];
+  let fullText = '';
+  for (const p of passages) {
+    segments.push({ ...p, offset: fullText.length });
+    fullText += p.text + '\n';
+  }
+  fullText = fullText.trimEnd();
+
+  return {
+    id: crypto.randomUUID(),
+    title,
+    authors: ['Unknown'],
+    year,
+    summary: fullText.slice(0, 600),
+    highlights: [`${formatTimestamp(meta.duration)} ${meta.kind} recording`, `${fullText.split(/\s+/).length.toLocaleString()} words transcribed`],
+    link: '#',
+    fullText,
+    transcript: { ...meta, segments },
+  };
+};
+
+export interface TranscribeOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Decodes a recording in the browser, transcribes it segment by segment and returns it as a transcript source. */
+export const transcribeMedia = async (file: File, { provider, model }: TaskTarget, { signal, onProgress }: TranscribeOptions = {}): Promise<Paper> => {
+  const kind = mediaKind(file);
+  if (!kind) throw new MediaTranscriptionError(`"${file.name}" is not an audio or video file.`, file.name);
+  if (!provider.transcribe) {
+    throw new MediaTranscriptionError(`${provider.label} cannot transcribe audio. Pick another provider for transcription in the settings.`, file.name);
+  }
+
+  const samples = await decodeToMono(file);
+  const duration = samples.length / SAMPLE_RATE;
+  if (duration < 1) throw new MediaTranscriptionError(`"${file.name}" has no audio track.`, file.name);
+
+  const ranges = splitAtPauses(samples, SAMPLE_RATE);
+  const passages: TimedText[] = [];
+  for (const [i, [start, end]] of ranges.entries()) {
+    const offset = start / SAMPLE_RATE;
+    const length = (end - start) / SAMPLE_RATE;
+    const result = await provider.transcribe({ model, audio: encodeWav(samples.subarray(start, end), SAMPLE_RATE), duration: length, signal });
+    passages.push(...result.map(p => ({ start: offset + p.start, end: offset + Math.min(p.end, length), text: p.text })));
+    onProgress?.(i + 1, ranges.length);
+  }
+  if (passages.length === 0) throw new MediaTranscriptionError(`No speech was recognised in "${file.name}".`, file.name);
+
+  return transcriptPaper(titleFromFileName(file.name), passages, {
+    kind, mimeType: file.type, fileName: file.name, duration,
+  }, new Date(file.lastModified || Date.now()).getFullYear().toString());
+};
+
+/** Transcribes a public video the provider can fetch itself (YouTube). Nothing is downloaded in the browser. */
+export const transcribeHostedVideo = async (
+  url: string,
+  meta: { title: string; author?: string },
+  { provider, model }: TaskTarget,
+  signal?: AbortSignal
+): Promise<Paper> => {
+  if (!provider.transcribeUrl) {
+    throw new MediaTranscriptionError(`${provider.label} cannot transcribe hosted videos. Use Gemini for transcription in the settings.`, url);
+  }
+  const passages = await provider.transcribeUrl({ model, url, signal });
+  if (passages.length === 0) throw new MediaTranscriptionError(`No speech was recognised in ${url}.`, url);
+
+  const duration = Math.max(...passages.map(p => p.end));
+  const paper = transcriptPaper(meta.title, passages, { kind: 'video', mimeType: 'video/youtube', fileName: url, url, duration }, new Date().getFullYear().toString());
+  return { ...paper, authors: meta.author ? [meta.author] : paper.authors, link: url };
+};
@@ -0,0 +1,211 @@
+// Microphone capture for the live voice session: an AudioWorklet resamples to 16 kHz PCM
+// off the main thread, and a local voice-activity detector decides what is worth sending.
+
+export class MicrophoneError extends Error {
+  constructor(message: string, public readonly reason?: string) {
+    super(message);
+    this.name = 'MicrophoneError';
+  }
+}
+
+// 100 ms frames at the rate the Live API expects
+export const CAPTURE_SAMPLE_RATE = 16_000;
+const FRAME_SIZE = CAPTURE_SAMPLE_RATE / 10;
+
+// Runs in the AudioWorkletGlobalScope, where `sampleRate` is the context's rate
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    // One-pole low-pass against aliasing when downsampling
+    this.alpha = this.ratio > 1 ? 1 - Math.exp(-2 * Math.PI * (targetRate * 0.45) / sampleRate) : 1;
+    this.smoothed = 0;
+    this.last = 0;
+    this.position = 0;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.filled = 0;
+    this.sumSquares = 0;
+  }
+
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.filled++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    this.sumSquares += clamped * clamped;
+    if (this.filled === this.frameSize) {
+      const rms = Math.sqrt(this.sumSquares / this.frameSize);
+      this.port.postMessage({ pcm: this.frame.buffer, rms }, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.filled = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    const input = new Float32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+      this.smoothed += this.alpha * (channel[i] - this.smoothed);
+      input[i] = this.smoothed;
+    }
+    // Linear interpolation; position -1 refers to the last sample of the previous block
+    const at = (i) => (i < 0 ? this.last : input[i]);
+    while (this.position < input.length - 1) {
+      const i = Math.floor(this.position);
+      const frac = this.position - i;
+      this.push(at(i) + (at(i + 1) - at(i)) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.last = input[input.length - 1];
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+const getWorkletUrl = () => (workletUrl ??= URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' })));
+
+export interface VadOptions {
+  ratio: number;          // speech is this many times louder than the noise floor
+  minLevel: number;       // RMS below this is never speech
+  attackFrames: number;   // loud frames in a row before speech starts
+  hangoverFrames: number; // quiet frames before speech ends, so pauses between words don't cut off
+}
+
+export const DEFAULT_VAD: VadOptions = { ratio: 3, minLevel: 0.01, attackFrames: 2, hangoverFrames: 8 };
+
+/** Energy-based voice-activity detection with an adaptive noise floor, one update per frame. */
+export class VoiceActivityDetector {
+  private noiseFloor = DEFAULT_VAD.minLevel / 2;
+  private loudFrames = 0;
+  private quietFrames = 0;
+  speaking = false;
+
+  constructor(private readonly options: VadOptions = DEFAULT_VAD) {}
+
+  update(rms: number): boolean {
+    const { ratio, minLevel, attackFrames, hangoverFrames } = this.options;
+    if (rms > Math.max(this.noiseFloor * ratio, minLevel)) {
+      this.quietFrames = 0;
+      if (++this.loudFrames >= attackFrames) this.speaking = true;
+    } else {
+      this.loudFrames = 0;
+      if (this.speaking && ++this.quietFrames >= hangoverFrames) this.speaking = false;
+      // The floor follows the background noise, slowly, only while nobody speaks
+      if (!this.speaking) this.noiseFloor = this.noiseFloor * 0.95 + rms * 0.05;
+    }
+    return this.speaking;
+  }
+}
+
+export interface CaptureFrame {
+  pcm: Int16Array;  // FRAME_SIZE samples at CAPTURE_SAMPLE_RATE
+  level: number;    // RMS, 0-1
+  speaking: boolean;
+}
+
+export interface CaptureOptions {
+  deviceId?: string;
+  onFrame: (frame: CaptureFrame) => void;
+}
+
+// The detector needs a few frames to be sure; those are sent too when speech starts
+const PRE_ROLL_FRAMES = DEFAULT_VAD.attackFrames + 1;
+
+const describeMicError = (error: unknown): MicrophoneError => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError') return new MicrophoneError('Microphone access was denied. Allow it in the browser to talk to the agent.', name);
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return new MicrophoneError('The selected microphone is not available.', name);
+  if (name === 'NotReadableError') return new MicrophoneError('The microphone is in use by another application.', name);
+  return new MicrophoneError(`Could not start the microphone: ${error instanceof Error ? error.message : String(error)}`, name || undefined);
+};
+
+export class MicCapture {
+  private readonly vad = new VoiceActivityDetector();
+  private readonly preRoll: CaptureFrame[] = [];
+  private isMuted = false;
+
+  private constructor(
+    private readonly context: AudioContext,
+    private readonly stream: MediaStream,
+    private readonly source: MediaStreamAudioSourceNode,
+    private readonly node: AudioWorkletNode,
+    private readonly onFrame: (frame: CaptureFrame) => void
+  ) {
+    node.port.onmessage = (event: MessageEvent<{ pcm: ArrayBuffer; rms: number }>) => this.handleFrame(new Int16Array(event.data.pcm), event.data.rms);
+    source.connect(node);
+  }
+
+  static async start({ deviceId, onFrame }: CaptureOptions): Promise<MicCapture> {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { deviceId: deviceId ? { exact: deviceId } : undefined, channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+    } catch (error) {
+      throw describeMicError(error);
+    }
+
+    // The context runs at the device's native rate; the worklet resamples
+    const context = new AudioContext();
+    try {
+      await context.audioWorklet.addModule(getWorkletUrl());
+      const source = context.createMediaStreamSource(stream);
+      const node = new AudioWorkletNode(context, 'pcm-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSize: FRAME_SIZE },
+      });
+      return new MicCapture(context, stream, source, node, onFrame);
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+      throw describeMicError(error);
+    }
+  }
+
+  /** The device actually in use, which may differ from the requested one. */
+  get deviceId(): string | undefined {
+    return this.stream.getAudioTracks()[0]?.getSettings().deviceId;
+  }
+
+  get muted() {
+    return this.isMuted;
+  }
+
+  // Disabling the track makes the browser deliver silence, so nothing spoken leaves the device
+  set muted(value: boolean) {
+    this.isMuted = value;
+    this.stream.getAudioTracks().forEach(track => { track.enabled = !value; });
+  }
+
+  private handleFrame(pcm: Int16Array, rms: number) {
+    const wasSpeaking = this.vad.speaking;
+    const frame = { pcm, level: rms, speaking: this.vad.update(rms) };
+    if (frame.speaking && !wasSpeaking) {
+      this.preRoll.forEach(f => this.onFrame({ ...f, speaking: true }));
+      this.preRoll.length = 0;
+    }
+    if (!frame.speaking) {
+      this.preRoll.push(frame);
+      if (this.preRoll.length > PRE_ROLL_FRAMES) this.preRoll.shift();
+    }
+    this.onFrame(frame);
+  }
+
+  stop() {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.node.disconnect();
+    this.stream.getTracks().forEach(track => track.stop());
+    this.context.close();
+  }
+}
+
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> =>
+  (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'audioinput');
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeAuthors, normalizeYear, validatePapers } from './paperSchema';
+
+describe('normalizeAuthors', () => {
+  it.each<[string | string[], string[]]>([
+    ['Hinton, Geoffrey', ['Geoffrey Hinton']],
+    ['Hinton, G. E.; LeCun, Yann', ['G. E. Hinton', 'Yann LeCun']],
+    [['van den Oord, Aaron'], ['Aaron van den Oord']],
+    ['Ashish Vaswani, Noam Shazeer', ['Ashish Vaswani', 'Noam Shazeer']],
+    ['A B, C D, E F', ['A B', 'C D', 'E F']],
+    ['A Vaswani, N Shazeer, and L Kaiser', ['A Vaswani', 'N Shazeer', 'L Kaiser']],
+    [['Smith, Jr.'], ['Smith Jr.']],
+    ['Smith, Jr., John', ['John Smith Jr.']],
+    [['Geoffrey Hinton', ' Geoffrey  Hinton ', 'et al.'], ['Geoffrey Hinton']],
+  ])('normalises %j', (input, expected) => {
+    expect(normalizeAuthors(input)).toEqual(expected);
+  });
+});
+
+describe('normalizeYear', () => {
+  it('finds the year in dates and numbers', () => {
+    expect(normalizeYear('2023-05-01')).toBe('2023');
+    expect(normalizeYear(2017)).toBe('2017');
+    expect(normalizeYear('May 1999')).toBe('1999');
+  });
+
+  it('rejects implausible years', () => {
+    expect(normalizeYear('1850')).toBeNull();
+    expect(normalizeYear(String(new Date().getFullYear() + 5))).toBeNull();
+  });
+});
+
+describe('validatePapers', () => {
+  const base = { summary: '', highlights: [], link: 'https://example.org/paper' };
+
+  it('normalises valid papers and drops invalid ones and duplicates', () => {
+    const { items, dropped } = validatePapers([
+      { ...base, id: '1', title: '  Attention  Is All You Need ', authors: 'Vaswani, Ashish and Shazeer, Noam', year: 2017, arxivId: '1706.03762' },
+      { ...base, id: '2', title: 'Attention is all you need', authors: ['Someone Else'], year: '2017' },
+      { ...base, id: '3', title: 'No authors', authors: [], year: '2020' },
+      { ...base, id: '4', title: 'Bad year', authors: ['A Author'], year: 'n.d.' },
+    ]);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ title: 'Attention Is All You Need', authors: ['Ashish Vaswani', 'Noam Shazeer'], year: '2017' });
+    expect(dropped.map(d => d.reasons[0])).toEqual([
+      'authors: at least one author is required',
+      'year: "n.d." is not a valid publication year',
+      'duplicate of "Attention Is All You Need" (same title)',
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { Paper } from '../types';
+import { parseArxivId } from './arxiv';
+import { validateList, ValidationReport } from './structured';
+
+const ARXIV_ID = /^(?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})$/;
+const DOI = /^10\.\d{4,9}\/\S+$/;
+
+export const isArxivId = (value: string) => ARXIV_ID.test(value);
+export const isDoi = (value: string) => DOI.test(value);
+
+const NAME_SUFFIX = /^(jr|sr|[ivx]+)\.?$/i;
+const NAME_PARTICLE = /^(von|van|der|den|de|del|della|di|da|du|la|le|dos|das|ter|ten)$/i;
+// "Geoffrey", "G. E.", "Jean-Luc", "Y"
+const GIVEN_NAMES = /^(?:\p{Lu}[\p{L}'’.-]*\s*){1,3}$/u;
+
+// "Hinton", "van den Oord", "Ben-Nun": one capitalised word, optionally after lower-case particles
+const looksLikeSurname = (part: string) => {
+  const words = part.split(' ');
+  return words.slice(0, -1).every(w => NAME_PARTICLE.test(w)) && /^\p{Lu}/u.test(words[words.length - 1]);
+};
+
+// One entry of an author list: "Last, First", "Last, Jr., First", "Smith, Jr." or several comma-separated names
+const splitAuthorEntry = (entry: string): string[] => {
+  const parts = entry.split(',').map(p => p.trim()).filter(Boolean);
+  if (parts.length <= 1) return parts;
+  if (parts.length === 2 && NAME_SUFFIX.test(parts[1])) return [`${parts[0]} ${parts[1]}`];
+  if (parts.length === 3 && NAME_SUFFIX.test(parts[1]) && GIVEN_NAMES.test(parts[2])) return [`${parts[2]} ${parts[0]} ${parts[1]}`];
+  if (parts.length === 2 && looksLikeSurname(parts[0]) && GIVEN_NAMES.test(parts[1])) return [`${parts[1]} ${parts[0]}`];
+  return parts;
+};
+
+/**
+ * "Hinton, Geoffrey" -> "Geoffrey Hinton"; "A Vaswani, N Shazeer" -> two authors.
+ * Drops empties, "et al." and repeated names.
+ */
+export const normalizeAuthors = (authors: string[] | string): string[] => {
+  const list = typeof authors === 'string' ? authors.split(/;|\band\b/) : authors;
+  const names = list
+    .map(a => a.replace(/\s+/g, ' ').trim())
+    .flatMap(splitAuthorEntry)
+    .filter(a => a.length > 0 && !/^et\.? al\.?$/i.test(a));
+  return Array.from(new Set(names));
+};
+
+/** Pulls a plausible four-digit publication year out of "2023", 2023, "2023-05-01" or "May 2023". */
+export const normalizeYear = (value: string | number): string | null => {
+  const match = String(value).match(/\b(19[5-9]\d|20\d{2})\b/);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  return year <= new Date().getFullYear() + 1 ? match[1] : null;
+};
+
+export const normalizeTitle = (title: string) =>
+  title.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const isValidLink = (link: string) => {
+  if (link === '#') return true; // local uploads have no link
+  try {
+    const url = new URL(link);
+    if (!['http:', 'https:'].includes(url.protocol)) return false;
+    if (/(^|\.)arxiv\.org$/.test(url.hostname)) {
+      const parsed = parseArxivId(url.pathname.replace(/^\/(abs|pdf)\//, ''));
+      return !!parsed && isArxivId(parsed.id);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const PaperSchema: z.ZodType<Paper> = z.looseObject({
+  id: z.string().min(1),
+  title: z.string().transform(t => t.replace(/\s+/g, ' ').trim()).pipe(z.string().min(3, 'title is missing')),
+  authors: z.union([z.array(z.string()), z.string()])
+    .transform(normalizeAuthors)
+    .pipe(z.array(z.string()).min(1, 'at least one author is required')),
+  year: z.union([z.string(), z.number()]).transform((value, ctx) => {
+    const year = normalizeYear(value);
+    if (!year) {
+      ctx.addIssue({ code: 'custom', message: `"${value}" is not a valid publication year` });
+      return z.NEVER;
+    }
+    return year;
+  }),
+  summary: z.string().trim(),
+  highlights: z.array(z.string().trim().min(1)).default([]),
+  link: z.string().trim().refine(isValidLink, 'not a valid http(s) link or arXiv URL'),
+  arxivId: z.string().trim().refine(isArxivId, 'malformed arXiv ID').optional(),
+  doi: z.string().trim().transform(d => d.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')).pipe(z.string().regex(DOI, 'malformed DOI')).optional(),
+});
+
+// Keys under which two papers count as the same work
+export const paperKeys = (paper: Pick<Paper, 'title' | 'arxivId' | 'doi'>): string[] => [
+  paper.arxivId ? `arxiv:${paper.arxivId}` : null,
+  paper.doi ? `doi:${paper.doi.toLowerCase()}` : null,
+  `title:${normalizeTitle(paper.title)}`,
+].filter((k): k is string => k !== null);
+
+const describePaper = (raw: unknown, index: number) => {
+  const title = (raw as { title?: unknown })?.title;
+  return typeof title === 'string' && title.trim() ? `"${title.trim().slice(0, 80)}"` : `paper #${index + 1}`;
+};
+
+/** Validates and normalises papers at the ingestion boundary; duplicates and invalid records are dropped. */
+export const validatePapers = (papers: unknown[]): Omit<ValidationReport<Paper>, 'attempts'> => {
+  const first = validateList(papers, { schema: PaperSchema, describe: describePaper });
+
+  // A paper is a duplicate if it shares any key (arXiv ID, DOI, title) with an earlier one
+  const seen = new Map<string, string>();
+  const items: Paper[] = [];
+  const dropped = [...first.dropped];
+  first.items.forEach((paper, i) => {
+    const label = describePaper(paper, i);
+    const clash = paperKeys(paper).find(k => seen.has(k));
+    if (clash) {
+      dropped.push({ label, reasons: [`duplicate of ${seen.get(clash)} (same ${clash.split(':')[0]})`] });
+      return;
+    }
+    paperKeys(paper).forEach(k => seen.set(k, label));
+    items.push(paper);
+  });
+
+  return { items, dropped };
+};
+
+export interface PaperDigest {
+  arxivId: string;
+  summary: string;
+  highlights: string[];
+}
+
+export const digestSchema = (expectedIds: string[]): z.ZodType<PaperDigest> =>
+  z.object({
+    arxivId: z.string().trim()
+      .transform(id => parseArxivId(id)?.id ?? id)
+      .pipe(z.string()
+        .refine(isArxivId, 'malformed arXiv ID')
+        .refine(id => expectedIds.includes(id), 'arXiv ID does not match any requested paper')),
+    summary: z.string().trim().min(20, 'summary is too short'),
+    highlights: z.array(z.string().trim().min(1)).min(1, 'at least one highlight is required').max(8),
+  });
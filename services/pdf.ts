@@ -0,0 +1,154 @@
+import * as pdfjs from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { Paper, PaperPage } from '../types';
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+export class PdfExtractionError extends Error {
+  constructor(message: string, public readonly fileName?: string) {
+    super(message);
+    this.name = 'PdfExtractionError';
+  }
+}
+
+interface TextLine {
+  text: string;
+  fontSize: number;
+  y: number;
+}
+
+// Group pdf.js text items into visual lines, keeping the dominant font size of each line
+const toLines = (items: TextItem[]): TextLine[] => {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+
+  for (const item of items) {
+    const fontSize = Math.abs(item.transform[3]) || Math.abs(item.transform[0]);
+    const y = item.transform[5];
+
+    if (current && Math.abs(current.y - y) < 2) {
+      current.text += item.str;
+      current.fontSize = Math.max(current.fontSize, fontSize);
+    } else {
+      if (current) lines.push(current);
+      current = { text: item.str, fontSize, y };
+    }
+
+    if (item.hasEOL && current) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines
+    .map(l => ({ ...l, text: l.text.replace(/\s+/g, ' ').trim() }))
+    .filter(l => l.text.length > 0);
+};
+
+const ABSTRACT_HEADING = /^abstract\b[\s.:—-]*/i;
+const INTRO_HEADING = /^(?:(?:1|I)\.?\s+)?introduction\b/i;
+const AFFILIATION_HINT = /(universit|institut|laborator|department|school|college|inc\.|corp|research|google|microsoft|meta|openai|@|\d{3,})/i;
+
+const guessTitle = (lines: TextLine[]): string | undefined => {
+  // The title is usually the largest text in the top part of the first page
+  const candidates = lines.slice(0, 25).filter(l => l.text.length > 3 && !ABSTRACT_HEADING.test(l.text));
+  if (candidates.length === 0) return undefined;
+
+  const maxSize = Math.max(...candidates.map(l => l.fontSize));
+  const start = candidates.findIndex(l => l.fontSize >= maxSize - 0.5);
+  const titleLines: string[] = [];
+  for (let i = start; i < candidates.length && candidates[i].fontSize >= maxSize - 0.5; i++) {
+    titleLines.push(candidates[i].text);
+  }
+  return titleLines.join(' ');
+};
+
+const guessAuthors = (lines: TextLine[], title: string | undefined): string[] => {
+  if (!title) return [];
+  const titleEnd = lines.findIndex(l => title.endsWith(l.text));
+  const abstractIdx = lines.findIndex(l => ABSTRACT_HEADING.test(l.text));
+  const block = lines.slice(titleEnd + 1, abstractIdx > titleEnd ? abstractIdx : titleEnd + 6);
+
+  const names = block
+    .filter(l => !AFFILIATION_HINT.test(l.text))
+    .flatMap(l => l.text.split(/,|\band\b|·|∗|\*/))
+    .map(n => n.replace(/[\d†‡§¶]+/g, '').trim())
+    .filter(n => /^[A-Z][\p{L}.'-]+(?:\s+[\p{L}.'-]+){1,3}$/u.test(n));
+
+  return Array.from(new Set(names));
+};
+
+const extractAbstract = (firstPages: string): string | undefined => {
+  const match = firstPages.match(/\babstract\b[\s.:—-]*([\s\S]+?)(?:\n\s*(?:(?:1|I)\.?\s+)?introduction\b|\n\s*keywords\b|\n\s*index terms\b)/i);
+  if (!match) return undefined;
+  return match[1].replace(/\s+/g, ' ').trim();
+};
+
+const splitAuthorField = (author: string): string[] =>
+  author.split(/;|,|\band\b/).map(a => a.trim()).filter(Boolean);
+
+export const extractPdf = async (file: File): Promise<Paper> => {
+  let doc: pdfjs.PDFDocumentProxy;
+  try {
+    const data = new Uint8Array(await file.arrayBuffer());
+    doc = await pdfjs.getDocument({ data }).promise;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new PdfExtractionError(`Could not open "${file.name}" as a PDF: ${reason}`, file.name);
+  }
+
+  try {
+    const pages: PaperPage[] = [];
+    let fullText = '';
+    let firstPageLines: TextLine[] = [];
+
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      const lines = toLines(content.items.filter((item): item is TextItem => 'str' in item));
+      if (n === 1) firstPageLines = lines;
+
+      const text = lines.map(l => l.text).join('\n');
+      pages.push({ number: n, text, offset: fullText.length });
+      fullText += text + '\n\n';
+      page.cleanup();
+    }
+
+    if (fullText.trim().length === 0) {
+      throw new PdfExtractionError(
+        `"${file.name}" contains no extractable text. Scanned PDFs need OCR before they can be ingested.`,
+        file.name,
+      );
+    }
+
+    const { info } = await doc.getMetadata();
+    const meta = info as { Title?: string; Author?: string; CreationDate?: string };
+
+    const metaTitle = meta.Title?.trim();
+    const title = (metaTitle && metaTitle.length > 5 ? metaTitle : guessTitle(firstPageLines)) || file.name.replace(/\.pdf$/i, '');
+    const metaAuthors = meta.Author ? splitAuthorField(meta.Author) : [];
+    const authors = metaAuthors.length > 0 ? metaAuthors : guessAuthors(firstPageLines, guessTitle(firstPageLines));
+    const year = meta.CreationDate?.match(/^D:(\d{4})/)?.[1] || new Date().getFullYear().toString();
+
+    const abstract = extractAbstract(pages.slice(0, 2).map(p => p.text).join('\n'));
+    const introIdx = firstPageLines.findIndex(l => INTRO_HEADING.test(l.text));
+    const fallbackSummary = firstPageLines.slice(introIdx > 0 ? introIdx + 1 : 0).map(l => l.text).join(' ').slice(0, 600);
+
+    return {
+      id: crypto.randomUUID(),
+      title,
+      authors: authors.length > 0 ? authors : ['Unknown'],
+      year,
+      summary: abstract || fallbackSummary,
+      highlights: [`${doc.numPages} pages`, `${fullText.split(/\s+/).length.toLocaleString()} words extracted`],
+      link: '#',
+      abstract,
+      fullText: fullText.trimEnd(),
+      pages,
+    };
+  } finally {
+    await doc.destroy();
+  }
+};
@@ -0,0 +1,165 @@
+import { JobStatus, ProcessingLog } from '../types';
+
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+/** Thrown by a step to mark itself as skipped instead of failed. */
+export class StepSkippedError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'StepSkippedError';
+  }
+}
+
+export interface StepContext {
+  signal: AbortSignal;
+  progress: (percent: number, detail?: string) => void;
+  throwIfCancelled: () => void;
+}
+
+export interface PipelineStep<S> {
+  id: string;
+  label: string;
+  dependsOn?: string[];  // must complete first; if one fails this step is skipped
+  runsAfter?: string[];  // ordering only: re-run when these are retried, but never skipped because of them
+  // For steps whose side effects can't be undone: once run returns, the step completes even if the job was cancelled meanwhile
+  completesOnCancel?: boolean;
+  // The returned string becomes the step's detail line
+  run: (state: S, ctx: StepContext) => Promise<string | void>;
+}
+
+const orderSteps = <S>(steps: PipelineStep<S>[]): PipelineStep<S>[] => {
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const ordered: PipelineStep<S>[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+
+  const visit = (step: PipelineStep<S>) => {
+    if (done.has(step.id)) return;
+    if (visiting.has(step.id)) throw new Error(`Pipeline step "${step.id}" has a circular dependency`);
+    visiting.add(step.id);
+    for (const dep of [...(step.dependsOn || []), ...(step.runsAfter || [])]) {
+      const target = byId.get(dep);
+      if (!target) throw new Error(`Pipeline step "${step.id}" depends on unknown step "${dep}"`);
+      visit(target);
+    }
+    visiting.delete(step.id);
+    done.add(step.id);
+    ordered.push(step);
+  };
+
+  steps.forEach(visit);
+  return ordered;
+};
+
+/**
+ * Runs declared steps in dependency order, keeping one ProcessingLog entry per
+ * step that is updated in place. Failed steps can be retried without repeating
+ * the steps that already completed.
+ */
+export class PipelineJob<S> {
+  readonly steps: PipelineStep<S>[];
+  private entries: ProcessingLog[];
+  private controller = new AbortController();
+  private _status: JobStatus = 'running';
+
+  constructor(steps: PipelineStep<S>[], readonly state: S, private onUpdate: (logs: ProcessingLog[], status: JobStatus) => void) {
+    this.steps = orderSteps(steps);
+    this.entries = this.steps.map(s => ({ id: s.id, step: s.label, status: 'pending' }));
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get logs(): ProcessingLog[] {
+    return this.entries;
+  }
+
+  private update(id: string, patch: Partial<ProcessingLog>) {
+    this.entries = this.entries.map(e => e.id === id ? { ...e, ...patch } : e);
+    this.onUpdate(this.entries, this._status);
+  }
+
+  private entry(id: string) {
+    return this.entries.find(e => e.id === id)!;
+  }
+
+  cancel() {
+    this.controller.abort();
+  }
+
+  async run(): Promise<JobStatus> {
+    this._status = 'running';
+    this.onUpdate(this.entries, this._status);
+    let cancelled = false;
+
+    for (const step of this.steps) {
+      if (this.entry(step.id).status === 'completed') continue;
+
+      if (this.controller.signal.aborted) {
+        cancelled = true;
+        this.update(step.id, { status: 'skipped', detail: 'Cancelled' });
+        continue;
+      }
+
+      const blocker = (step.dependsOn || []).find(dep => this.entry(dep).status !== 'completed');
+      if (blocker) {
+        this.update(step.id, { status: 'skipped', detail: `Skipped because "${this.entry(blocker).step}" did not complete` });
+        continue;
+      }
+
+      const signal = this.controller.signal;
+      const ctx: StepContext = {
+        signal,
+        progress: (percent, detail) => this.update(step.id, { progress: Math.max(0, Math.min(100, Math.round(percent))), ...(detail ? { detail } : {}) }),
+        throwIfCancelled: () => {
+          if (signal.aborted) throw new PipelineCancelledError();
+        },
+      };
+
+      this.update(step.id, { status: 'active', progress: 0, detail: undefined, error: undefined, startedAt: Date.now(), finishedAt: undefined });
+      try {
+        const detail = await step.run(this.state, ctx);
+        if (!step.completesOnCancel) ctx.throwIfCancelled();
+        this.update(step.id, { status: 'completed', progress: 100, detail: detail || undefined, finishedAt: Date.now() });
+      } catch (error) {
+        if (error instanceof StepSkippedError) {
+          this.update(step.id, { status: 'skipped', detail: error.message, finishedAt: Date.now() });
+        } else if (error instanceof PipelineCancelledError || signal.aborted && !step.completesOnCancel) {
+          cancelled = true;
+          this.update(step.id, { status: 'skipped', detail: 'Cancelled', finishedAt: Date.now() });
+        } else {
+          console.error(`Pipeline step "${step.id}" failed`, error);
+          this.update(step.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+            finishedAt: Date.now(),
+          });
+        }
+      }
+    }
+
+    // A cancel that arrives during a completesOnCancel last step leaves nothing undone
+    this._status = cancelled
+      ? 'cancelled'
+      : this.entries.some(e => e.status === 'failed') ? 'failed' : 'completed';
+    this.onUpdate(this.entries, this._status);
+    return this._status;
+  }
+
+  /** Re-runs failed and skipped steps, plus every step ordered after one of them. */
+  async retry(): Promise<JobStatus> {
+    this.controller = new AbortController();
+    const rerun = new Set(this.entries.filter(e => e.status === 'failed' || e.status === 'skipped').map(e => e.id));
+    for (const step of this.steps) {
+      if ([...(step.dependsOn || []), ...(step.runsAfter || [])].some(dep => rerun.has(dep))) rerun.add(step.id);
+    }
+    this.entries = this.entries.map(e => rerun.has(e.id) ? { id: e.id, step: e.step, status: 'pending' } : e);
+    return this.run();
+  }
+}
@@ -0,0 +1,134 @@
+import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import { z } from 'zod';
+import { EmbedRequest, GenerateRequest, LLMProvider, StreamChatRequest, StreamChunk, TimedText, TranscribeRequest, TranscribeUrlRequest, WebSource } from './types';
+import { blobToBase64 } from '../audio';
+import { parseJsonLoose, StructuredOutputError, formatIssues } from '../structured';
+
+// Gemini accepts at most 100 texts per embedContent request
+const EMBED_BATCH_SIZE = 100;
+
+// Web sources the model consulted through the Google Search tool
+export const extractWebSources = (response: GenerateContentResponse): WebSource[] => {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return chunks
+    .filter(c => c.web?.uri)
+    .map(c => ({ uri: c.web!.uri!, title: c.web!.title || c.web!.uri! }));
+};
+
+const transcriptSchema = z.array(z.object({
+  start: z.union([z.string(), z.number()]),
+  text: z.string(),
+}));
+
+// Gemini reports timestamps as MM:SS (or HH:MM:SS); plain seconds are accepted too
+const parseTimestamp = (value: string | number): number => {
+  if (typeof value === 'number') return value;
+  return value.trim().split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  readonly label = 'Google Gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string | undefined) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  get live() {
+    return this.ai.live;
+  }
+
+  async generate({ model, prompt, system, json, signal }: GenerateRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        systemInstruction: system,
+        responseMimeType: json ? "application/json" : undefined,
+        abortSignal: signal,
+      },
+    });
+    return response.text || "";
+  }
+
+  async *streamChat({ model, system, history, message, webSearch, thinkingBudget, signal }: StreamChatRequest): AsyncIterable<StreamChunk> {
+    const chat = this.ai.chats.create({
+      model,
+      config: {
+        systemInstruction: system,
+        tools: webSearch ? [{ googleSearch: {} }] : undefined,
+        thinkingConfig: thinkingBudget ? { thinkingBudget } : undefined,
+        abortSignal: signal,
+      },
+      history: history.map(h => ({
+        role: h.role,
+        parts: [{ text: h.text }]
+      })),
+    });
+
+    const stream = await chat.sendMessageStream({ message });
+    for await (const chunk of stream) {
+      yield { text: chunk.text || "", webSources: extractWebSources(chunk) };
+    }
+  }
+
+  async embed({ model, texts, taskType, dimensions }: EmbedRequest): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+      const response = await this.ai.models.embedContent({
+        model,
+        contents: batch,
+        config: {
+          taskType: taskType === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+          outputDimensionality: dimensions,
+        },
+      });
+
+      const embeddings = response.embeddings || [];
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings, received ${embeddings.length}`);
+      }
+      vectors.push(...embeddings.map(e => e.values || []));
+    }
+    return vectors;
+  }
+
+  async transcribe({ model, audio, duration, signal }: TranscribeRequest): Promise<TimedText[]> {
+    const data = await blobToBase64(audio);
+    return this.transcribePart(model, { inlineData: { mimeType: audio.type || 'audio/wav', data } }, duration, signal);
+  }
+
+  // Gemini fetches public YouTube videos itself
+  transcribeUrl({ model, url, signal }: TranscribeUrlRequest): Promise<TimedText[]> {
+    return this.transcribePart(model, { fileData: { fileUri: url } }, undefined, signal);
+  }
+
+  private async transcribePart(model: string, media: Part, duration: number | undefined, signal?: AbortSignal): Promise<TimedText[]> {
+    const response = await this.ai.models.generateContent({
+      model,
+      contents: [{
+        role: 'user',
+        parts: [
+          media,
+          { text: `Transcribe this recording verbatim. Split it into passages of one to three sentences at natural pauses.
+            Return a JSON array of objects with "start" (MM:SS from the beginning of the recording) and "text".
+            Return an empty array if nobody speaks.` },
+        ],
+      }],
+      config: { responseMimeType: "application/json", abortSignal: signal },
+    });
+
+    const parsed = transcriptSchema.safeParse(parseJsonLoose(response.text || '[]'));
+    if (!parsed.success) {
+      throw new StructuredOutputError(`Unexpected transcript format: ${formatIssues(parsed.error).join('; ')}`, response.text);
+    }
+    const passages = parsed.data
+      .map(p => ({ start: Math.min(parseTimestamp(p.start), duration ?? Infinity), text: p.text.trim() }))
+      .filter(p => p.text)
+      .sort((a, b) => a.start - b.start);
+    // Without a known duration the last passage ends where it starts
+    return passages.map((p, i) => ({ ...p, end: passages[i + 1]?.start ?? duration ?? p.start }));
+  }
+}
@@ -0,0 +1,46 @@
+import { LLMSettings } from '../settings';
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openai';
+import { LLMProvider, LLMTask, ProviderId } from './types';
+
+export * from './types';
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'ollama', 'mock'];
+
+export const createProvider = (id: ProviderId, settings: LLMSettings): LLMProvider => {
+  switch (id) {
+    case 'gemini':
+      return new GeminiProvider(settings.gemini.apiKey || process.env.API_KEY);
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.openai.baseUrl, settings.openai.apiKey || undefined);
+    case 'ollama':
+      return new OllamaProvider(settings.ollama.baseUrl);
+    case 'mock':
+      return new MockProvider();
+  }
+};
+
+export interface TaskTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+// Providers are reused for as long as the settings object stays the same
+const cache = new WeakMap<LLMSettings, Map<ProviderId, LLMProvider>>();
+
+export const resolveTask = (settings: LLMSettings, task: LLMTask): TaskTarget => {
+  const { provider: id, model } = settings.tasks[task];
+  let providers = cache.get(settings);
+  if (!providers) {
+    providers = new Map();
+    cache.set(settings, providers);
+  }
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = createProvider(id, settings);
+    providers.set(id, provider);
+  }
+  return { provider, model };
+};
@@ -0,0 +1,69 @@
+import { EmbedRequest, GenerateRequest, LLMProvider, StreamChatRequest, StreamChunk, TimedText, TranscribeRequest, TranscribeUrlRequest } from './types';
+import { LocalHashEmbeddingProvider } from '../embeddings';
+
+export interface MockCall {
+  kind: 'generate' | 'chat' | 'transcribe';
+  prompt: string;
+  system?: string;
+  json?: boolean;
+}
+
+// Either a fixed queue of replies (consumed in order) or a function of the request
+export type MockScript = string[] | ((call: MockCall) => string);
+
+const defaultScript = (call: MockCall): string => {
+  if (call.json) return '[]';
+  if (call.kind === 'generate') return `[mock] ${call.prompt.slice(0, 120)}`;
+  if (call.kind === 'transcribe') return `[mock] Transcribed speech starting ${call.prompt} seconds into the segment.`;
+  return `[mock] This is a scripted offline answer to: "${call.prompt}". The first retrieved excerpt is cited here [1].`;
+};
+
+/** Offline provider for development and tests: scripted text, deterministic embeddings, no network. */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock' as const;
+  readonly label = 'Mock (offline)';
+  readonly calls: MockCall[] = [];
+  private embedder = new LocalHashEmbeddingProvider();
+
+  constructor(private script: MockScript = defaultScript, private streamDelayMs = 15) {}
+
+  private reply(call: MockCall): string {
+    this.calls.push(call);
+    if (typeof this.script === 'function') return this.script(call);
+    const next = this.script.shift();
+    if (next === undefined) throw new Error('MockProvider script exhausted');
+    return next;
+  }
+
+  async generate({ prompt, system, json }: GenerateRequest): Promise<string> {
+    return this.reply({ kind: 'generate', prompt, system, json });
+  }
+
+  async *streamChat({ message, system, signal }: StreamChatRequest): AsyncIterable<StreamChunk> {
+    const text = this.reply({ kind: 'chat', prompt: message, system });
+    for (const word of text.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) return;
+      await new Promise(res => setTimeout(res, this.streamDelayMs));
+      yield { text: word };
+    }
+  }
+
+  async embed({ texts }: EmbedRequest): Promise<number[][]> {
+    return this.embedder.embedDocuments(texts);
+  }
+
+  // One scripted passage per 30 seconds of audio
+  async transcribe({ duration }: TranscribeRequest): Promise<TimedText[]> {
+    const passages: TimedText[] = [];
+    for (let start = 0; start < duration; start += 30) {
+      const text = this.reply({ kind: 'transcribe', prompt: `${start}` });
+      passages.push({ start, end: Math.min(start + 30, duration), text });
+    }
+    return passages;
+  }
+
+  // Hosted videos are treated as three minutes long
+  async transcribeUrl({ model, signal }: TranscribeUrlRequest): Promise<TimedText[]> {
+    return this.transcribe({ model, audio: new Blob(), duration: 180, signal });
+  }
+}
@@ -0,0 +1,58 @@
+import { EmbedRequest, GenerateRequest, LLMProvider, ProviderError, StreamChatRequest, StreamChunk } from './types';
+import { ensureOk, readLines } from './streaming';
+
+/** A local Ollama server (https://ollama.com), default http://localhost:11434. */
+export class OllamaProvider implements LLMProvider {
+  readonly id = 'ollama' as const;
+  readonly label = 'Ollama (local)';
+
+  constructor(private baseUrl: string, private fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private post(path: string, body: unknown, signal?: AbortSignal) {
+    return this.fetchImpl(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  async generate({ model, prompt, system, json, signal }: GenerateRequest): Promise<string> {
+    const response = await ensureOk(await this.post('/api/generate', {
+      model,
+      prompt,
+      system,
+      format: json ? 'json' : undefined,
+      stream: false,
+    }, signal), this.id);
+    const data = await response.json();
+    return data.response || '';
+  }
+
+  async *streamChat({ model, system, history, message, signal }: StreamChatRequest): AsyncIterable<StreamChunk> {
+    const response = await ensureOk(await this.post('/api/chat', {
+      model,
+      stream: true,
+      messages: [
+        ...(system ? [{ role: 'system', content: system }] : []),
+        ...history.map(h => ({ role: h.role === 'model' ? 'assistant' : 'user', content: h.text })),
+        { role: 'user', content: message },
+      ],
+    }, signal), this.id);
+
+    for await (const line of readLines(response)) {
+      const data = JSON.parse(line);
+      if (data.error) throw new ProviderError(`Ollama: ${data.error}`, this.id);
+      if (data.message?.content) yield { text: data.message.content };
+      if (data.done) return;
+    }
+  }
+
+  async embed({ model, texts }: EmbedRequest): Promise<number[][]> {
+    const response = await ensureOk(await this.post('/api/embed', { model, input: texts }), this.id);
+    const data = await response.json() as { embeddings: number[][] };
+    return data.embeddings;
+  }
+}
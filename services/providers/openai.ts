@@ -0,0 +1,88 @@
+import { EmbedRequest, GenerateRequest, LLMProvider, StreamChatRequest, StreamChunk, TimedText, TranscribeRequest } from './types';
+import { ensureOk, readLines } from './streaming';
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** Any server speaking the OpenAI chat-completions API: OpenAI itself, vLLM, LM Studio, Together, ... */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+  readonly label = 'OpenAI-compatible';
+
+  constructor(private baseUrl: string, private apiKey?: string, private fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private post(path: string, body: unknown, signal?: AbortSignal) {
+    return this.fetchImpl(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  private messages(system: string | undefined, turns: { role: 'user' | 'model'; text: string }[]): OpenAIMessage[] {
+    return [
+      ...(system ? [{ role: 'system' as const, content: system }] : []),
+      ...turns.map(t => ({ role: t.role === 'model' ? 'assistant' as const : 'user' as const, content: t.text })),
+    ];
+  }
+
+  async generate({ model, prompt, system, signal }: GenerateRequest): Promise<string> {
+    const response = await ensureOk(await this.post('/chat/completions', {
+      model,
+      messages: this.messages(system, [{ role: 'user', text: prompt }]),
+    }, signal), this.id);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *streamChat({ model, system, history, message, signal }: StreamChatRequest): AsyncIterable<StreamChunk> {
+    const response = await ensureOk(await this.post('/chat/completions', {
+      model,
+      stream: true,
+      messages: this.messages(system, [...history, { role: 'user', text: message }]),
+    }, signal), this.id);
+
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+      const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+      if (delta) yield { text: delta };
+    }
+  }
+
+  async embed({ model, texts, dimensions }: EmbedRequest): Promise<number[][]> {
+    // Only the text-embedding-3 family understands `dimensions`; other servers may reject it
+    const body = /^text-embedding-3/.test(model) ? { model, input: texts, dimensions } : { model, input: texts };
+    const response = await ensureOk(await this.post('/embeddings', body), this.id);
+    const data = await response.json() as { data: { index: number; embedding: number[] }[] };
+    return data.data.sort((a, b) => a.index - b.index).map(d => d.embedding);
+  }
+
+  // Only whisper-1 returns segment timestamps (verbose_json); the gpt-4o transcription models do not
+  async transcribe({ model, audio, signal }: TranscribeRequest): Promise<TimedText[]> {
+    const form = new FormData();
+    form.append('file', audio, 'segment.wav');
+    form.append('model', model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+
+    const response = await ensureOk(await this.fetchImpl(`${this.baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: form,
+      signal,
+    }), this.id);
+    const data = await response.json() as { text?: string; duration?: number; segments?: TimedText[] };
+    if (data.segments) return data.segments.map(({ start, end, text }) => ({ start, end, text: text.trim() })).filter(s => s.text);
+    return data.text?.trim() ? [{ start: 0, end: data.duration ?? 0, text: data.text.trim() }] : [];
+  }
+}
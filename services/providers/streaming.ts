@@ -0,0 +1,37 @@
+import { ProviderError, ProviderId } from './types';
+
+/** Yields the lines of a streamed HTTP body as they arrive (SSE and NDJSON both frame by line). */
+export async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const ensureOk = async (response: Response, provider: ProviderId): Promise<Response> => {
+  if (response.ok) return response;
+  let detail = '';
+  try {
+    detail = (await response.text()).slice(0, 300);
+  } catch {
+    // body unavailable, status is enough
+  }
+  throw new ProviderError(`${provider} request failed with status ${response.status}${detail ? `: ${detail}` : ''}`, provider, response.status);
+};
@@ -0,0 +1,86 @@
+import type { Live } from '@google/genai';
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// Each task can run on a different provider and model
+export type LLMTask = 'chat' | 'summarize' | 'embed' | 'live' | 'transcribe';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface WebSource {
+  uri: string;
+  title: string;
+}
+
+export interface GenerateRequest {
+  model: string;
+  prompt: string;
+  system?: string;
+  json?: boolean;        // ask for a JSON-only response where the backend supports it
+  signal?: AbortSignal;
+}
+
+export interface StreamChatRequest {
+  model: string;
+  system?: string;
+  history: ChatTurn[];
+  message: string;
+  webSearch?: boolean;   // ignored by backends without a search tool
+  thinkingBudget?: number;
+  signal?: AbortSignal;
+}
+
+export interface StreamChunk {
+  text: string;
+  webSources?: WebSource[];
+}
+
+export interface EmbedRequest {
+  model: string;
+  texts: string[];
+  taskType: 'document' | 'query';
+  dimensions?: number;
+}
+
+export interface TranscribeRequest {
+  model: string;
+  audio: Blob;           // one segment of a recording, at most a few minutes long
+  duration: number;      // seconds
+  signal?: AbortSignal;
+}
+
+export interface TranscribeUrlRequest {
+  model: string;
+  url: string;           // a public video the backend downloads itself, e.g. on YouTube
+  signal?: AbortSignal;
+}
+
+// Timestamps are in seconds from the start of the submitted audio
+export interface TimedText {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  generate(request: GenerateRequest): Promise<string>;
+  streamChat(request: StreamChatRequest): AsyncIterable<StreamChunk>;
+  embed(request: EmbedRequest): Promise<number[][]>;
+  // Realtime audio sessions; only Gemini offers these today
+  live?: Pick<Live, 'connect'>;
+  // Speech to text with timestamps; not every backend can take audio
+  transcribe?(request: TranscribeRequest): Promise<TimedText[]>;
+  transcribeUrl?(request: TranscribeUrlRequest): Promise<TimedText[]>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public readonly provider: ProviderId, public readonly status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
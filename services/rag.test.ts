@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Paper } from '../types';
+import { chunkPaper, chunkText } from './chunking';
+import { EmbeddingProvider, LocalHashEmbeddingProvider } from './embeddings';
+import { addToStore, indexPapers, retrieve } from './rag';
+import { VectorStore } from './vectorStore';
+
+const paper = (id: string, fullText: string, extra: Partial<Paper> = {}): Paper => ({
+  id, title: `Paper ${id}`, authors: ['A. Author'], year: '2024', summary: '', highlights: [], link: '#', fullText, ...extra,
+});
+
+const PARAGRAPHS = [
+  'Low-rank adaptation freezes the pretrained weights and trains small rank decomposition matrices.',
+  'Diffusion models learn to reverse a gradual noising process and generate images from noise.',
+  'Retrieval-augmented generation grounds answers in passages fetched from an external index.',
+].join('\n\n');
+
+describe('chunkText', () => {
+  it('keeps chunks within the size and maps them back onto the source text', () => {
+    const text = PARAGRAPHS.repeat(5);
+    const chunks = chunkText(text, { chunkSize: 200, chunkOverlap: 40 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(200);
+      expect(text.slice(chunk.start, chunk.end)).toContain(chunk.text);
+    }
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+
+  it('overlaps consecutive chunks and starts them on a word', () => {
+    const text = PARAGRAPHS.repeat(3);
+    const [first, second] = chunkText(text, { chunkSize: 150, chunkOverlap: 50 });
+    expect(second.start).toBeLessThan(first.end);
+    expect(/\s/.test(text[second.start - 1])).toBe(true);
+  });
+
+  it('rejects an overlap as large as the chunk', () => {
+    expect(() => chunkText('text', { chunkSize: 100, chunkOverlap: 100 })).toThrow();
+  });
+});
+
+describe('chunkPaper', () => {
+  it('assigns ids and the page each chunk starts on', () => {
+    const fullText = 'First page text. '.repeat(10) + 'Second page text. '.repeat(10);
+    const secondPage = fullText.indexOf('Second');
+    const chunks = chunkPaper(
+      paper('p', fullText, { pages: [{ number: 1, text: '', offset: 0 }, { number: 2, text: '', offset: secondPage }] }),
+      { chunkSize: 100, chunkOverlap: 0 }
+    );
+    expect(chunks[0]).toMatchObject({ id: 'p#0', paperId: 'p', index: 0, page: 1 });
+    expect(chunks[chunks.length - 1].page).toBe(2);
+  });
+});
+
+describe('LocalHashEmbeddingProvider', () => {
+  it('returns unit vectors that are identical for identical text', async () => {
+    const embedder = new LocalHashEmbeddingProvider(64);
+    const [a, b] = await embedder.embedDocuments(['rank decomposition', 'rank decomposition']);
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1);
+  });
+});
+
+describe('indexPapers and retrieve', () => {
+  const papers = [paper('lora', PARAGRAPHS.split('\n\n')[0]), paper('diffusion', PARAGRAPHS.split('\n\n')[1])];
+
+  it('embeds in batches through the injected provider without touching any store', async () => {
+    const calls: string[][] = [];
+    const embedder: EmbeddingProvider = {
+      id: 'fake',
+      embedDocuments: async texts => { calls.push(texts); return texts.map(() => [1, 0]); },
+      embedQuery: async () => [1, 0],
+    };
+    const progress: number[] = [];
+    const { chunks, vectors } = await indexPapers(papers, embedder, undefined, { onProgress: done => progress.push(done) });
+    expect(chunks.map(c => c.paperId)).toEqual(['lora', 'diffusion']);
+    expect(vectors).toHaveLength(2);
+    expect(calls.flat()).toEqual(chunks.map(c => c.text));
+    expect(progress[progress.length - 1]).toBe(2);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(indexPapers(papers, new LocalHashEmbeddingProvider(), undefined, { signal: controller.signal })).rejects.toThrow();
+  });
+
+  it('finds the passage matching the query', async () => {
+    const embedder = new LocalHashEmbeddingProvider();
+    const store = new VectorStore(embedder.id);
+    addToStore(store, embedder.id, papers, await indexPapers(papers, embedder));
+    const [best] = await retrieve('how do diffusion models generate images', store, embedder, 1);
+    expect(best.chunk.paperId).toBe('diffusion');
+  });
+
+  it('refuses vectors from another embedder', () => {
+    expect(() => addToStore(new VectorStore('a'), 'b', [], { chunks: [], vectors: [] })).toThrow(/cannot add vectors/);
+  });
+});
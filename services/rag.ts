@@ -0,0 +1,81 @@
+import { Chunk, Paper, RetrievedChunk } from '../types';
+import { chunkPaper, ChunkingOptions, DEFAULT_CHUNKING } from './chunking';
+import { EmbeddingProvider } from './embeddings';
+import { VectorStore } from './vectorStore';
+import { formatTimestamp } from './media';
+import { hybridSearch } from './search';
+
+export interface RagConfig extends ChunkingOptions {
+  topK: number;
+}
+
+export const DEFAULT_RAG_CONFIG: RagConfig = {
+  ...DEFAULT_CHUNKING,
+  topK: 6,
+};
+
+export interface IndexResult {
+  chunks: Chunk[];
+  vectors: number[][];
+}
+
+// Chunks are embedded in batches so callers can show progress and cancel between them
+const EMBED_BATCH = 32;
+
+export interface IndexOptions {
+  onProgress?: (embedded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Chunks and embeds papers without touching any index; callers add the result
+ * to their VectorStore once it is saved, so an aborted or failed job leaves nothing behind.
+ */
+export const indexPapers = async (
+  papers: Paper[],
+  embedder: EmbeddingProvider,
+  config: RagConfig = DEFAULT_RAG_CONFIG,
+  { onProgress, signal }: IndexOptions = {}
+): Promise<IndexResult> => {
+  const chunks = papers.flatMap(p => chunkPaper(p, config));
+  if (chunks.length === 0) return { chunks, vectors: [] };
+
+  const vectors: number[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+    signal?.throwIfAborted();
+    vectors.push(...await embedder.embedDocuments(chunks.slice(i, i + EMBED_BATCH).map(c => c.text)));
+    onProgress?.(vectors.length, chunks.length);
+  }
+  return { chunks, vectors };
+};
+
+/** Replaces the chunks of `papers` in `store` with ones indexed by `embedderId`. */
+export const addToStore = (store: VectorStore, embedderId: string, papers: Paper[], { chunks, vectors }: IndexResult) => {
+  if (store.embedderId !== embedderId) {
+    throw new Error(`Vector store was built with ${store.embedderId}, cannot add vectors from ${embedderId}`);
+  }
+  papers.forEach(p => store.removePaper(p.id));
+  store.add(chunks, vectors);
+};
+
+// Keyword matches count alongside similarity, so exact terms (model names, datasets, acronyms) aren't lost
+export const retrieve = async (
+  query: string,
+  store: VectorStore,
+  embedder: EmbeddingProvider,
+  topK = DEFAULT_RAG_CONFIG.topK,
+  filter?: (chunk: Chunk) => boolean
+): Promise<RetrievedChunk[]> => hybridSearch(query, store, embedder, { topK, filter });
+
+// Numbered context blocks; the numbers are what the model is asked to cite
+export const formatContext = (results: RetrievedChunk[], papers: Paper[]): string => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  return results.map(({ chunk }, i) => {
+    const paper = byId.get(chunk.paperId);
+    const source = paper
+      ? `"${paper.title}" (${paper.authors.slice(0, 3).join(', ')}${paper.authors.length > 3 ? ' et al.' : ''}, ${paper.year})`
+      : 'Unknown source';
+    const location = chunk.page !== undefined ? `, p. ${chunk.page}` : chunk.time !== undefined ? `, at ${formatTimestamp(chunk.time)}` : '';
+    return `[${i + 1}] ${source}${location}\n${chunk.text}`;
+  }).join('\n\n');
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Paper } from '../types';
+import { buildCitationGraph, extractReferences, externalWorkLink, findReferenceSection, parseReference, suggestMissingWorks } from './references';
+import BRACKETED from './__fixtures__/references-bracketed.txt?raw';
+import AUTHOR_YEAR from './__fixtures__/references-author-year.txt?raw';
+
+const paper = (id: string, extra: Partial<Paper>): Paper => ({
+  id, title: `Paper ${id}`, authors: ['A. Author'], year: '2024', summary: '', highlights: [], link: '#', ...extra,
+});
+
+const fields = (p: Paper) => extractReferences(p).map(({ raw: _raw, ...rest }) => rest);
+
+describe('parseReference', () => {
+  it('reads DOIs, arXiv ids and DBLP-style CoRR ids', () => {
+    expect(parseReference('Y. LeCun et al. Deep learning. Nature, 2015. https://doi.org/10.1038/NATURE14539.'))
+      .toMatchObject({ year: '2015', doi: '10.1038/nature14539' });
+    expect(parseReference('A. Vaswani et al. Attention is all you need. CoRR, abs/1706.03762, 2017.'))
+      .toMatchObject({ title: 'Attention is all you need', arxivId: '1706.03762' });
+    // arXiv DOIs are kept as arXiv ids only
+    expect(parseReference('E. Hu et al. LoRA. 2021. doi:10.48550/arXiv.2106.09685')).not.toHaveProperty('doi');
+  });
+
+  it('prefers a quoted title', () => {
+    expect(parseReference('J. Smith, “A study of quoted titles in references,” in Proc. ACL, 2019.').title)
+      .toBe('A study of quoted titles in references');
+  });
+});
+
+describe('findReferenceSection', () => {
+  it('stops at a following appendix and returns null without a heading', () => {
+    const section = findReferenceSection(BRACKETED)!;
+    expect(section).toContain('[4] Yann LeCun');
+    expect(section).not.toContain('not a reference');
+    expect(findReferenceSection('No reference list here.')).toBeNull();
+  });
+});
+
+describe('extractReferences', () => {
+  it('splits bracketed lists and joins hyphenated lines', () => {
+    expect(fields(paper('a', { fullText: BRACKETED }))).toEqual([
+      { title: 'Attention is all you need', year: '2017' },
+      { title: 'LoRA: Low-rank adaptation of large language models', year: '2021', arxivId: '2106.09685' },
+      { title: 'BERT: Pre-training of deep bidirectional transformers for language understanding', year: '2018', arxivId: '1810.04805' },
+      { year: '2015', doi: '10.1038/nature14539' },
+    ]);
+  });
+
+  it('splits author-year lists where a line starts with a name', () => {
+    expect(fields(paper('b', { fullText: AUTHOR_YEAR }))).toEqual([
+      { title: 'Language models are few-shot learners', year: '2020' },
+      { title: 'Reducing the dimensionality of data with neural networks', year: '2006' },
+      { title: 'Representation learning with contrastive predictive coding', year: '2018', arxivId: '1807.03748' },
+    ]);
+  });
+
+  it('splits numbered lists', () => {
+    const text = ['References', '1. A. Author. First cited work title. 2001.', '2. B. Author. Second cited work title. 2002.', '3. C. Author. Third cited work title. 2003.'].join('\n');
+    expect(fields(paper('c', { fullText: text })).map(r => r.year)).toEqual(['2001', '2002', '2003']);
+  });
+
+  it('ignores transcripts', () => {
+    expect(extractReferences(paper('d', { fullText: BRACKETED, transcript: { kind: 'audio', mimeType: 'audio/mpeg', fileName: 'talk.mp3', duration: 60, segments: [] } }))).toEqual([]);
+  });
+});
+
+describe('buildCitationGraph', () => {
+  const citing = [paper('a', { fullText: BRACKETED }), paper('b', { fullText: BRACKETED })];
+  const lora = paper('lora', { title: 'LoRA: Low-Rank Adaptation of Large Language Models', arxivId: '2106.09685' });
+  const attention = paper('attention', { title: 'Attention Is All You Need' });
+
+  it('links references to collection papers by arXiv id and title', () => {
+    const graph = buildCitationGraph([...citing, lora, attention]);
+    expect(graph.cites.get('a')).toEqual(['attention', 'lora']);
+    expect(graph.citedBy.get('lora')).toEqual(['a', 'b']);
+    expect(graph.referenceCounts.get('a')).toBe(4);
+  });
+
+  it('groups unmatched references into external works', () => {
+    const graph = buildCitationGraph([...citing, lora, attention]);
+    const missing = suggestMissingWorks(graph);
+    expect(missing.map(w => w.key)).toEqual(['arxiv:1810.04805', 'doi:10.1038/nature14539']);
+    expect(missing.map(externalWorkLink)).toEqual(['https://arxiv.org/abs/1810.04805', 'https://doi.org/10.1038/nature14539']);
+    expect(suggestMissingWorks(graph, 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+import { Paper } from '../types';
+import { arxivAbsUrl } from './arxiv';
+import { findArxivId } from './bibliography';
+import { normalizeTitle } from './paperSchema';
+
+// Reference lists are parsed from the ingested full text only; nothing here goes to the network
+
+export interface ParsedReference {
+  raw: string;
+  title?: string;
+  year?: string;
+  arxivId?: string;
+  doi?: string; // lower case
+}
+
+const REFERENCE_HEADING = /^[ \t]*(?:(?:\d+|[IVX]+)\.?[ \t]+)?(references|bibliography|literature cited|works cited)[ \t]*:?[ \t]*$/gim;
+const SECTION_AFTER = /^[ \t]*(?:(?:[A-Z]|\d+)\.?[ \t]+)?(?:appendix|appendices|supplementary material|checklist)\b/im;
+
+/** Text of the last "References" section, up to an appendix that follows it. */
+export const findReferenceSection = (fullText: string): string | null => {
+  let start = -1;
+  for (const match of fullText.matchAll(REFERENCE_HEADING)) start = match.index! + match[0].length;
+  if (start === -1) return null;
+  const rest = fullText.slice(start);
+  const end = rest.search(SECTION_AFTER);
+  return end === -1 ? rest : rest.slice(0, end);
+};
+
+const BRACKETED = /^\s*\[(\d{1,3})\]\s*/;
+const NUMBERED = /^\s*(\d{1,3})\.\s+/;
+// "Vaswani, A.", "Vaswani A.", "Ashish Vaswani, Noam ...", "van den Oord, A."
+const AUTHOR_START = /^(?:\p{Ll}+\s+){0,2}\p{Lu}[\p{L}'’-]+(?:,|\s+\p{Lu}\.|\s+\p{Lu}[\p{L}'’-]+,)/u;
+
+// Entries are numbered "[n]" or "n." in most styles; author-year lists start a new entry on a line that begins with a name after one that ended a sentence
+const splitEntries = (section: string): string[] => {
+  const lines = section.split('\n').map(l => l.trim());
+  const marker = lines.filter(l => BRACKETED.test(l)).length >= 3 ? BRACKETED : lines.filter(l => NUMBERED.test(l)).length >= 3 ? NUMBERED : null;
+
+  const entries: string[][] = [];
+  let previous = '';
+  for (const line of lines) {
+    if (!line) {
+      previous = '';
+      continue;
+    }
+    const starts = marker
+      ? marker.test(line)
+      : entries.length === 0 || previous === '' || (/[.)]$/.test(previous) && AUTHOR_START.test(line));
+    if (starts || entries.length === 0) entries.push([marker ? line.replace(marker, '') : line]);
+    else entries[entries.length - 1].push(line);
+    previous = line;
+  }
+
+  // Hyphenation at line ends is undone before the lines are joined
+  return entries
+    .map(lines => lines.join('\n').replace(/(\p{Ll})-\n(\p{Ll})/gu, '$1$2').replace(/\s+/g, ' ').trim())
+    .filter(entry => entry.length >= 20 && entry.length <= 1000);
+};
+
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/;
+const CORR_ID = /\babs\/(\d{4}\.\d{4,5})\b/; // DBLP style: "CoRR, abs/1706.03762"
+const YEAR = /\b(19[5-9]\d|20\d{2})[a-z]?\b/;
+
+// Sentences of a reference; initials ("A. Vaswani") don't end one
+const sentences = (entry: string) => entry.split(/(?<=[^\s.]{2}[.?!])\s+|(?<=[”"])\s*[,.]?\s+/).map(s => s.trim()).filter(Boolean);
+
+const looksLikeAuthors = (text: string) =>
+  /\bet al\b/i.test(text) || (text.match(/,/g)?.length ?? 0) >= 2 || /\b\p{Lu}\.\s/u.test(text) || /\band\b/.test(text) && text.split(/\s+/).length <= 8;
+
+const guessTitle = (entry: string): string | undefined => {
+  const quoted = entry.match(/[“"]([^”"]{10,})[”"]/);
+  if (quoted) return quoted[1].replace(/[,.]$/, '').trim();
+  const candidates = sentences(entry)
+    .slice(1)
+    .map(s => s.replace(/^\(?(19|20)\d{2}[a-z]?\)?[.,]?\s*/, '').replace(/[.,]$/, '').trim())
+    .filter(s => s.split(/\s+/).length >= 3 && !/^(in|proceedings|arxiv|advances|journal|url|doi)\b/i.test(s) && !looksLikeAuthors(s));
+  return candidates[0];
+};
+
+export const parseReference = (entry: string): ParsedReference => {
+  const doi = entry.match(DOI)?.[1].replace(/[.,;)\]]+$/, '').toLowerCase();
+  const arxivId = findArxivId(entry) ?? entry.match(CORR_ID)?.[1];
+  return {
+    raw: entry,
+    title: guessTitle(entry),
+    year: entry.match(YEAR)?.[1],
+    ...(arxivId ? { arxivId } : {}),
+    ...(doi && !doi.startsWith('10.48550/') ? { doi } : {}),
+  };
+};
+
+const parsed = new WeakMap<Paper, ParsedReference[]>();
+
+/** The parsed reference list of a paper; recordings and papers without full text have none. */
+export const extractReferences = (paper: Paper): ParsedReference[] => {
+  const cached = parsed.get(paper);
+  if (cached) return cached;
+  const section = paper.fullText && !paper.transcript ? findReferenceSection(paper.fullText) : null;
+  const references = section ? splitEntries(section).map(parseReference) : [];
+  parsed.set(paper, references);
+  return references;
+};
+
+// --- Graph ---
+
+export interface ExternalWork {
+  key: string;
+  title?: string;
+  year?: string;
+  arxivId?: string;
+  doi?: string;
+  raw: string;         // one of the reference strings, for display
+  citedBy: string[];   // ids of the collection papers citing it
+}
+
+export interface CitationGraph {
+  edges: { from: string; to: string }[]; // from cites to
+  cites: Map<string, string[]>;
+  citedBy: Map<string, string[]>;
+  referenceCounts: Map<string, number>;  // parsed references per paper
+  external: ExternalWork[];              // cited works that are not in the collection, most cited first
+}
+
+// Titles shorter than this match too much when searched for inside a reference string
+const MIN_TITLE_MATCH = 20;
+
+const referenceKeys = (ref: ParsedReference): string[] => [
+  ref.arxivId && `arxiv:${ref.arxivId}`,
+  ref.doi && `doi:${ref.doi}`,
+  ref.title && ref.title.split(/\s+/).length >= 3 && `title:${normalizeTitle(ref.title)}`,
+].filter((k): k is string => Boolean(k));
+
+/**
+ * Matches every paper's references against the collection by arXiv ID, DOI
+ * or title; unmatched references are grouped into external works.
+ */
+export const buildCitationGraph = (papers: Paper[]): CitationGraph => {
+  const byKey = new Map<string, string>();
+  papers.forEach(p => {
+    if (p.arxivId) byKey.set(`arxiv:${p.arxivId}`, p.id);
+    if (p.doi) byKey.set(`doi:${p.doi.toLowerCase()}`, p.id);
+    byKey.set(`title:${normalizeTitle(p.title)}`, p.id);
+  });
+  const titled = papers.map(p => ({ id: p.id, title: normalizeTitle(p.title) })).filter(p => p.title.length >= MIN_TITLE_MATCH);
+
+  const match = (ref: ParsedReference): string | undefined => {
+    for (const key of referenceKeys(ref)) if (byKey.has(key)) return byKey.get(key);
+    const text = normalizeTitle(ref.raw);
+    return titled.find(p => text.includes(p.title))?.id;
+  };
+
+  const cites = new Map<string, string[]>();
+  const citedBy = new Map<string, string[]>();
+  const referenceCounts = new Map<string, number>();
+  const edges: CitationGraph['edges'] = [];
+  const groups = new Map<string, ExternalWork>();
+
+  for (const paper of papers) {
+    const references = extractReferences(paper);
+    referenceCounts.set(paper.id, references.length);
+    for (const ref of references) {
+      const target = match(ref);
+      if (target === paper.id) continue;
+      if (target) {
+        if (cites.get(paper.id)?.includes(target)) continue;
+        edges.push({ from: paper.id, to: target });
+        cites.set(paper.id, [...(cites.get(paper.id) ?? []), target]);
+        citedBy.set(target, [...(citedBy.get(target) ?? []), paper.id]);
+        continue;
+      }
+
+      const keys = referenceKeys(ref);
+      if (keys.length === 0) continue;
+      const work = keys.map(k => groups.get(k)).find(Boolean) ?? { key: keys[0], raw: ref.raw, citedBy: [] };
+      work.title ??= ref.title;
+      work.year ??= ref.year;
+      work.arxivId ??= ref.arxivId;
+      work.doi ??= ref.doi;
+      if (!work.citedBy.includes(paper.id)) work.citedBy.push(paper.id);
+      keys.forEach(k => groups.set(k, work));
+    }
+  }
+
+  const external = Array.from(new Set(groups.values())).sort((a, b) => b.citedBy.length - a.citedBy.length);
+  return { edges, cites, citedBy, referenceCounts, external };
+};
+
+/** Works cited by at least `minCitations` papers of the collection that aren't in it yet. */
+export const suggestMissingWorks = (graph: CitationGraph, minCitations = 2, limit = 15): ExternalWork[] =>
+  graph.external.filter(w => w.citedBy.length >= minCitations).slice(0, limit);
+
+/** A link the ingestion pipeline can fetch the work from, if it has an identifier. */
+export const externalWorkLink = (work: ExternalWork): string | null =>
+  work.arxivId ? arxivAbsUrl(work.arxivId) : work.doi ? `https://doi.org/${work.doi}` : null;
@@ -0,0 +1,256 @@
+import { Chunk, Paper, RetrievedChunk } from '../types';
+import { EmbeddingProvider } from './embeddings';
+import { VectorStore } from './vectorStore';
+
+// --- Tokenizing ---
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'with', 'why',
+]);
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// --- BM25 ---
+
+interface KeywordDocument {
+  id: string;
+  text: string;
+}
+
+/** Okapi BM25 over a fixed set of documents. */
+export class KeywordIndex {
+  private readonly postings = new Map<string, Map<string, number>>(); // term -> document id -> term frequency
+  private readonly lengths = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(documents: KeywordDocument[], private readonly k1 = 1.2, private readonly b = 0.75) {
+    for (const { id, text } of documents) {
+      const tokens = tokenize(text);
+      this.lengths.set(id, tokens.length);
+      for (const token of tokens) {
+        const docs = this.postings.get(token) ?? new Map<string, number>();
+        docs.set(id, (docs.get(id) ?? 0) + 1);
+        this.postings.set(token, docs);
+      }
+    }
+    this.averageLength = documents.length > 0 ? Array.from(this.lengths.values()).reduce((a, b) => a + b, 0) / documents.length : 0;
+  }
+
+  get size() {
+    return this.lengths.size;
+  }
+
+  search(query: string, k: number, filter?: (id: string) => boolean): { id: string; score: number }[] {
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenize(query))) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+      const idf = Math.log(1 + (this.size - docs.size + 0.5) / (docs.size + 0.5));
+      for (const [id, tf] of docs) {
+        if (filter && !filter(id)) continue;
+        const norm = 1 - this.b + this.b * (this.lengths.get(id)! / (this.averageLength || 1));
+        scores.set(id, (scores.get(id) ?? 0) + idf * ((tf * (this.k1 + 1)) / (tf + this.k1 * norm)));
+      }
+    }
+    return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
+
+// The keyword index of a vector store's chunks is rebuilt lazily after the store changes
+const chunkIndexes = new WeakMap<VectorStore, { version: number; index: KeywordIndex; byId: Map<string, Chunk> }>();
+
+const chunkIndexFor = (store: VectorStore) => {
+  const cached = chunkIndexes.get(store);
+  if (cached?.version === store.version) return cached;
+  const chunks = store.chunks();
+  const built = { version: store.version, index: new KeywordIndex(chunks), byId: new Map(chunks.map(c => [c.id, c])) };
+  chunkIndexes.set(store, built);
+  return built;
+};
+
+// --- Hybrid retrieval ---
+
+export interface HybridSearchOptions {
+  topK: number;
+  filter?: (chunk: Chunk) => boolean;
+  // Drop semantic matches scoring more than this below the best one; similarity always returns something, relevant or not
+  semanticMargin?: number;
+}
+
+// Reciprocal rank fusion: rank-based, so BM25 and cosine scores never need to be on the same scale
+const RRF_K = 60;
+const CANDIDATES_PER_TOPK = 4;
+
+const fuse = (rankings: string[][]): Map<string, number> => {
+  const fused = new Map<string, number>();
+  rankings.forEach(ranking => ranking.forEach((id, rank) => fused.set(id, (fused.get(id) ?? 0) + 1 / (RRF_K + rank + 1))));
+  return fused;
+};
+
+/**
+ * Chunks ranked by BM25 keyword score and embedding similarity together.
+ * Without an embedder (or when the query can't be embedded) only keywords count.
+ */
+export const hybridSearch = async (
+  query: string,
+  store: VectorStore,
+  embedder: EmbeddingProvider | null,
+  { topK, filter, semanticMargin }: HybridSearchOptions
+): Promise<RetrievedChunk[]> => {
+  if (store.size === 0 || !query.trim()) return [];
+  const candidates = topK * CANDIDATES_PER_TOPK;
+  const { index, byId } = chunkIndexFor(store);
+
+  const keyword = index.search(query, candidates, filter && (id => filter(byId.get(id)!))).map(r => r.id);
+  let semantic: string[] = [];
+  if (embedder) {
+    const results = store.search(await embedder.embedQuery(query), candidates, filter);
+    const floor = semanticMargin !== undefined && results.length > 0 ? results[0].score - semanticMargin : -Infinity;
+    semantic = results.filter(r => r.score >= floor).map(r => r.chunk.id);
+  }
+
+  return Array.from(fuse([keyword, semantic]), ([id, score]) => ({ chunk: byId.get(id)!, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
+
+// --- Paper search ---
+
+export interface PaperHit {
+  paperId: string;
+  score: number;
+  snippet?: string; // best matching passage, trimmed around the first query term
+}
+
+const paperDocument = (paper: Paper) => ({
+  id: paper.id,
+  // The title counts twice, it is the strongest signal
+  text: [paper.title, paper.title, paper.authors.join(' '), paper.abstract, paper.summary, ...paper.highlights, ...(paper.tags ?? []), ...(paper.categories ?? [])]
+    .filter(Boolean).join('\n'),
+});
+
+const PAPER_SEMANTIC_MARGIN = 0.1;
+const CHUNK_CANDIDATES = 50;
+
+/** Papers matching `query` in their metadata or their full text, best first, each with a snippet. */
+export const searchPapers = async (
+  query: string,
+  papers: Paper[],
+  store: VectorStore,
+  embedder: EmbeddingProvider | null
+): Promise<PaperHit[]> => {
+  const terms = tokenize(query);
+  if (terms.length === 0 && !embedder) return [];
+  const metadata = new KeywordIndex(papers.map(paperDocument)).search(query, papers.length).map(r => r.id);
+
+  const chunks = await hybridSearch(query, store, embedder, { topK: CHUNK_CANDIDATES, semanticMargin: PAPER_SEMANTIC_MARGIN });
+  const bestChunk = new Map<string, Chunk>();
+  chunks.forEach(({ chunk }) => { if (!bestChunk.has(chunk.paperId)) bestChunk.set(chunk.paperId, chunk); });
+
+  const known = new Set(papers.map(p => p.id));
+  return Array.from(fuse([metadata, Array.from(bestChunk.keys())]), ([paperId, score]) => ({
+    paperId,
+    score,
+    snippet: bestChunk.has(paperId) ? makeSnippet(bestChunk.get(paperId)!.text, terms) : undefined,
+  }))
+    .filter(hit => known.has(hit.paperId))
+    .sort((a, b) => b.score - a.score);
+};
+
+// --- Snippets & highlighting ---
+
+const SNIPPET_LENGTH = 220;
+
+const termPattern = (terms: string[]) =>
+  terms.length > 0 ? new RegExp(`(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'giu') : null;
+
+/** A window of `text` around the first occurrence of a query term. */
+export const makeSnippet = (text: string, terms: string[], length = SNIPPET_LENGTH): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const first = termPattern(terms)?.exec(flat)?.index ?? 0;
+  const start = Math.max(0, Math.min(first - Math.floor(length / 3), flat.length - length));
+  const end = Math.min(flat.length, start + length);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+};
+
+/** Splits `text` into plain and matched parts for highlighting. */
+export const splitHighlights = (text: string, terms: string[]): { text: string; match: boolean }[] => {
+  const pattern = termPattern(terms);
+  if (!pattern) return [{ text, match: false }];
+  return text.split(pattern).filter(Boolean).map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
+
+// --- Facets & sorting ---
+
+export type FacetKey = 'year' | 'author' | 'category' | 'tag';
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  year: 'Year',
+  author: 'Author',
+  category: 'arXiv category',
+  tag: 'Tag',
+};
+
+export type FacetSelection = Record<FacetKey, string[]>;
+
+export const EMPTY_FACETS: FacetSelection = { year: [], author: [], category: [], tag: [] };
+
+const facetValues = (paper: Paper, key: FacetKey): string[] => {
+  switch (key) {
+    case 'year': return paper.year ? [paper.year] : [];
+    case 'author': return paper.authors;
+    case 'category': return paper.categories ?? [];
+    case 'tag': return paper.tags ?? [];
+  }
+};
+
+// Long author lists would crowd out everything else
+const MAX_FACET_VALUES = 12;
+
+/** Values of each facet with the number of papers having them; years newest first, the rest most frequent first. */
+export const computeFacets = (papers: Paper[]): Record<FacetKey, { value: string; count: number }[]> => {
+  const count = (key: FacetKey) => {
+    const counts = new Map<string, number>();
+    papers.forEach(p => new Set(facetValues(p, key)).forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1)));
+    const values = Array.from(counts, ([value, n]) => ({ value, count: n }));
+    return key === 'year'
+      ? values.sort((a, b) => b.value.localeCompare(a.value))
+      : values.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)).slice(0, MAX_FACET_VALUES);
+  };
+  return { year: count('year'), author: count('author'), category: count('category'), tag: count('tag') };
+};
+
+/** Values of one facet are alternatives (OR); different facets must all match (AND). */
+export const applyFacets = (papers: Paper[], selection: FacetSelection): Paper[] =>
+  papers.filter(p => (Object.keys(selection) as FacetKey[]).every(key =>
+    selection[key].length === 0 || facetValues(p, key).some(v => selection[key].includes(v))));
+
+export type PaperSort = 'relevance' | 'year' | 'added';
+
+export const SORT_LABELS: Record<PaperSort, string> = {
+  relevance: 'Relevance',
+  year: 'Year',
+  added: 'Date added',
+};
+
+/**
+ * Orders papers for the sidebar. Relevance follows `hits` while searching and
+ * keeps the collection order otherwise; year and date added are newest first.
+ */
+export const sortPapers = (papers: Paper[], sort: PaperSort, hits: PaperHit[] | null): Paper[] => {
+  const position = new Map(papers.map((p, i) => [p.id, i]));
+  switch (sort) {
+    case 'relevance': {
+      if (!hits) return papers;
+      const rank = new Map(hits.map((h, i) => [h.paperId, i]));
+      return [...papers].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+    }
+    case 'year':
+      return [...papers].sort((a, b) => b.year.localeCompare(a.year) || position.get(a.id)! - position.get(b.id)!);
+    case 'added':
+      // Papers saved before dates were recorded keep their stored order, after the dated ones
+      return [...papers].sort((a, b) => (b.addedAt ?? -Infinity) - (a.addedAt ?? -Infinity) || position.get(b.id)! - position.get(a.id)!);
+  }
+};
@@ -0,0 +1,93 @@
+import { LLMTask, ProviderId } from './providers/types';
+
+const SETTINGS_KEY = 'neurpaper.settings';
+
+export interface TaskAssignment {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface LLMSettings {
+  gemini: { apiKey: string };
+  openai: { baseUrl: string; apiKey: string };
+  ollama: { baseUrl: string };
+  tasks: Record<LLMTask, TaskAssignment>;
+}
+
+export const TASK_LABELS: Record<LLMTask, string> = {
+  chat: 'Chat & reasoning',
+  summarize: 'Summaries & structured output',
+  embed: 'Embeddings',
+  live: 'Voice (live audio)',
+  transcribe: 'Transcription (audio & video)',
+};
+
+// Suggestions for the model field; any model name the backend knows is accepted
+export const MODEL_SUGGESTIONS: Record<ProviderId, Partial<Record<LLMTask, string[]>>> = {
+  gemini: {
+    chat: ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'],
+    summarize: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+    embed: ['gemini-embedding-001'],
+    live: ['gemini-2.5-flash-native-audio-preview-09-2025'],
+    transcribe: ['gemini-2.5-flash', 'gemini-2.5-pro'],
+  },
+  openai: {
+    chat: ['gpt-4o', 'gpt-4o-mini'],
+    summarize: ['gpt-4o-mini'],
+    embed: ['text-embedding-3-small', 'text-embedding-3-large'],
+    transcribe: ['whisper-1'],
+  },
+  ollama: {
+    chat: ['llama3.1', 'qwen2.5', 'mistral'],
+    summarize: ['llama3.1', 'qwen2.5'],
+    embed: ['nomic-embed-text', 'mxbai-embed-large'],
+  },
+  mock: {
+    chat: ['mock'],
+    summarize: ['mock'],
+    embed: ['local-hash'],
+    live: [],
+    transcribe: ['mock'],
+  },
+};
+
+const hasGeminiKey = !!process.env.API_KEY;
+
+export const DEFAULT_SETTINGS: LLMSettings = {
+  gemini: { apiKey: '' },
+  openai: { baseUrl: 'https://api.openai.com/v1', apiKey: '' },
+  ollama: { baseUrl: 'http://localhost:11434' },
+  // Without a build-time Gemini key, start on the offline mock so the app still works
+  tasks: hasGeminiKey
+    ? {
+        chat: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+        summarize: { provider: 'gemini', model: 'gemini-2.5-flash' },
+        embed: { provider: 'gemini', model: 'gemini-embedding-001' },
+        live: { provider: 'gemini', model: 'gemini-2.5-flash-native-audio-preview-09-2025' },
+        transcribe: { provider: 'gemini', model: 'gemini-2.5-flash' },
+      }
+    : {
+        chat: { provider: 'mock', model: 'mock' },
+        summarize: { provider: 'mock', model: 'mock' },
+        embed: { provider: 'mock', model: 'local-hash' },
+        live: { provider: 'gemini', model: 'gemini-2.5-flash-native-audio-preview-09-2025' },
+        transcribe: { provider: 'mock', model: 'mock' },
+      },
+};
+
+export const loadSettings = (): LLMSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!stored) return DEFAULT_SETTINGS;
+    return {
+      gemini: { ...DEFAULT_SETTINGS.gemini, ...stored.gemini },
+      openai: { ...DEFAULT_SETTINGS.openai, ...stored.openai },
+      ollama: { ...DEFAULT_SETTINGS.ollama, ...stored.ollama },
+      tasks: { ...DEFAULT_SETTINGS.tasks, ...stored.tasks },
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: LLMSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
@@ -0,0 +1,350 @@
+import { ChatMessage, ChatThread, Chunk, Collection, DatasetExample, Paper, PipelineRun, ProcessingLog, TrainingRun } from '../types';
+
+const DB_NAME = 'neurpaper';
+const ACTIVE_COLLECTION_KEY = 'neurpaper.activeCollectionId';
+
+/**
+ * Bump this whenever a stored type (Paper, Chunk, ChatThread, ...) changes shape
+ * and add a matching entry to MIGRATIONS that rewrites the existing records.
+ */
+export const SCHEMA_VERSION = 6;
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// MIGRATIONS[n] upgrades a database from version n to n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  0: (db) => {
+    db.createObjectStore('collections', { keyPath: 'id' });
+    for (const name of ['papers', 'chunks', 'threads', 'pipelineRuns']) {
+      const store = db.createObjectStore(name, { keyPath: 'id' });
+      store.createIndex('collectionId', 'collectionId');
+    }
+  },
+  // Pipeline runs gained a title and per-step log ids; 'pending' used to mean failed
+  1: (_db, tx) => {
+    const store = tx.objectStore('pipelineRuns');
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const run = cursor.value;
+      cursor.update({
+        ...run,
+        title: run.title ?? 'Ingestion',
+        logs: run.logs.map((log: ProcessingLog, i: number) => ({
+          ...log,
+          id: log.id ?? `step-${i}`,
+          status: (log.status as string) === 'pending' ? 'failed' : log.status,
+        })),
+      });
+      cursor.continue();
+    };
+  },
+  // Threads became message trees: chain the flat history and point at its last message
+  2: (_db, tx) => {
+    const store = tx.objectStore('threads');
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const thread = cursor.value;
+      const messages: ChatMessage[] = thread.messages.map((m: ChatMessage, i: number) => ({
+        ...m,
+        parentId: i === 0 ? null : thread.messages[i - 1].id,
+        createdAt: m.createdAt ?? thread.createdAt,
+      }));
+      cursor.update({ ...thread, messages, activeLeafId: messages[messages.length - 1]?.id ?? null });
+      cursor.continue();
+    };
+  },
+  // Recordings behind transcript sources, stored apart from the papers so loading a collection stays cheap
+  3: (db) => {
+    db.createObjectStore('media', { keyPath: 'id' }).createIndex('collectionId', 'collectionId');
+  },
+  // Imported training runs replace the simulated fine-tuning curve
+  4: (db) => {
+    db.createObjectStore('trainingRuns', { keyPath: 'id' }).createIndex('collectionId', 'collectionId');
+  },
+  // Fine-tuning examples; indexed by paper too so they go with the paper they were written from
+  5: (db) => {
+    const store = db.createObjectStore('datasetExamples', { keyPath: 'id' });
+    store.createIndex('collectionId', 'collectionId');
+    store.createIndex('paperId', 'paperId');
+  },
+};
+
+export interface StoredChunk extends Chunk {
+  collectionId: string;
+  embedderId: string;
+  vector: number[];
+}
+
+type StoredPaper = Paper & { collectionId: string };
+
+export interface CollectionData {
+  papers: Paper[];
+  chunks: StoredChunk[];
+  threads: ChatThread[];
+  pipelineRuns: PipelineRun[];
+  trainingRuns: TrainingRun[];
+  datasetExamples: DatasetExample[];
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction!;
+        for (let v = event.oldVersion; v < SCHEMA_VERSION; v++) {
+          MIGRATIONS[v](request.result, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => console.warn('Storage upgrade blocked by another open tab');
+    });
+  }
+  return dbPromise;
+};
+
+const getAllByCollection = async <T>(store: string, collectionId: string): Promise<T[]> => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readonly');
+  return promisify(tx.objectStore(store).index('collectionId').getAll(collectionId)) as Promise<T[]>;
+};
+
+const deleteByIndex = (tx: IDBTransaction, store: string, index: string, key: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = tx.objectStore(store).index(index).openKeyCursor(IDBKeyRange.only(key));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      tx.objectStore(store).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const deleteByCollection = (tx: IDBTransaction, store: string, collectionId: string): Promise<void> =>
+  deleteByIndex(tx, store, 'collectionId', collectionId);
+
+// --- Collections ---
+
+export const listCollections = async (): Promise<Collection[]> => {
+  const db = await openDb();
+  const all = await promisify(db.transaction('collections', 'readonly').objectStore('collections').getAll());
+  return (all as Collection[]).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createCollection = async (name: string): Promise<Collection> => {
+  const now = Date.now();
+  const collection: Collection = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+  const db = await openDb();
+  const tx = db.transaction('collections', 'readwrite');
+  tx.objectStore('collections').put(collection);
+  await completion(tx);
+  return collection;
+};
+
+export const renameCollection = async (collection: Collection, name: string): Promise<Collection> => {
+  const updated = { ...collection, name, updatedAt: Date.now() };
+  const db = await openDb();
+  const tx = db.transaction('collections', 'readwrite');
+  tx.objectStore('collections').put(updated);
+  await completion(tx);
+  return updated;
+};
+
+export const deleteCollection = async (collectionId: string): Promise<void> => {
+  const db = await openDb();
+  const stores = ['collections', 'papers', 'chunks', 'threads', 'pipelineRuns', 'media', 'trainingRuns', 'datasetExamples'];
+  const tx = db.transaction(stores, 'readwrite');
+  tx.objectStore('collections').delete(collectionId);
+  await Promise.all(stores.slice(1).map(s => deleteByCollection(tx, s, collectionId)));
+  await completion(tx);
+};
+
+export const getActiveCollectionId = (): string | null => localStorage.getItem(ACTIVE_COLLECTION_KEY);
+
+export const setActiveCollectionId = (collectionId: string) => localStorage.setItem(ACTIVE_COLLECTION_KEY, collectionId);
+
+export const loadCollection = async (collectionId: string): Promise<CollectionData> => {
+  const [papers, chunks, threads, pipelineRuns, trainingRuns, datasetExamples] = await Promise.all([
+    getAllByCollection<StoredPaper>('papers', collectionId),
+    getAllByCollection<StoredChunk>('chunks', collectionId),
+    getAllByCollection<ChatThread>('threads', collectionId),
+    getAllByCollection<PipelineRun>('pipelineRuns', collectionId),
+    getAllByCollection<TrainingRun>('trainingRuns', collectionId),
+    getAllByCollection<DatasetExample>('datasetExamples', collectionId),
+  ]);
+  return {
+    papers: papers.map(({ collectionId: _, ...paper }) => paper),
+    chunks,
+    threads: threads.sort((a, b) => b.updatedAt - a.updatedAt),
+    pipelineRuns: pipelineRuns.sort((a, b) => b.startedAt - a.startedAt),
+    trainingRuns: trainingRuns.sort((a, b) => b.importedAt - a.importedAt),
+    datasetExamples: datasetExamples.sort((a, b) => a.createdAt - b.createdAt),
+  };
+};
+
+// --- Papers & chunks ---
+
+/** Replaces the papers and chunk index of a collection in one transaction. */
+export const replaceCorpus = async (
+  collectionId: string,
+  papers: Paper[],
+  chunks: Chunk[],
+  vectors: number[][],
+  embedderId: string
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(['papers', 'chunks', 'collections'], 'readwrite');
+  await Promise.all([deleteByCollection(tx, 'papers', collectionId), deleteByCollection(tx, 'chunks', collectionId)]);
+
+  const paperStore = tx.objectStore('papers');
+  papers.forEach(p => paperStore.put({ ...p, collectionId }));
+  const chunkStore = tx.objectStore('chunks');
+  chunks.forEach((c, i) => chunkStore.put({ ...c, collectionId, embedderId, vector: vectors[i] }));
+
+  touchCollection(tx, collectionId);
+  await completion(tx);
+};
+
+// Chunk ids are `${paperId}#${index}`, so a paper's chunks form one contiguous key range
+const paperChunkRange = (paperId: string) => IDBKeyRange.bound(`${paperId}#`, `${paperId}#\uffff`);
+
+/** Adds or updates papers and replaces only their chunks, leaving the rest of the collection untouched. */
+export const mergeCorpus = async (
+  collectionId: string,
+  papers: Paper[],
+  chunks: Chunk[],
+  vectors: number[][],
+  embedderId: string,
+  media: Record<string, Blob> = {}
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(['papers', 'chunks', 'media', 'collections'], 'readwrite');
+
+  const paperStore = tx.objectStore('papers');
+  const chunkStore = tx.objectStore('chunks');
+  papers.forEach(p => {
+    paperStore.put({ ...p, collectionId });
+    chunkStore.delete(paperChunkRange(p.id));
+  });
+  chunks.forEach((c, i) => chunkStore.put({ ...c, collectionId, embedderId, vector: vectors[i] }));
+  const mediaStore = tx.objectStore('media');
+  Object.entries(media).forEach(([paperId, blob]) => mediaStore.put({ id: paperId, collectionId, blob }));
+
+  touchCollection(tx, collectionId);
+  await completion(tx);
+};
+
+/** Saves edits to a paper's record (e.g. its tags); chunks and embeddings stay as they are. */
+export const savePaper = async (collectionId: string, paper: Paper): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(['papers', 'collections'], 'readwrite');
+  tx.objectStore('papers').put({ ...paper, collectionId });
+  touchCollection(tx, collectionId);
+  await completion(tx);
+};
+
+/** Removes one paper together with its chunks, embeddings and recording. */
+export const deletePaper = async (collectionId: string, paperId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(['papers', 'chunks', 'media', 'datasetExamples', 'collections'], 'readwrite');
+  tx.objectStore('papers').delete(paperId);
+  tx.objectStore('chunks').delete(paperChunkRange(paperId));
+  tx.objectStore('media').delete(paperId);
+  const examples = deleteByIndex(tx, 'datasetExamples', 'paperId', paperId);
+  touchCollection(tx, collectionId);
+  await Promise.all([examples, completion(tx)]);
+};
+
+/** The recording behind a transcript source, if it was kept. */
+export const loadMedia = async (paperId: string): Promise<Blob | undefined> => {
+  const db = await openDb();
+  const record = await promisify(db.transaction('media', 'readonly').objectStore('media').get(paperId));
+  return (record as { blob: Blob } | undefined)?.blob;
+};
+
+const touchCollection = (tx: IDBTransaction, collectionId: string) => {
+  const store = tx.objectStore('collections');
+  const request = store.get(collectionId);
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, updatedAt: Date.now() });
+  };
+};
+
+// --- Chat threads & pipeline history ---
+
+export const saveThread = async (thread: ChatThread): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction('threads', 'readwrite');
+  tx.objectStore('threads').put(thread);
+  await completion(tx);
+};
+
+export const deleteThread = async (threadId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction('threads', 'readwrite');
+  tx.objectStore('threads').delete(threadId);
+  await completion(tx);
+};
+
+export const savePipelineRun = async (run: PipelineRun): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction('pipelineRuns', 'readwrite');
+  tx.objectStore('pipelineRuns').put(run);
+  await completion(tx);
+};
+
+// --- Training runs ---
+
+export const saveTrainingRun = async (run: TrainingRun): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction('trainingRuns', 'readwrite');
+  tx.objectStore('trainingRuns').put(run);
+  await completion(tx);
+};
+
+export const deleteTrainingRun = async (runId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction('trainingRuns', 'readwrite');
+  tx.objectStore('trainingRuns').delete(runId);
+  await completion(tx);
+};
+
+// --- Fine-tuning datasets ---
+
+export const saveDatasetExamples = async (examples: DatasetExample[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction('datasetExamples', 'readwrite');
+  const store = tx.objectStore('datasetExamples');
+  examples.forEach(example => store.put(example));
+  await completion(tx);
+};
+
+export const deleteDatasetExamples = async (ids: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction('datasetExamples', 'readwrite');
+  const store = tx.objectStore('datasetExamples');
+  ids.forEach(id => store.delete(id));
+  await completion(tx);
+};
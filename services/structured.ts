@@ -0,0 +1,141 @@
+import { z } from 'zod';
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly rawText?: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface DroppedItem {
+  label: string;     // human readable identification of the item
+  reasons: string[];
+}
+
+export interface ValidationReport<T> {
+  items: T[];
+  dropped: DroppedItem[];
+  attempts: number;  // 1 + number of repair prompts that were sent
+}
+
+/** Strips markdown fences and surrounding prose, then parses the first JSON array or object. */
+export const parseJsonLoose = (text: string): unknown => {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+  const starts = [cleaned.indexOf('['), cleaned.indexOf('{')].filter(i => i !== -1);
+  const start = starts.length > 0 ? Math.min(...starts) : -1;
+  const end = start !== -1 && cleaned[start] === '[' ? cleaned.lastIndexOf(']') : cleaned.lastIndexOf('}');
+
+  const candidate = start !== -1 && end > start ? cleaned.slice(start, end + 1) : cleaned;
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new StructuredOutputError(`Response is not valid JSON: ${reason}`, text);
+  }
+};
+
+export const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'value'}: ${issue.message}`);
+
+interface ValidateListOptions<T> {
+  schema: z.ZodType<T>;
+  describe: (raw: unknown, index: number) => string;
+  key?: (item: T) => string; // items sharing a key are duplicates; the first one wins
+}
+
+const validateEntries = <T>(raw: unknown, options: ValidateListOptions<T>) => {
+  const list = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? [raw] : [];
+  const accepted: { item: T; label: string }[] = [];
+  const dropped: DroppedItem[] = [];
+  const seen = new Map<string, string>();
+
+  list.forEach((entry, index) => {
+    const label = options.describe(entry, index);
+    const result = options.schema.safeParse(entry);
+    if (!result.success) {
+      dropped.push({ label, reasons: formatIssues(result.error) });
+      return;
+    }
+
+    const key = options.key?.(result.data);
+    if (key !== undefined) {
+      const original = seen.get(key);
+      if (original !== undefined) {
+        dropped.push({ label, reasons: [`duplicate of ${original}`] });
+        return;
+      }
+      seen.set(key, label);
+    }
+    accepted.push({ item: result.data, label });
+  });
+
+  return { accepted, dropped };
+};
+
+/** Validates every element on its own so one bad entry doesn't discard the whole list. */
+export const validateList = <T>(raw: unknown, options: ValidateListOptions<T>): Omit<ValidationReport<T>, 'attempts'> => {
+  const { accepted, dropped } = validateEntries(raw, options);
+  return { items: accepted.map(a => a.item), dropped };
+};
+
+interface GenerateValidatedListOptions<T> extends ValidateListOptions<T> {
+  prompt: string;
+  generate: (prompt: string) => Promise<string>;
+  maxRepairs?: number;
+}
+
+const isDuplicate = (d: DroppedItem) => d.reasons.some(r => r.startsWith('duplicate of'));
+
+const repairPrompt = (prompt: string, previous: string, problems: string[]) => `${prompt}
+
+Your previous response was:
+${previous}
+
+It failed validation:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Return the complete, corrected JSON array. Return ONLY JSON, no Markdown and no explanations.`;
+
+/**
+ * Asks the model for a JSON list, validates it against `schema` and, while
+ * entries are invalid, re-prompts with the validation errors. Entries that are
+ * still invalid after the last repair are reported in `dropped`.
+ */
+export const generateValidatedList = async <T>(options: GenerateValidatedListOptions<T>): Promise<ValidationReport<T>> => {
+  const { prompt, generate, maxRepairs = 1 } = options;
+  // Without a key, each repaired response replaces the previous one wholesale
+  let accepted = new Map<string, { item: T; label: string }>();
+  let dropped: DroppedItem[] = [];
+  let nextPrompt = prompt;
+  let attempts = 0;
+
+  while (attempts <= maxRepairs) {
+    attempts++;
+    const text = await generate(nextPrompt);
+
+    try {
+      const result = validateEntries(parseJsonLoose(text), options);
+      if (!options.key) accepted = new Map();
+      result.accepted.forEach((entry, i) => {
+        const key = options.key?.(entry.item) ?? String(i);
+        if (!accepted.has(key)) accepted.set(key, entry);
+      });
+      dropped = result.dropped;
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+      dropped = [{ label: 'response', reasons: [error.message] }];
+    }
+
+    // Duplicates need no repair, but are still reported
+    const problems = dropped.filter(d => !isDuplicate(d)).map(d => `${d.label}: ${d.reasons.join('; ')}`);
+    if (problems.length === 0) break;
+    nextPrompt = repairPrompt(prompt, text, problems);
+  }
+
+  const acceptedLabels = new Set(Array.from(accepted.values()).map(a => a.label));
+  return {
+    items: Array.from(accepted.values()).map(a => a.item),
+    dropped: dropped.filter(d => !acceptedLabels.has(d.label)),
+    attempts,
+  };
+};
@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { Chunk, Paper } from '../types';
+import { makeCitationKeys, splitName, toBibTeX } from './bibliography';
+import { extractCitedIndices } from './citations';
+import { EmbeddingProvider } from './embeddings';
+import { formatTimestamp } from './media';
+import { PipelineStep } from './pipeline';
+import type { TaskTarget } from './providers';
+import { DroppedItem, generateValidatedList } from './structured';
+import { VectorStore } from './vectorStore';
+
+export interface SurveySection {
+  id: string;
+  heading: string;
+  brief: string;      // what the section should cover, guides the writing
+  paperIds: string[]; // the papers it discusses and may cite
+}
+
+export interface SurveyOutline {
+  title: string;
+  sections: SurveySection[];
+}
+
+// Citations are kept as Pandoc-style markers, "[@paperId; @paperId]", and rendered per output format
+export interface WrittenSection {
+  sectionId: string;
+  paragraphs: string[];
+}
+
+// --- Outline ---
+
+interface DraftSection {
+  heading: string;
+  brief: string;
+  paperIds: string[];
+}
+
+const sectionSchema = (paperIds: string[]): z.ZodType<DraftSection> => z.object({
+  heading: z.string().trim().min(1, 'heading is empty'),
+  brief: z.string().trim().min(1, 'brief is empty'),
+  paperIds: z.array(z.string().refine(id => paperIds.includes(id), 'not the ID of a paper in the collection'))
+    .min(1, 'a section must discuss at least one paper'),
+});
+
+const describePaper = (paper: Paper) =>
+  `${paper.title} (${paper.authors[0] ?? 'Unknown'}${paper.authors.length > 1 ? ' et al.' : ''}${paper.year ? `, ${paper.year}` : ''})`;
+
+export interface OutlineResult {
+  outline: SurveyOutline;
+  dropped: DroppedItem[];
+}
+
+/** Proposes the sections of a related-work survey over `papers`; every section lists the papers it covers. */
+export const proposeOutline = async (
+  papers: Paper[],
+  topic: string,
+  { provider, model }: TaskTarget,
+  signal?: AbortSignal
+): Promise<OutlineResult> => {
+  const listing = papers.map(p => `ID: ${p.id}\n${describePaper(p)}\nSummary: ${p.summary || p.abstract || ''}`).join('\n\n');
+  const prompt = `You are planning a related-work survey titled "${topic}" over the papers below.
+  Group the papers into 3-7 thematic sections, ordered so the survey reads as an argument (background first, open problems last).
+  For each section return:
+  - "heading": a short section heading
+  - "brief": one or two sentences on what the section discusses and how its papers relate
+  - "paperIds": the IDs of the papers the section discusses; every paper should appear in at least one section
+  Return a JSON array of sections.
+
+  ${listing}`;
+
+  const report = await generateValidatedList({
+    prompt,
+    schema: sectionSchema(papers.map(p => p.id)),
+    describe: (raw, i) => `section ${(raw as { heading?: string })?.heading ? `"${(raw as { heading: string }).heading}"` : `#${i + 1}`}`,
+    key: s => s.heading.toLowerCase(),
+    generate: (contents) => provider.generate({ model, prompt: contents, json: true, signal }),
+  });
+
+  const dropped = [...report.dropped];
+  const covered = new Set(report.items.flatMap(s => s.paperIds));
+  const uncovered = papers.filter(p => !covered.has(p.id));
+  if (uncovered.length > 0) dropped.push({ label: 'outline', reasons: uncovered.map(p => `"${p.title}" is not covered by any section`) });
+
+  return {
+    outline: {
+      title: topic,
+      sections: report.items.map(s => ({ id: crypto.randomUUID(), heading: s.heading, brief: s.brief, paperIds: Array.from(new Set(s.paperIds)) })),
+    },
+    dropped,
+  };
+};
+
+// --- Writing ---
+
+export interface SurveyState {
+  outline: SurveyOutline;
+  passages: Record<string, Chunk[]>; // per section id
+  written: Record<string, WrittenSection>;
+  dropped: DroppedItem[];
+}
+
+export const createSurveyState = (outline: SurveyOutline): SurveyState => ({ outline, passages: {}, written: {}, dropped: [] });
+
+export interface SurveyDeps {
+  papers: Paper[];
+  writer: TaskTarget;
+  store: VectorStore;
+  embedder: EmbeddingProvider;
+  onSection: (section: WrittenSection) => void; // each section is shown as soon as it is written
+}
+
+// Passages per paper, and per section, quoted to the writer next to the paper summaries
+const PASSAGES_PER_PAPER = 3;
+const MAX_SECTION_PASSAGES = 18;
+
+const CITATION_GROUP = /\[(\d+(?:\s*[-–,]\s*\d+)*)\]/g;
+const MARKER = /\[(@[^\]]+)\]/g;
+
+const parseMarker = (inner: string) => inner.split(';').map(part => part.trim().replace(/^@/, '')).filter(Boolean);
+
+interface DraftParagraph {
+  text: string;
+}
+
+// Every paragraph must make its claims traceable: at least one citation, and only to papers the section was given
+const paragraphSchema = (sourceCount: number): z.ZodType<DraftParagraph> => z.object({
+  text: z.string().trim().min(1, 'paragraph is empty'),
+}).superRefine(({ text }, ctx) => {
+  const cited = extractCitedIndices(text);
+  if (cited.size === 0) ctx.addIssue({ code: 'custom', message: 'paragraph cites no source', path: ['text'] });
+  const unknown = [...cited].filter(n => n < 1 || n > sourceCount);
+  if (unknown.length > 0) ctx.addIssue({ code: 'custom', message: `cites [${unknown.join(', ')}], only sources 1-${sourceCount} exist`, path: ['text'] });
+});
+
+const locationOf = (chunk: Chunk) =>
+  chunk.page !== undefined ? `p. ${chunk.page}` : chunk.time !== undefined ? `at ${formatTimestamp(chunk.time)}` : 'excerpt';
+
+const buildSectionPrompt = (outline: SurveyOutline, section: SurveySection, sources: Paper[], passages: Chunk[]) => `You are writing one section of a related-work survey titled "${outline.title}".
+  The survey's sections are:
+  ${outline.sections.map((s, i) => `${i + 1}. ${s.heading}${s.id === section.id ? '  <- write this one' : ''}`).join('\n  ')}
+
+  Section: ${section.heading}
+  What it covers: ${section.brief}
+
+  Write 2-4 paragraphs of academic prose that compare and connect the sources rather than summarising them one by one.
+  Support every claim with the sources below, citing them inline by number, e.g. [2] or [1, 3]. Every paragraph must cite at least one source and may only cite the numbers listed.
+  Don't repeat the section heading and don't use Markdown formatting.
+  Return a JSON array of paragraphs: [{"text": "..."}].
+
+  Sources:
+  ${sources.map((paper, i) => {
+    const quoted = passages.filter(c => c.paperId === paper.id).map(c => `  (${locationOf(c)}) ${c.text}`);
+    return `[${i + 1}] ${describePaper(paper)}\nSummary: ${paper.summary || paper.abstract || ''}${quoted.length > 0 ? `\nPassages:\n${quoted.join('\n')}` : ''}`;
+  }).join('\n\n')}`;
+
+// "[1, 3]" -> "[@id1; @id3]"
+const toMarkers = (text: string, sources: Paper[]) => text.replace(CITATION_GROUP, (group) => {
+  const ids = [...extractCitedIndices(group)].map(n => sources[n - 1]?.id).filter(Boolean);
+  return ids.length > 0 ? `[${ids.map(id => `@${id}`).join('; ')}]` : group;
+});
+
+/**
+ * Pipeline steps that write the survey: passages are gathered for every
+ * section first, then each section is written on its own step so a failed
+ * section can be retried without rewriting the others.
+ */
+export const createSurveySteps = (outline: SurveyOutline, { papers, writer, store, embedder, onSection }: SurveyDeps): PipelineStep<SurveyState>[] => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const sourcesOf = (section: SurveySection) => section.paperIds.map(id => byId.get(id)).filter((p): p is Paper => Boolean(p));
+
+  const gather: PipelineStep<SurveyState> = {
+    id: 'passages',
+    label: 'Gathering passages for each section',
+    run: async (state, ctx) => {
+      if (store.size === 0) return 'The index is empty; sections are written from paper summaries';
+      for (const [i, section] of state.outline.sections.entries()) {
+        ctx.throwIfCancelled();
+        const ids = new Set(section.paperIds);
+        const vector = await embedder.embedQuery(`${section.heading}. ${section.brief}`);
+        const found = store.search(vector, PASSAGES_PER_PAPER * ids.size, chunk => ids.has(chunk.paperId)).map(r => r.chunk);
+        state.passages[section.id] = found.slice(0, MAX_SECTION_PASSAGES);
+        ctx.progress(((i + 1) / state.outline.sections.length) * 100, `${i + 1}/${state.outline.sections.length} sections`);
+      }
+      return `${Object.values(state.passages).reduce((n, p) => n + p.length, 0)} passages for ${state.outline.sections.length} sections`;
+    },
+  };
+
+  const sectionSteps = outline.sections.map((section, i): PipelineStep<SurveyState> => ({
+    id: `section-${section.id}`,
+    label: `Writing ${i + 1}. ${section.heading}`,
+    dependsOn: ['passages'],
+    run: async (state, ctx) => {
+      const sources = sourcesOf(section);
+      if (sources.length === 0) throw new Error('None of the section\'s papers are in the collection any more.');
+      const report = await generateValidatedList({
+        prompt: buildSectionPrompt(state.outline, section, sources, state.passages[section.id] ?? []),
+        schema: paragraphSchema(sources.length),
+        describe: (_raw, n) => `"${section.heading}" paragraph ${n + 1}`,
+        generate: (contents) => writer.provider.generate({ model: writer.model, prompt: contents, json: true, signal: ctx.signal }),
+      });
+      state.dropped.push(...report.dropped);
+      if (report.items.length === 0) throw new Error('No paragraph passed validation.');
+
+      const written: WrittenSection = { sectionId: section.id, paragraphs: report.items.map(p => toMarkers(p.text, sources)) };
+      state.written[section.id] = written;
+      onSection(written);
+      const cited = new Set(written.paragraphs.flatMap(p => [...p.matchAll(MARKER)].flatMap(m => parseMarker(m[1]))));
+      return `${written.paragraphs.length} paragraphs citing ${cited.size} of ${sources.length} papers${report.dropped.length > 0 ? `, ${report.dropped.length} dropped` : ''}`;
+    },
+  }));
+
+  return [gather, ...sectionSteps];
+};
+
+// --- Output ---
+
+/** Papers in order of first citation, which is also the order of the generated bibliography. */
+export const citedPapers = (outline: SurveyOutline, written: Record<string, WrittenSection>, papers: Paper[]): Paper[] => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const order = new Set<string>();
+  outline.sections.forEach(section => written[section.id]?.paragraphs.forEach(text => {
+    for (const match of text.matchAll(MARKER)) parseMarker(match[1]).forEach(id => order.add(id));
+  }));
+  return [...order].map(id => byId.get(id)).filter((p): p is Paper => Boolean(p));
+};
+
+// "Vaswani et al., 2017"
+const authorYear = (paper: Paper) => {
+  const families = paper.authors.map(a => splitName(a).family);
+  const names = families.length > 2 ? `${families[0]} et al.` : families.join(' and ') || 'Anonymous';
+  return `${names}, ${paper.year || 'n.d.'}`;
+};
+
+const renderMarkers = (text: string, render: (papers: Paper[]) => string, byId: Map<string, Paper>) =>
+  text.replace(MARKER, (marker, inner: string) => {
+    const cited = parseMarker(inner).map(id => byId.get(id)).filter((p): p is Paper => Boolean(p));
+    return cited.length > 0 ? render(cited) : marker;
+  });
+
+const writtenSections = (outline: SurveyOutline, written: Record<string, WrittenSection>) =>
+  outline.sections.filter(s => written[s.id]).map(s => ({ section: s, paragraphs: written[s.id].paragraphs }));
+
+/** Markdown with author-year citations and a reference list. */
+export const formatSurveyMarkdown = (outline: SurveyOutline, written: Record<string, WrittenSection>, papers: Paper[]): string => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const body = writtenSections(outline, written).map(({ section, paragraphs }) =>
+    `## ${section.heading}\n\n${paragraphs.map(text => renderMarkers(text, cited => `(${cited.map(authorYear).join('; ')})`, byId)).join('\n\n')}`);
+  const references = citedPapers(outline, written, papers)
+    .sort((a, b) => authorYear(a).localeCompare(authorYear(b)))
+    .map(p => `- ${p.authors.join(', ') || 'Anonymous'} (${p.year || 'n.d.'}). ${p.title}.${p.venue ? ` *${p.venue}*.` : ''}${p.link && p.link !== '#' ? ` ${p.link}` : ''}`);
+  return [`# ${outline.title}`, ...body, ...(references.length > 0 ? [`## References\n\n${references.join('\n')}`] : [])].join('\n\n') + '\n';
+};
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '$': '\\$', '&': '\\&', '%': '\\%', '#': '\\#', '_': '\\_', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+};
+
+const escapeLatex = (text: string) => text.replace(/[\\{}$&%#_~^]/g, c => LATEX_SPECIALS[c]);
+
+/**
+ * A standalone LaTeX article citing with natbib; `bibName` is the .bib file
+ * written by formatSurveyBibTeX, without extension.
+ */
+export const formatSurveyLatex = (outline: SurveyOutline, written: Record<string, WrittenSection>, papers: Paper[], bibName: string): string => {
+  const cited = citedPapers(outline, written, papers);
+  const citationKeys = makeCitationKeys(cited);
+  const keys = new Map(cited.map((p, i) => [p.id, citationKeys[i]]));
+  const byId = new Map(papers.map(p => [p.id, p]));
+  // Markers are swapped for placeholders first so escaping leaves the \citep commands alone
+  const paragraph = (text: string) => {
+    const commands: string[] = [];
+    const marked = renderMarkers(text, ps => `\u0000${commands.push(`\\citep{${ps.map(p => keys.get(p.id)).join(',')}}`) - 1}\u0000`, byId);
+    return escapeLatex(marked).replace(/\u0000(\d+)\u0000/g, (_, i) => commands[Number(i)]);
+  };
+  const body = writtenSections(outline, written).map(({ section, paragraphs }) =>
+    `\\section{${escapeLatex(section.heading)}}\n\n${paragraphs.map(paragraph).join('\n\n')}`);
+  return `\\documentclass{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage[authoryear,round]{natbib}
+\\usepackage{hyperref}
+
+\\title{${escapeLatex(outline.title)}}
+\\date{}
+
+\\begin{document}
+\\maketitle
+
+${body.join('\n\n')}
+
+\\bibliographystyle{plainnat}
+\\bibliography{${bibName}}
+
+\\end{document}
+`;
+};
+
+/** BibTeX for the cited papers, with the keys formatSurveyLatex cites them by. */
+export const formatSurveyBibTeX = (outline: SurveyOutline, written: Record<string, WrittenSection>, papers: Paper[]): string =>
+  toBibTeX(citedPapers(outline, written, papers));
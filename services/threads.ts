@@ -0,0 +1,62 @@
+import { ChatMessage, ChatThread } from '../types';
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+
+/*
+ * A thread stores every message ever written in it as a tree: each message points
+ * at the one it answers or follows (`parentId`). Editing a question or regenerating
+ * an answer adds a sibling instead of overwriting, so older branches stay reachable.
+ * `activeLeafId` selects the branch that is shown and sent to the model.
+ */
+
+export const createThread = (collectionId: string, title = DEFAULT_THREAD_TITLE): ChatThread => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), collectionId, title, messages: [], activeLeafId: null, createdAt: now, updatedAt: now };
+};
+
+/** Root-to-leaf path ending at `leafId` (the active leaf by default). */
+export const getBranch = (thread: ChatThread, leafId: string | null = thread.activeLeafId): ChatMessage[] => {
+  const byId = new Map(thread.messages.map(m => [m.id, m]));
+  const path: ChatMessage[] = [];
+  for (let current = leafId ? byId.get(leafId) : undefined; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+    path.unshift(current);
+  }
+  return path;
+};
+
+export const getSiblings = (thread: ChatThread, message: ChatMessage): ChatMessage[] =>
+  thread.messages.filter(m => m.parentId === message.parentId);
+
+/** Follows the most recently written child from `messageId` down to a leaf. */
+export const latestLeaf = (thread: ChatThread, messageId: string): string => {
+  let leaf = messageId;
+  for (;;) {
+    const children = thread.messages.filter(m => m.parentId === leaf);
+    if (children.length === 0) return leaf;
+    leaf = children[children.length - 1].id;
+  }
+};
+
+export const appendMessage = (thread: ChatThread, message: ChatMessage): ChatThread => {
+  const firstQuestion = thread.title === DEFAULT_THREAD_TITLE && message.role === 'user' && !message.parentId;
+  return {
+    ...thread,
+    title: firstQuestion ? message.text.slice(0, 60) : thread.title,
+    messages: [...thread.messages, message],
+    activeLeafId: message.id,
+    updatedAt: Date.now(),
+  };
+};
+
+export const updateMessage = (thread: ChatThread, messageId: string, patch: Partial<ChatMessage>): ChatThread => ({
+  ...thread,
+  messages: thread.messages.map(m => (m.id === messageId ? { ...m, ...patch } : m)),
+  updatedAt: Date.now(),
+});
+
+/** Shows the branch through `messageId`, continuing to its newest descendant. */
+export const selectBranch = (thread: ChatThread, messageId: string): ChatThread => ({
+  ...thread,
+  activeLeafId: latestLeaf(thread, messageId),
+});
+
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { availableSeries, createTrainingRun, parseTrainingLog, TrainingImportError } from './training';
+import TRAINER_STATE from './__fixtures__/trainer_state.json?raw';
+
+describe('parseTrainingLog', () => {
+  it('reads a trainer_state.json, merging train and eval entries and skipping the summary', () => {
+    const parsed = parseTrainingLog(TRAINER_STATE, 'trainer_state.json');
+    expect(parsed.source).toBe('trainer_state');
+    expect(parsed.adapter).toBe('llama-lora-r16');
+    expect(parsed.metrics.map(m => m.step)).toEqual([50, 100, 150, 200]);
+    expect(parsed.metrics[1]).toEqual({ step: 100, epoch: 1, trainLoss: 1.87, learningRate: 0.00015, evalLoss: 1.65, accuracy: 0.61 });
+    expect(parsed.metrics[3].trainLoss).toBe(1.38);
+  });
+
+  it('reads CSV logs with quoted cells and aliased column names', () => {
+    const csv = 'global_step,"Train Loss",val_loss,lr\n2,1.5,,0.001\n1,"2.0",1.9,0.001\n\n';
+    const { source, metrics } = parseTrainingLog(csv, 'metrics.csv');
+    expect(source).toBe('csv');
+    expect(metrics).toEqual([
+      { step: 1, trainLoss: 2, evalLoss: 1.9, learningRate: 0.001 },
+      { step: 2, trainLoss: 1.5, learningRate: 0.001 },
+    ]);
+  });
+
+  it('reads TSV logs and numbers rows without a step column', () => {
+    const { metrics } = parseTrainingLog('epoch\tloss\n1\t0.9\n2\t0.7\n', 'run.tsv');
+    expect(metrics).toEqual([{ step: 1, epoch: 1, trainLoss: 0.9 }, { step: 2, epoch: 2, trainLoss: 0.7 }]);
+  });
+
+  it('reads JSON lines, ignoring a partially written last line', () => {
+    const jsonl = '{"step": 10, "train/loss": 1.2}\n{"step": 10, "eval/loss": 1.4, "eval/accuracy": 0.5}\n{"step": 20, "train/lo';
+    const { source, metrics } = parseTrainingLog(jsonl, 'log.jsonl');
+    expect(source).toBe('jsonl');
+    expect(metrics).toEqual([{ step: 10, trainLoss: 1.2, evalLoss: 1.4, accuracy: 0.5 }]);
+  });
+
+  it('accepts JSON lines and record arrays in a .json file', () => {
+    expect(parseTrainingLog('{"loss": 1}\n{"loss": 0.5}', 'log.json').metrics).toHaveLength(2);
+    expect(parseTrainingLog('[{"step": 5, "loss": 1}]', 'log.json')).toEqual({ source: 'jsonl', metrics: [{ step: 5, trainLoss: 1 }] });
+  });
+
+  it('rejects files without recognised metrics', () => {
+    expect(() => parseTrainingLog('name,value\na,1\n', 'other.csv')).toThrow(TrainingImportError);
+    expect(() => parseTrainingLog('{"log_history": []}', 'trainer_state.json')).toThrow(/contains no recognised metrics/);
+    expect(() => parseTrainingLog('{"epoch": 1}', 'config.json')).toThrow(/no log_history/);
+  });
+});
+
+describe('createTrainingRun', () => {
+  it('prefers the given adapter, then the guessed one, then the file name', () => {
+    const parsed = parseTrainingLog(TRAINER_STATE, 'trainer_state.json');
+    expect(createTrainingRun('c', 'trainer_state.json', parsed, '  ').adapter).toBe('llama-lora-r16');
+    expect(createTrainingRun('c', 'trainer_state.json', parsed, 'mine').adapter).toBe('mine');
+    expect(createTrainingRun('c', 'run-3.csv', { source: 'csv', metrics: parsed.metrics })).toMatchObject({ name: 'run-3', adapter: 'run-3' });
+  });
+});
+
+describe('availableSeries', () => {
+  it('lists only the series that were logged', () => {
+    expect(availableSeries([{ step: 1, trainLoss: 1 }, { step: 2, accuracy: 0.5 }])).toEqual(['trainLoss', 'accuracy']);
+  });
+});
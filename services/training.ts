@@ -0,0 +1,240 @@
+import { TrainingMetric, TrainingRun, TrainingSource } from '../types';
+
+export class TrainingImportError extends Error {
+  constructor(message: string, public readonly fileName?: string) {
+    super(message);
+    this.name = 'TrainingImportError';
+  }
+}
+
+export const TRAINING_ACCEPT = '.json,.jsonl,.ndjson,.csv,.tsv';
+
+type MetricKey = Exclude<keyof TrainingMetric, 'step'>;
+
+// Column / key names used by the common loggers (HF Trainer, Lightning CSVLogger, W&B exports, plain scripts)
+const ALIASES: Record<MetricKey | 'step', string[]> = {
+  step: ['step', 'global_step', 'globalstep', 'iteration', 'iter', 'train/global_step'],
+  epoch: ['epoch', 'train/epoch'],
+  trainLoss: ['loss', 'train_loss', 'training_loss', 'train/loss', 'train_loss_step'],
+  evalLoss: ['eval_loss', 'val_loss', 'validation_loss', 'eval/loss', 'val/loss', 'valid_loss'],
+  accuracy: ['eval_accuracy', 'accuracy', 'acc', 'val_accuracy', 'val_acc', 'eval/accuracy', 'train_accuracy', 'train/accuracy'],
+  learningRate: ['learning_rate', 'lr', 'train/learning_rate', 'lr-adamw', 'lr-adam'],
+};
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/\s+/g, '_');
+
+const LOOKUP = new Map<string, MetricKey | 'step'>(
+  (Object.entries(ALIASES) as [MetricKey | 'step', string[]][]).flatMap(([field, names]) => names.map(n => [n, field] as const))
+);
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// Maps one logged record onto TrainingMetric; `fallbackStep` is used when the logger has no step column
+const toMetric = (record: Record<string, unknown>, fallbackStep: number): Partial<TrainingMetric> | null => {
+  const metric: Partial<TrainingMetric> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = LOOKUP.get(normalizeKey(key));
+    const n = toNumber(value);
+    // The first alias present wins, so "eval_accuracy" is not overwritten by a later "accuracy"
+    if (field && n !== undefined && metric[field] === undefined) metric[field] = n;
+  }
+  const { step: _step, ...values } = metric;
+  if (Object.keys(values).length === 0) return null;
+  return { ...metric, step: metric.step ?? fallbackStep };
+};
+
+/** Folds records logged at the same step (e.g. a train and an eval entry) into one point, ordered by step. */
+const mergeByStep = (records: Partial<TrainingMetric>[]): TrainingMetric[] => {
+  const byStep = new Map<number, TrainingMetric>();
+  for (const record of records) {
+    const existing = byStep.get(record.step!);
+    byStep.set(record.step!, { ...existing, ...Object.fromEntries(Object.entries(record).filter(([, v]) => v !== undefined)) } as TrainingMetric);
+  }
+  return [...byStep.values()].sort((a, b) => a.step - b.step);
+};
+
+// --- Formats ---
+
+/** Hugging Face `trainer_state.json`: metrics live in `log_history`, train and eval entries interleaved. */
+export const parseTrainerState = (state: { log_history?: Record<string, unknown>[] }): TrainingMetric[] => {
+  if (!Array.isArray(state.log_history)) throw new TrainingImportError('trainer_state.json has no log_history.');
+  return mergeByStep(state.log_history
+    // The closing summary entry repeats the averaged train loss under "train_loss"
+    .filter(entry => !('train_runtime' in entry))
+    .map((entry, i) => toMetric(entry, i + 1))
+    .filter((m): m is Partial<TrainingMetric> => m !== null));
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell);
+  return cells;
+};
+
+export const parseMetricsCsv = (text: string, delimiter = ','): TrainingMetric[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length < 2) throw new TrainingImportError('The CSV log needs a header row and at least one data row.');
+  const header = splitCsvLine(lines[0], delimiter);
+  return mergeByStep(lines.slice(1)
+    .map((line, i) => toMetric(Object.fromEntries(splitCsvLine(line, delimiter).map((cell, c) => [header[c] ?? `column${c}`, cell])), i + 1))
+    .filter((m): m is Partial<TrainingMetric> => m !== null));
+};
+
+export const parseMetricsJsonl = (text: string): TrainingMetric[] => {
+  const records: Partial<TrainingMetric>[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // A log that is still being written may end in a partial line
+      return;
+    }
+    if (record && typeof record === 'object') {
+      const metric = toMetric(record as Record<string, unknown>, i + 1);
+      if (metric) records.push(metric);
+    }
+  });
+  return mergeByStep(records);
+};
+
+export interface ParsedTrainingLog {
+  source: TrainingSource;
+  metrics: TrainingMetric[];
+  adapter?: string; // guessed from the checkpoint paths of a trainer_state.json
+}
+
+const finish = (parsed: ParsedTrainingLog, fileName: string): ParsedTrainingLog => {
+  if (parsed.metrics.length === 0) {
+    throw new TrainingImportError(`"${fileName}" contains no recognised metrics (loss, eval_loss, accuracy, learning_rate).`, fileName);
+  }
+  return parsed;
+};
+
+/** Detects the log format from the file name and content. */
+export const parseTrainingLog = (text: string, fileName: string): ParsedTrainingLog => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  let parsed: ParsedTrainingLog;
+
+  if (ext === 'csv' || ext === 'tsv') {
+    parsed = { source: 'csv', metrics: parseMetricsCsv(text, ext === 'tsv' ? '\t' : ',') };
+  } else if (ext === 'jsonl' || ext === 'ndjson') {
+    parsed = { source: 'jsonl', metrics: parseMetricsJsonl(text) };
+  } else {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      // Some loggers write JSON lines into a .json file
+      return finish({ source: 'jsonl', metrics: parseMetricsJsonl(text) }, fileName);
+    }
+    if (Array.isArray(json)) {
+      parsed = { source: 'jsonl', metrics: mergeByStep(json.map((r, i) => toMetric(r, i + 1)).filter((m): m is Partial<TrainingMetric> => m !== null)) };
+    } else {
+      const state = json as { log_history?: Record<string, unknown>[]; best_model_checkpoint?: string | null };
+      const checkpoint = state.best_model_checkpoint?.split(/[\\/]/).filter(Boolean);
+      parsed = {
+        source: 'trainer_state',
+        metrics: parseTrainerState(state),
+        // ".../my-adapter/checkpoint-500" names the output directory, i.e. the adapter
+        adapter: checkpoint && checkpoint.length > 1 ? checkpoint[checkpoint.length - 2] : undefined,
+      };
+    }
+  }
+  return finish(parsed, fileName);
+};
+
+export const createTrainingRun = (
+  collectionId: string,
+  fileName: string,
+  parsed: ParsedTrainingLog,
+  adapter?: string
+): TrainingRun => {
+  const now = Date.now();
+  const name = fileName.replace(/\.[^.]+$/, '');
+  return {
+    id: crypto.randomUUID(),
+    collectionId,
+    name,
+    adapter: adapter?.trim() || parsed.adapter || name,
+    source: parsed.source,
+    fileName,
+    metrics: parsed.metrics,
+    importedAt: now,
+    updatedAt: now,
+  };
+};
+
+export type TrainingSeries = Exclude<MetricKey, 'epoch'>;
+
+/** Which series a run actually logged; the chart only offers these. */
+export const availableSeries = (metrics: TrainingMetric[]): TrainingSeries[] =>
+  (['trainLoss', 'evalLoss', 'accuracy', 'learningRate'] as TrainingSeries[]).filter(key => metrics.some(m => m[key] !== undefined));
+
+// --- Watching a log file that is still being written ---
+
+// File System Access API (Chromium); not part of the TypeScript DOM typings yet
+interface FilePickerWindow {
+  showOpenFilePicker?: (options?: { multiple?: boolean; types?: { description: string; accept: Record<string, string[]> }[] }) => Promise<FileSystemFileHandle[]>;
+}
+
+export const canWatchFiles = () => typeof (window as FilePickerWindow).showOpenFilePicker === 'function';
+
+export const pickLogFile = async (): Promise<FileSystemFileHandle> => {
+  const picker = (window as FilePickerWindow).showOpenFilePicker;
+  if (!picker) throw new TrainingImportError('This browser cannot watch local files. Use Chrome or Edge, or import the file instead.');
+  const [handle] = await picker({
+    multiple: false,
+    types: [{ description: 'Training logs', accept: { 'text/plain': TRAINING_ACCEPT.split(',') } }],
+  });
+  return handle;
+};
+
+/**
+ * Re-reads `handle` every `intervalMs` and reports the parsed log whenever the
+ * file changed. Returns a function that stops watching.
+ */
+export const watchLogFile = (
+  handle: FileSystemFileHandle,
+  onChange: (parsed: ParsedTrainingLog) => void,
+  onError: (error: Error) => void,
+  intervalMs = 5000
+): (() => void) => {
+  let lastModified = -1;
+  let stopped = false;
+
+  const poll = async () => {
+    try {
+      const file = await handle.getFile();
+      if (stopped || file.lastModified === lastModified) return;
+      lastModified = file.lastModified;
+      onChange(parseTrainingLog(await file.text(), file.name));
+    } catch (error) {
+      // A log that has no metrics yet is not an error while training is starting up
+      if (!stopped && !(error instanceof TrainingImportError)) onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  poll();
+  const timer = setInterval(poll, intervalMs);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+};
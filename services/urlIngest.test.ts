@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { classifyUrl, parseYouTubeId, UnsupportedUrlError, UrlIngestor, UrlSource } from './urlIngest';
+import type { TaskTarget } from './providers';
+import CROSSREF_WORK from './__fixtures__/crossref-work.json?raw';
+import ARXIV_FEED from './__fixtures__/arxiv-feed.xml?raw';
+
+// pdf.js needs browser globals jsdom lacks; PDF and video links are not fetched here
+vi.mock('./pdf', () => ({ extractPdf: vi.fn() }));
+vi.mock('./media', () => ({ transcribeHostedVideo: vi.fn() }));
+
+describe('classifyUrl', () => {
+  it.each<[string, UrlSource]>([
+    ['https://arxiv.org/abs/2106.09685v2', { kind: 'arxiv', id: '2106.09685' }],
+    ['arxiv.org/pdf/2106.09685.pdf', { kind: 'arxiv', id: '2106.09685' }],
+    ['https://export.arxiv.org/abs/hep-th/9901001', { kind: 'arxiv', id: 'hep-th/9901001' }],
+    ['2106.09685', { kind: 'arxiv', id: '2106.09685' }],
+    ['arXiv:1706.03762v5', { kind: 'arxiv', id: '1706.03762' }],
+    ['10.48550/arXiv.2106.09685', { kind: 'arxiv', id: '2106.09685' }],
+    ['10.1038/nature14539', { kind: 'doi', doi: '10.1038/nature14539' }],
+    ['doi: 10.1038/nature14539', { kind: 'doi', doi: '10.1038/nature14539' }],
+    ['https://doi.org/10.1145/3442188.3445922', { kind: 'doi', doi: '10.1145/3442188.3445922' }],
+    ['https://example.org/papers/report.pdf', { kind: 'pdf', url: 'https://example.org/papers/report.pdf' }],
+    ['https://youtu.be/dQw4w9WgXcQ?t=42', { kind: 'youtube', videoId: 'dQw4w9WgXcQ', url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' }],
+    ['youtube.com/shorts/dQw4w9WgXcQ', { kind: 'youtube', videoId: 'dQw4w9WgXcQ', url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' }],
+  ])('classifies %s', (input, expected) => {
+    expect(classifyUrl(`  ${input} `)).toEqual(expected);
+  });
+
+  it.each([
+    '',
+    'attention is all you need',
+    'ftp://example.org/paper.pdf',
+    'https://arxiv.org/list/cs.CL/recent',
+    'https://www.youtube.com/@somechannel',
+  ])('rejects %j', input => {
+    expect(() => classifyUrl(input)).toThrow(UnsupportedUrlError);
+  });
+});
+
+describe('parseYouTubeId', () => {
+  it('reads watch, embed and live links and ignores other sites', () => {
+    expect(parseYouTubeId('https://m.youtube.com/watch?v=dQw4w9WgXcQ&list=x')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeId('https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeId('https://www.youtube.com/live/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeId('https://vimeo.com/123456')).toBeNull();
+  });
+});
+
+describe('UrlIngestor', () => {
+  const transcriber = {} as TaskTarget; // only used for YouTube links
+  const serve = (routes: Record<string, string>, requested: string[] = []) => new UrlIngestor({
+    crossrefUrl: 'https://crossref.test/works',
+    arxivUrl: 'https://arxiv.test/api/query',
+    fetch: async input => {
+      const url = String(input);
+      requested.push(url);
+      const route = Object.keys(routes).find(prefix => url.startsWith(prefix));
+      return route ? new Response(routes[route]) : new Response('not found', { status: 404 });
+    },
+  });
+
+  it('maps a Crossref work onto a paper', async () => {
+    const requested: string[] = [];
+    const paper = await serve({ 'https://crossref.test/works/': CROSSREF_WORK }, requested)
+      .fetchPaper({ kind: 'doi', doi: '10.1038/nature14539' }, { transcriber });
+    expect(requested).toEqual(['https://crossref.test/works/10.1038%2Fnature14539']);
+    expect(paper).toMatchObject({
+      title: 'Deep learning',
+      authors: ['Yann LeCun', 'Yoshua Bengio', 'Geoffrey Hinton'],
+      year: '2015',
+      venue: 'Nature',
+      link: 'https://doi.org/10.1038/nature14539',
+      abstract: 'Deep learning allows computational models that are composed of multiple processing layers to learn representations of data.',
+    });
+  });
+
+  it('reports DOIs Crossref does not know', async () => {
+    await expect(serve({}).fetchPaper({ kind: 'doi', doi: '10.9999/missing' }, { transcriber }))
+      .rejects.toMatchObject({ name: 'UrlFetchError', status: 404, message: 'Crossref does not know the DOI 10.9999/missing.' });
+  });
+
+  it('looks arXiv links up through the arXiv API', async () => {
+    const paper = await serve({ 'https://arxiv.test/api/query': ARXIV_FEED }).fetchPaper({ kind: 'arxiv', id: '2106.09685' }, { transcriber });
+    expect(paper.arxivId).toBe('2106.09685');
+  });
+
+  it('passes the signal on to arXiv lookups', async () => {
+    const requested: string[] = [];
+    const controller = new AbortController();
+    controller.abort();
+    await expect(serve({ 'https://arxiv.test/api/query': ARXIV_FEED }, requested)
+      .fetchPaper({ kind: 'arxiv', id: '2106.09685' }, { transcriber, signal: controller.signal })).rejects.toThrow();
+    expect(requested).toEqual([]);
+  });
+});
@@ -0,0 +1,237 @@
+import { Paper } from '../types';
+import { ArxivClient, arxivClient, parseArxivId } from './arxiv';
+import { extractPdf } from './pdf';
+import { transcribeHostedVideo } from './media';
+import { normalizeAuthors } from './paperSchema';
+import type { TaskTarget } from './providers';
+
+export class UnsupportedUrlError extends Error {
+  constructor(message: string, public readonly url?: string) {
+    super(message);
+    this.name = 'UnsupportedUrlError';
+  }
+}
+
+export class UrlFetchError extends Error {
+  constructor(message: string, public readonly url: string, public readonly status?: number) {
+    super(message);
+    this.name = 'UrlFetchError';
+  }
+}
+
+export type UrlSource =
+  | { kind: 'arxiv'; id: string }
+  | { kind: 'doi'; doi: string }
+  | { kind: 'pdf'; url: string }
+  | { kind: 'youtube'; videoId: string; url: string };
+
+// --- Recognising links ---
+
+const DOI = /^(10\.\d{4,9}\/\S+)$/;
+// arXiv mints DOIs for its papers; those are served better by the arXiv API
+const ARXIV_DOI = /^10\.48550\/arxiv\.(.+)$/i;
+const YOUTUBE_ID = /^[\w-]{11}$/;
+const BARE_ARXIV_ID = /^(?:arxiv:\s*)?(?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?$/i;
+
+// Without a scheme, only inputs that look like a domain name count as links
+const toUrl = (input: string): URL | null => {
+  const hasScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(input);
+  try {
+    const url = new URL(hasScheme ? input : `https://${input}`);
+    return ['http:', 'https:'].includes(url.protocol) && (hasScheme || /\.[a-z]{2,}$/i.test(url.hostname)) ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The id of a youtube.com / youtu.be watch, shorts, live or embed link. */
+export const parseYouTubeId = (input: string): string | null => {
+  const url = toUrl(input.trim());
+  if (!url) return null;
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  const id = host === 'youtu.be'
+    ? url.pathname.slice(1).split('/')[0]
+    : ['youtube.com', 'youtube-nocookie.com'].includes(host)
+      ? url.searchParams.get('v') ?? url.pathname.match(/^\/(?:shorts|live|embed)\/([^/]+)/)?.[1]
+      : null;
+  return id && YOUTUBE_ID.test(id) ? id : null;
+};
+
+const parseDoi = (input: string): string | null => {
+  const url = toUrl(input);
+  const candidate = url && /^(dx\.)?doi\.org$/.test(url.hostname)
+    ? decodeURIComponent(url.pathname.slice(1))
+    : input.replace(/^doi:\s*/i, '');
+  return candidate.match(DOI)?.[1] ?? null;
+};
+
+/** Works out what a pasted link or identifier points at; throws UnsupportedUrlError otherwise. */
+export const classifyUrl = (input: string): UrlSource => {
+  const trimmed = input.trim();
+  if (!trimmed) throw new UnsupportedUrlError('Paste a link or identifier first.');
+
+  const doi = parseDoi(trimmed);
+  if (doi) {
+    const arxivDoi = doi.match(ARXIV_DOI);
+    const arxivId = arxivDoi && parseArxivId(arxivDoi[1])?.id;
+    return arxivId ? { kind: 'arxiv', id: arxivId } : { kind: 'doi', doi };
+  }
+
+  if (BARE_ARXIV_ID.test(trimmed)) return { kind: 'arxiv', id: parseArxivId(trimmed)!.id };
+
+  const url = toUrl(trimmed);
+  if (!url) throw new UnsupportedUrlError(`"${trimmed}" is neither a link nor an arXiv id or DOI.`, trimmed);
+
+  if (/(^|\.)arxiv\.org$/.test(url.hostname)) {
+    const arxivId = /^\/(abs|pdf)\//.test(url.pathname) ? parseArxivId(url.pathname.replace(/^\/(abs|pdf)\//, ''))?.id : undefined;
+    if (arxivId) return { kind: 'arxiv', id: arxivId };
+    throw new UnsupportedUrlError(`"${trimmed}" is not a link to an arXiv paper.`, trimmed);
+  }
+
+  const videoId = parseYouTubeId(trimmed);
+  if (videoId) return { kind: 'youtube', videoId, url: `https://www.youtube.com/watch?v=${videoId}` };
+  if (/(^|\.)(youtube\.com|youtu\.be)$/.test(url.hostname)) {
+    throw new UnsupportedUrlError('Only links to a single YouTube video are supported, not channels or playlists.', trimmed);
+  }
+
+  // Any other web link is tried as a PDF; the download is checked before parsing
+  return { kind: 'pdf', url: url.href };
+};
+
+export const describeUrlSource = (source: UrlSource): string => {
+  switch (source.kind) {
+    case 'arxiv': return `arXiv:${source.id}`;
+    case 'doi': return `doi:${source.doi}`;
+    case 'pdf': return new URL(source.url).hostname + new URL(source.url).pathname;
+    case 'youtube': return `YouTube video ${source.videoId}`;
+  }
+};
+
+// --- Fetching ---
+
+interface CrossrefWork {
+  DOI: string;
+  title?: string[];
+  author?: { given?: string; family?: string; name?: string }[];
+  issued?: { 'date-parts'?: (number | null)[][] };
+  published?: { 'date-parts'?: (number | null)[][] };
+  'container-title'?: string[];
+  abstract?: string; // JATS XML
+}
+
+// Crossref abstracts are JATS XML fragments
+const stripMarkup = (xml: string) =>
+  xml.replace(/<jats:title>[^<]*<\/jats:title>/g, ' ').replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ').trim();
+
+export interface UrlIngestOptions {
+  fetch?: typeof fetch;
+  crossrefUrl?: string;
+  youtubeOEmbedUrl?: string;
+  arxivUrl?: string;
+}
+
+export interface UrlFetchContext {
+  transcriber: TaskTarget; // used for YouTube links
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetches and parses whatever a link points at. All network access goes through
+ * the injected `fetch` and base URLs, so the router can run against a local
+ * stand-in server.
+ */
+export class UrlIngestor {
+  private readonly fetchImpl: typeof fetch;
+  private readonly crossrefUrl: string;
+  private readonly youtubeOEmbedUrl: string;
+  private readonly arxiv: ArxivClient;
+
+  constructor(options: UrlIngestOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.crossrefUrl = (options.crossrefUrl ?? 'https://api.crossref.org/works').replace(/\/+$/, '');
+    this.youtubeOEmbedUrl = options.youtubeOEmbedUrl ?? 'https://www.youtube.com/oembed';
+    // Share the default client (and its rate limit) unless the network is swapped out
+    this.arxiv = options.fetch || options.arxivUrl
+      ? new ArxivClient({ fetch: this.fetchImpl, baseUrl: options.arxivUrl, minIntervalMs: 0 })
+      : arxivClient;
+  }
+
+  private async get(url: string, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, { signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Browsers report CORS refusals as plain network errors
+      throw new UrlFetchError(`Could not download ${url}. The server may be unreachable or may not allow requests from this app.`, url);
+    }
+    if (!response.ok) throw new UrlFetchError(`${url} responded with status ${response.status}`, url, response.status);
+    return response;
+  }
+
+  async fetchPaper(source: UrlSource, { transcriber, signal }: UrlFetchContext): Promise<Paper> {
+    switch (source.kind) {
+      case 'arxiv': {
+        const [paper] = await this.arxiv.fetchByIds([source.id], signal);
+        if (!paper) throw new UrlFetchError(`arXiv has no paper with id ${source.id}.`, `arXiv:${source.id}`, 404);
+        return paper;
+      }
+      case 'doi':
+        return this.fetchDoi(source.doi, signal);
+      case 'pdf':
+        return this.fetchPdf(source.url, signal);
+      case 'youtube':
+        return this.fetchYouTube(source.url, transcriber, signal);
+    }
+  }
+
+  private async fetchDoi(doi: string, signal?: AbortSignal): Promise<Paper> {
+    const url = `${this.crossrefUrl}/${encodeURIComponent(doi)}`;
+    const response = await this.get(url, signal).catch(error => {
+      if (error instanceof UrlFetchError && error.status === 404) throw new UrlFetchError(`Crossref does not know the DOI ${doi}.`, url, 404);
+      throw error;
+    });
+    const work = (await response.json()).message as CrossrefWork;
+    const dateParts = work.issued?.['date-parts']?.[0]?.[0] ?? work.published?.['date-parts']?.[0]?.[0];
+    const abstract = work.abstract ? stripMarkup(work.abstract) : undefined;
+
+    return {
+      id: crypto.randomUUID(),
+      title: work.title?.[0] ?? doi,
+      authors: normalizeAuthors((work.author ?? []).map(a => a.name ?? [a.given, a.family].filter(Boolean).join(' '))),
+      year: dateParts ? String(dateParts) : '',
+      summary: abstract ?? '',
+      highlights: [],
+      link: `https://doi.org/${work.DOI ?? doi}`,
+      abstract,
+      doi: work.DOI ?? doi,
+      venue: work['container-title']?.[0],
+    };
+  }
+
+  private async fetchPdf(url: string, signal?: AbortSignal): Promise<Paper> {
+    const data = await (await this.get(url, signal)).arrayBuffer();
+    // Check the magic bytes rather than the content type, which servers often get wrong
+    if (new TextDecoder().decode(new Uint8Array(data, 0, Math.min(5, data.byteLength))) !== '%PDF-') {
+      throw new UnsupportedUrlError(`${url} is not a PDF. Supported links are arXiv papers, DOIs, direct PDF links and YouTube videos.`, url);
+    }
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'download.pdf');
+    const paper = await extractPdf(new File([data], name, { type: 'application/pdf' }));
+    return { ...paper, link: url, pdfUrl: url };
+  }
+
+  private async fetchYouTube(url: string, transcriber: TaskTarget, signal?: AbortSignal): Promise<Paper> {
+    // oEmbed gives the title and channel without an API key
+    const oembed: { title?: string; author_name?: string } = await this.get(`${this.youtubeOEmbedUrl}?${new URLSearchParams({ url, format: 'json' })}`, signal)
+      .then(r => r.json())
+      .catch(error => {
+        if (signal?.aborted) throw error;
+        return {}; // private or age-restricted videos have no oEmbed data
+      });
+    return transcribeHostedVideo(url, { title: oembed.title || url, author: oembed.author_name }, transcriber, signal);
+  }
+}
+
+export const urlIngestor = new UrlIngestor();
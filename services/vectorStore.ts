@@ -0,0 +1,85 @@
+import { Chunk, RetrievedChunk } from '../types';
+
+interface Entry {
+  chunk: Chunk;
+  vector: number[];
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * In-memory vector index with brute-force cosine search. Fine for the few
+ * thousand chunks a personal knowledge base holds.
+ */
+export class VectorStore {
+  private entries = new Map<string, Entry>();
+  private dimensions: number | null = null;
+  private revision = 0;
+
+  constructor(readonly embedderId: string) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  // Bumped on every change, so indexes derived from the chunks know when to rebuild
+  get version() {
+    return this.revision;
+  }
+
+  get(chunkId: string): Chunk | undefined {
+    return this.entries.get(chunkId)?.chunk;
+  }
+
+  chunks(): Chunk[] {
+    return Array.from(this.entries.values(), e => e.chunk);
+  }
+
+  add(chunks: Chunk[], vectors: number[][]) {
+    if (chunks.length !== vectors.length) {
+      throw new Error(`Got ${vectors.length} vectors for ${chunks.length} chunks`);
+    }
+    chunks.forEach((chunk, i) => {
+      const vector = vectors[i];
+      if (this.dimensions === null) this.dimensions = vector.length;
+      if (vector.length !== this.dimensions) {
+        throw new Error(`Vector for ${chunk.id} has ${vector.length} dimensions, index expects ${this.dimensions}`);
+      }
+      this.entries.set(chunk.id, { chunk, vector });
+    });
+    this.revision++;
+  }
+
+  removePaper(paperId: string) {
+    for (const [id, entry] of this.entries) {
+      if (entry.chunk.paperId === paperId) this.entries.delete(id);
+    }
+    this.revision++;
+  }
+
+  clear() {
+    this.entries.clear();
+    this.dimensions = null;
+    this.revision++;
+  }
+
+  search(query: number[], k: number, filter?: (chunk: Chunk) => boolean): RetrievedChunk[] {
+    const results: RetrievedChunk[] = [];
+    for (const { chunk, vector } of this.entries.values()) {
+      if (filter && !filter(chunk)) continue;
+      results.push({ chunk, score: cosineSimilarity(query, vector) });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
@@ -0,0 +1,155 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { Paper } from '../types';
+import { EmbeddingProvider } from './embeddings';
+import { formatTimestamp } from './media';
+import { normalizeTitle } from './paperSchema';
+import { retrieve } from './rag';
+import { searchPapers } from './search';
+import { VectorStore } from './vectorStore';
+
+// Functions the live voice session may call; each is answered from the local collection
+export const VOICE_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'search_knowledge_base',
+    description: 'Searches the full text of the papers in the collection and returns the most relevant passages with their source.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'What to look for, phrased as a question or keywords.' },
+        limit: { type: Type.INTEGER, description: 'Number of passages to return, 1-8. Defaults to 4.' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_paper_details',
+    description: 'Returns the metadata, abstract, summary and key points of one paper, found by its id or (part of) its title.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        paperId: { type: Type.STRING, description: 'Id returned by another function.' },
+        title: { type: Type.STRING, description: 'Title or distinctive part of it, if no id is known.' },
+      },
+    },
+  },
+  {
+    name: 'list_papers',
+    description: 'Lists papers in the collection, optionally filtered by topic, tag, author name and publication year range. With a topic, the best matches come first.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        topic: { type: Type.STRING, description: 'Keywords the paper should be about.' },
+        tag: { type: Type.STRING, description: 'A tag the user gave the paper.' },
+        author: { type: Type.STRING, description: 'Part of an author name, e.g. a surname.' },
+        yearFrom: { type: Type.INTEGER },
+        yearTo: { type: Type.INTEGER },
+      },
+    },
+  },
+];
+
+export interface VoiceToolContext {
+  papers: Paper[];
+  store: VectorStore;
+  embedder: EmbeddingProvider;
+}
+
+export interface VoiceToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Long lists slow the spoken answer down; `total` tells the model how many were left out
+const MAX_LISTED = 25;
+
+const byline = (paper: Paper) =>
+  `${paper.authors.slice(0, 3).join(', ')}${paper.authors.length > 3 ? ' et al.' : ''}${paper.year ? `, ${paper.year}` : ''}`;
+
+const findPaper = (papers: Paper[], { paperId, title }: { paperId?: string; title?: string }): Paper | undefined => {
+  const exact = papers.find(p => p.id === paperId);
+  if (exact || !title) return exact;
+  const wanted = normalizeTitle(title);
+  return papers.find(p => normalizeTitle(p.title) === wanted) ?? papers.find(p => normalizeTitle(p.title).includes(wanted));
+};
+
+const searchKnowledgeBase = async ({ papers, store, embedder }: VoiceToolContext, args: Record<string, unknown>) => {
+  const query = String(args.query ?? '').trim();
+  if (!query) return { error: 'query is required' };
+  const limit = Math.min(Math.max(Number(args.limit) || 4, 1), 8);
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const results = await retrieve(query, store, embedder, limit);
+  return {
+    results: results.map(({ chunk }) => {
+      const paper = byId.get(chunk.paperId);
+      return {
+        paperId: chunk.paperId,
+        title: paper?.title,
+        source: paper ? byline(paper) : undefined,
+        location: chunk.page !== undefined ? `page ${chunk.page}` : chunk.time !== undefined ? `at ${formatTimestamp(chunk.time)}` : undefined,
+        text: chunk.text,
+      };
+    }),
+  };
+};
+
+const getPaperDetails = ({ papers }: VoiceToolContext, args: Record<string, unknown>) => {
+  const paper = findPaper(papers, { paperId: args.paperId as string | undefined, title: args.title as string | undefined });
+  if (!paper) return { error: 'No paper in the collection matches that id or title.' };
+  return {
+    paperId: paper.id,
+    title: paper.title,
+    authors: paper.authors,
+    year: paper.year,
+    venue: paper.venue,
+    abstract: paper.abstract,
+    summary: paper.summary,
+    keyPoints: paper.highlights,
+    kind: paper.transcript ? `${paper.transcript.kind} recording, ${formatTimestamp(paper.transcript.duration)}` : 'paper',
+  };
+};
+
+const listPapers = async ({ papers, store, embedder }: VoiceToolContext, args: Record<string, unknown>) => {
+  const author = typeof args.author === 'string' ? args.author.trim().toLowerCase() : '';
+  const tag = typeof args.tag === 'string' ? args.tag.trim().toLowerCase() : '';
+  const topic = typeof args.topic === 'string' ? args.topic.trim() : '';
+  const from = Number(args.yearFrom) || 0;
+  const to = Number(args.yearTo) || Infinity;
+  const byYear = from > 0 || to < Infinity;
+  let candidates = papers;
+  if (topic) {
+    const byId = new Map(papers.map(p => [p.id, p]));
+    candidates = (await searchPapers(topic, papers, store, embedder)).map(hit => byId.get(hit.paperId)!);
+  }
+  const matches = candidates.filter(p =>
+    (!author || p.authors.some(a => a.toLowerCase().includes(author)))
+    && (!tag || (p.tags ?? []).some(t => t.toLowerCase() === tag))
+    && (!byYear || (Number(p.year) >= from && Number(p.year) <= to)));
+  return {
+    total: matches.length,
+    papers: matches.slice(0, MAX_LISTED).map(p => ({ paperId: p.id, title: p.title, source: byline(p) })),
+  };
+};
+
+/** Answers one function call of the live session; failures are returned to the model as `error`. */
+export const runVoiceTool = async (call: VoiceToolCall, context: VoiceToolContext): Promise<Record<string, unknown>> => {
+  try {
+    switch (call.name) {
+      case 'search_knowledge_base': return await searchKnowledgeBase(context, call.args);
+      case 'get_paper_details': return getPaperDetails(context, call.args);
+      case 'list_papers': return await listPapers(context, call.args);
+      default: return { error: `Unknown function ${call.name}` };
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/** Short label for the "looking up" indicator. */
+export const describeVoiceTool = ({ name, args }: VoiceToolCall): string => {
+  switch (name) {
+    case 'search_knowledge_base': return `Searching for "${args.query ?? ''}"`;
+    case 'get_paper_details': return `Opening ${args.title ? `"${args.title}"` : 'paper details'}`;
+    case 'list_papers': return args.topic ? `Listing papers about "${args.topic}"` : args.author ? `Listing papers by ${args.author}` : 'Listing papers';
+    default: return 'Looking up';
+  }
+};
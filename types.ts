@@ -4,31 +4,180 @@ export enum AppMode {
   DASHBOARD = 'DASHBOARD',
 }
 
+export interface PaperPage {
+  number: number;
+  text: string;
+  offset: number; // character offset of this page within fullText
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the recording
+  end: number;
+  text: string;
+  offset: number; // character offset of this segment within fullText
+}
+
+// Recorded talks and sessions; the transcript text is the paper's fullText
+export interface MediaTranscript {
+  kind: 'audio' | 'video';
+  mimeType: string;
+  fileName: string;
+  url?: string; // hosted recordings (YouTube); uploaded files are kept in storage instead
+  duration: number; // seconds
+  segments: TranscriptSegment[];
+}
+
 export interface Paper {
+  id: string;
   title: string;
   authors: string[];
   year: string;
   summary: string;
   highlights: string[];
   link: string;
+  abstract?: string;
+  fullText?: string;
+  pages?: PaperPage[];
+  arxivId?: string; // without version suffix, e.g. "2106.09685"
+  version?: number;
+  categories?: string[];
+  pdfUrl?: string;
+  doi?: string;
+  published?: string; // ISO timestamps as reported by the source
+  updated?: string;
+  venue?: string; // journal or proceedings
+  citationKey?: string; // BibTeX key / CSL id, kept so exports round-trip
+  transcript?: MediaTranscript; // set for audio and video sources; the recording itself is kept in storage
+  tags?: string[]; // set by the user in the Knowledge Base
+  addedAt?: number; // epoch ms of the first ingestion; missing for papers saved before it was recorded
+}
+
+export interface Chunk {
+  id: string;
+  paperId: string;
+  index: number;
+  text: string;
+  start: number; // character range within the paper's source text
+  end: number;
+  page?: number;
+  time?: number; // seconds into the recording, for transcript sources
+}
+
+export interface RetrievedChunk {
+  chunk: Chunk;
+  score: number;
+}
+
+export interface Citation {
+  index: number; // footnote number, matches the [n] markers in the answer
+  kind: 'paper' | 'web';
+  title: string;
+  paperId?: string;
+  chunkId?: string;
+  page?: number;
+  time?: number;
+  url?: string;
+  snippet?: string;
 }
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
+  parentId: string | null; // previous message on the same branch; null for the first question
+  createdAt: number;
   isThinking?: boolean;
-  citations?: string[];
+  stopped?: boolean; // generation was interrupted by the user
+  error?: boolean;
+  citations?: Citation[];
+  via?: 'voice'; // transcribed from a live voice session
+  scope?: string; // id of the paper a question was limited to; retrieval only searches that paper
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ChatThread {
+  id: string;
+  collectionId: string;
+  title: string;
+  messages: ChatMessage[]; // every branch, see services/threads.ts
+  activeLeafId: string | null;
+  // Running summaries of older turns, keyed by the id of the last message each one covers
+  summaries?: Record<string, string>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface PipelineRun {
+  id: string;
+  collectionId: string;
+  title: string;
+  startedAt: number;
+  finishedAt: number;
+  status: Exclude<JobStatus, 'running'>;
+  logs: ProcessingLog[];
 }
 
 export interface ProcessingLog {
+  id: string;
   step: string;
-  status: 'pending' | 'active' | 'completed';
+  status: 'pending' | 'active' | 'completed' | 'failed' | 'skipped';
   detail?: string;
+  error?: string;
+  progress?: number; // 0-100 while active
+  startedAt?: number;
+  finishedAt?: number;
 }
 
+// One logged point of a training run; loggers report train and eval metrics at different steps, so each is optional
 export interface TrainingMetric {
-  epoch: number;
-  loss: number;
-  accuracy: number;
+  step: number;
+  epoch?: number;
+  trainLoss?: number;
+  evalLoss?: number;
+  accuracy?: number;
+  learningRate?: number;
+}
+
+export type TrainingSource = 'trainer_state' | 'csv' | 'jsonl';
+
+// An adapter trained elsewhere, imported from its metric log
+export interface TrainingRun {
+  id: string;
+  collectionId: string; // the collection this adapter answers
+  name: string;
+  adapter: string; // adapter / model name as served, e.g. "neurpaper-lora-7b"
+  source: TrainingSource;
+  fileName: string;
+  metrics: TrainingMetric[];
+  importedAt: number;
+  updatedAt: number;
+}
+
+export type DatasetExampleKind = 'instruction' | 'qa';
+
+// One supervised fine-tuning example generated from a chunk of the knowledge base
+export interface DatasetExample {
+  id: string;
+  collectionId: string;
+  kind: DatasetExampleKind;
+  instruction: string;
+  input?: string; // supporting passage for instruction examples
+  output: string;
+  // Provenance: the paper and chunk the example was written from
+  paperId: string;
+  chunkId: string;
+  page?: number;
+  time?: number;
+  status: 'pending' | 'accepted' | 'rejected';
+  split: 'train' | 'eval';
+  edited?: boolean;
+  createdAt: number;
 }